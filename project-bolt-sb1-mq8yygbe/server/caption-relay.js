@@ -0,0 +1,160 @@
+// Relay for shared live-caption rooms.
+// Usage: node server/caption-relay.js [port]
+// A host sends {"type":"host","languages":[...]} with the language codes it can translate into and
+// gets a room code back. Viewers send {"type":"join","room":...}
+// and from then on receive every captions snapshot the host sends. Viewer replies and language
+// choices go back to the host; a language the host did not list is dropped. Rooms live in memory and close when the host disconnects.
+// The number of rooms and viewers per room is capped, and connections other than hosts are rate
+// limited, so a room link cannot be used to flood the host with replies.
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.argv[2] || process.env.PORT || 5200);
+// Without I, O, 0 and 1, so codes can be read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_NAME_LENGTH = 40;
+const MAX_REPLY_LENGTH = 2000;
+
+const MAX_LANGUAGES = 200;
+const MAX_ROOMS = 500;
+const MAX_VIEWERS_PER_ROOM = 100;
+// Caption snapshots are the largest messages; they stay far below this
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+// Token bucket per connection: a burst of this many messages, refilled at the rate below
+const MESSAGE_BURST = 10;
+const MESSAGES_PER_SECOND = 1;
+
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const newCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+// Viewers can only ask for languages the host translates into; anything else leaves them without one
+const roomLanguage = (room, language) => (room.languages.has(language) ? language : '');
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const viewerList = (room) =>
+  [...room.viewers.values()].map(({ id, name, language }) => ({ id, name, language }));
+
+const notifyHost = (room) => send(room.host, { type: 'viewers', viewers: viewerList(room) });
+
+const createRateLimit = () => {
+  let tokens = MESSAGE_BURST;
+  let updatedAt = Date.now();
+  return () => {
+    const now = Date.now();
+    tokens = Math.min(MESSAGE_BURST, tokens + ((now - updatedAt) / 1000) * MESSAGES_PER_SECOND);
+    updatedAt = now;
+    if (tokens < 1) return false;
+    tokens -= 1;
+    return true;
+  };
+};
+
+const closeRoom = (code) => {
+  const room = rooms.get(code);
+  if (!room) return;
+  rooms.delete(code);
+  for (const viewer of room.viewers.values()) {
+    send(viewer.socket, { type: 'closed' });
+    viewer.socket.close();
+  }
+  console.log(`Room ${code} closed`);
+};
+
+new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES }).on('connection', (socket) => {
+  // What this connection is, once it has hosted or joined a room
+  let role = null;
+  const withinRateLimit = createRateLimit();
+
+  socket.on('message', (data) => {
+    // Hosts send a captions snapshot with every change and only reach their own viewers
+    if (role?.kind !== 'host' && !withinRateLimit()) {
+      return send(socket, { type: 'error', message: 'Too many messages, slow down' });
+    }
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send(socket, { type: 'error', message: 'Invalid JSON' });
+    }
+    if (!isObject(message)) return send(socket, { type: 'error', message: 'Messages must be JSON objects' });
+
+    if (!role) {
+      if (message.type === 'host') {
+        if (rooms.size >= MAX_ROOMS) return send(socket, { type: 'error', message: 'The relay is full, try again later' });
+        const code = newCode();
+        const languages = Array.isArray(message.languages)
+          ? message.languages.filter((l) => typeof l === 'string' && l).slice(0, MAX_LANGUAGES)
+          : [];
+        rooms.set(code, { host: socket, viewers: new Map(), captions: null, languages: new Set(languages) });
+        role = { kind: 'host', code };
+        send(socket, { type: 'hosted', room: code });
+        console.log(`Room ${code} opened`);
+      } else if (message.type === 'join') {
+        const code = String(message.room || '').toUpperCase();
+        const room = rooms.get(code);
+        if (!room) return send(socket, { type: 'error', message: `Room ${code} does not exist or has closed` });
+        if (room.viewers.size >= MAX_VIEWERS_PER_ROOM) return send(socket, { type: 'error', message: `Room ${code} is full` });
+        const viewer = {
+          id: randomUUID(),
+          name: String(message.name || 'Guest').slice(0, MAX_NAME_LENGTH),
+          language: roomLanguage(room, message.language),
+          socket,
+        };
+        room.viewers.set(viewer.id, viewer);
+        role = { kind: 'viewer', code, viewer };
+        send(socket, { type: 'joined', room: code });
+        if (room.captions) send(socket, room.captions);
+        notifyHost(room);
+      } else {
+        send(socket, { type: 'error', message: 'Host or join a room first' });
+      }
+      return;
+    }
+
+    const room = rooms.get(role.code);
+    if (!room) return;
+
+    if (role.kind === 'host' && message.type === 'captions') {
+      // Kept so viewers who join later start from the current state
+      room.captions = message;
+      for (const viewer of room.viewers.values()) send(viewer.socket, message);
+    } else if (role.kind === 'viewer' && message.type === 'language') {
+      const language = roomLanguage(room, message.language);
+      if (!language) return send(socket, { type: 'error', message: 'That language is not available in this room' });
+      role.viewer.language = language;
+      notifyHost(room);
+    } else if (role.kind === 'viewer' && message.type === 'reply') {
+      const text = String(message.text || '').trim().slice(0, MAX_REPLY_LENGTH);
+      if (!text) return;
+      const { id, name, language } = role.viewer;
+      send(room.host, { type: 'reply', viewerId: id, name, language, text });
+    }
+  });
+
+  socket.on('close', () => {
+    if (role?.kind === 'host') {
+      closeRoom(role.code);
+    } else if (role?.kind === 'viewer') {
+      const room = rooms.get(role.code);
+      if (room) {
+        room.viewers.delete(role.viewer.id);
+        notifyHost(room);
+      }
+    }
+  });
+});
+
+console.log(`Caption relay listening on ws://localhost:${port}`);
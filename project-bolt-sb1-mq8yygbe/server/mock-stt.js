@@ -0,0 +1,82 @@
+// Minimal streaming speech-to-text server for local testing.
+// Usage: node server/mock-stt.js [port]
+// Protocol: the client sends {"type":"start","language":"th-TH",...}, then binary audio chunks,
+// then {"type":"stop"}. Audio is not decoded; canned phrases are "recognized" as chunks arrive.
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.argv[2] || process.env.PORT || 5100);
+// Audio chunks per recognized phrase (the app sends one chunk every 250 ms)
+const chunksPerPhrase = Number(process.env.MOCK_STT_CHUNKS_PER_PHRASE || 8);
+// When set, sessions must connect with ?api_key= set to this
+const apiKey = process.env.MOCK_STT_API_KEY || '';
+
+const phrases = {
+  th: ['สวัสดีครับ', 'ผมมีปัญหากับการสั่งซื้อ', 'สินค้ายังไม่มาถึงเลยครับ'],
+  en: ['Hello there.', 'I have a problem with my order.', 'The package has not arrived yet.'],
+  es: ['Hola.', 'Tengo un problema con mi pedido.', 'El paquete todavía no ha llegado.'],
+};
+
+const phrasesFor = (locale = 'en') => phrases[locale.split('-')[0]] ?? phrases.en;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// A lower-ranked candidate that differs slightly, so the app has something to offer instead
+const alternativeFor = (phrase) => (/[.!?]$/.test(phrase) ? phrase.slice(0, -1).toLowerCase() : phrase.slice(0, -1));
+
+const finalResult = (phrase) => ({
+  type: 'final',
+  transcript: phrase,
+  confidence: 0.5 + Math.random() * 0.5,
+  alternatives: [{ transcript: alternativeFor(phrase), confidence: 0.3 }],
+});
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket, req) => {
+  let session = null;
+  const authorized = !apiKey || new URL(req.url, 'ws://localhost').searchParams.get('api_key') === apiKey;
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      if (!session) return send(socket, { type: 'error', code: 'bad-grammar', message: 'Audio before start' });
+      session.chunks++;
+      const phrase = session.phrases[session.index % session.phrases.length];
+      const progress = session.chunks % chunksPerPhrase;
+      if (progress === 0) {
+        send(socket, finalResult(phrase));
+        session.index++;
+      } else {
+        // Reveal the phrase gradually, like a real recognizer's interim results
+        const shown = Math.ceil((phrase.length * progress) / chunksPerPhrase);
+        send(socket, { type: 'interim', transcript: phrase.slice(0, shown) });
+      }
+      return;
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send(socket, { type: 'error', code: 'bad-grammar', message: 'Invalid JSON' });
+    }
+
+    if (message.type === 'start') {
+      if (!authorized) return send(socket, { type: 'error', code: 'service-not-allowed', message: 'Invalid API key' });
+      session = { phrases: phrasesFor(message.language), index: 0, chunks: 0 };
+      console.log(`Recognizing ${message.language} (${message.mimeType || 'default format'})`);
+    } else if (message.type === 'stop') {
+      // Whatever was heard since the last phrase becomes a final result
+      if (session && session.chunks % chunksPerPhrase !== 0) {
+        send(socket, finalResult(session.phrases[session.index % session.phrases.length]));
+      }
+      send(socket, { type: 'end' });
+      socket.close();
+    }
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Mock speech server listening on ws://localhost:${server.address().port}`);
+});
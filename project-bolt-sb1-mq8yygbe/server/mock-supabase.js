@@ -0,0 +1,238 @@
+// In-memory stand-in for the parts of Supabase that account sync uses: email sign-in and the
+// PostgREST endpoints for the tables in supabase/migrations, with their row-level security.
+// Usage: node server/mock-supabase.js [port], then set VITE_SUPABASE_URL=http://localhost:<port>
+// and VITE_SUPABASE_ANON_KEY to anything. Port 0 picks a free one. Data is lost on exit.
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 54321);
+
+const users = new Map(); // email -> { user, password }
+const tokens = new Map(); // access or refresh token -> user id
+
+// Columns the database fills in when a row leaves them out, besides agent_id
+const tables = {
+  sessions: { rows: new Map(), defaults: () => ({ name: '' }) },
+  turns: { rows: new Map(), defaults: () => ({ translated_text: '', sync_id: randomUUID() }) },
+  glossary_entries: {
+    rows: new Map(),
+    defaults: () => ({ translation: '', do_not_translate: false, updated_at: new Date().toISOString() }),
+  },
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+
+const send = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Unsigned, but shaped like the JWTs Supabase issues so the client can read its claims
+const issueSession = (user) => {
+  const expiresIn = 3600;
+  const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+  const accessToken = [
+    base64url({ alg: 'HS256', typ: 'JWT' }),
+    base64url({ sub: user.id, email: user.email, role: 'authenticated', aud: 'authenticated', exp: expiresAt }),
+    'mock',
+  ].join('.');
+  const refreshToken = randomUUID();
+  tokens.set(accessToken, user.id);
+  tokens.set(refreshToken, user.id);
+  return {
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: expiresIn,
+    expires_at: expiresAt,
+    refresh_token: refreshToken,
+    user,
+  };
+};
+
+const findUser = (id) => [...users.values()].find((u) => u.user.id === id)?.user;
+
+const agentOf = (req) => tokens.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+
+const handleAuth = async (req, res, url) => {
+  const path = url.pathname.slice('/auth/v1'.length);
+  if (req.method === 'POST' && path === '/signup') {
+    const { email, password } = await readJson(req);
+    if (!email || !password) return send(res, 400, { code: 400, msg: 'Email and password are required' });
+    if (users.has(email)) return send(res, 422, { code: 422, error_code: 'user_already_exists', msg: 'User already registered' });
+    const now = new Date().toISOString();
+    const user = {
+      id: randomUUID(),
+      aud: 'authenticated',
+      role: 'authenticated',
+      email,
+      app_metadata: { provider: 'email' },
+      user_metadata: {},
+      created_at: now,
+      updated_at: now,
+    };
+    users.set(email, { user, password });
+    return send(res, 200, issueSession(user));
+  }
+  if (req.method === 'POST' && path === '/token') {
+    const body = await readJson(req);
+    if (url.searchParams.get('grant_type') === 'refresh_token') {
+      const user = findUser(tokens.get(body.refresh_token));
+      if (!user) return send(res, 400, { code: 400, error_code: 'refresh_token_not_found', msg: 'Invalid Refresh Token' });
+      return send(res, 200, issueSession(user));
+    }
+    const account = users.get(body.email);
+    if (!account || account.password !== body.password) {
+      return send(res, 400, { code: 400, error_code: 'invalid_credentials', msg: 'Invalid login credentials' });
+    }
+    return send(res, 200, issueSession(account.user));
+  }
+  if (req.method === 'GET' && path === '/user') {
+    const user = findUser(agentOf(req));
+    return user ? send(res, 200, user) : send(res, 401, { code: 401, msg: 'Invalid token' });
+  }
+  if (req.method === 'POST' && path === '/logout') {
+    tokens.delete((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+    return send(res, 204);
+  }
+  send(res, 404, { code: 404, msg: 'Not found' });
+};
+
+// The eq, neq and in filters, which are all the app sends
+const RESERVED_PARAMS = new Set(['select', 'order', 'offset', 'limit', 'columns', 'on_conflict']);
+
+const matches = (row, params) =>
+  [...params].every(([column, filter]) => {
+    if (RESERVED_PARAMS.has(column)) return true;
+    const [operator, ...rest] = filter.split('.');
+    const expected = rest.join('.');
+    const actual = row[column] === null || row[column] === undefined ? null : String(row[column]);
+    if (operator === 'eq') return actual === expected;
+    if (operator === 'neq') return actual !== null && actual !== expected;
+    if (operator === 'in') return expected.replace(/^\(|\)$/g, '').split(',').includes(actual);
+    throw Object.assign(new Error(`Unsupported filter ${filter}`), { status: 400 });
+  });
+
+const sortRows = (rows, order) => {
+  if (!order) return rows;
+  const keys = order.split(',').map((part) => {
+    const [column, direction] = part.split('.');
+    return { column, sign: direction === 'desc' ? -1 : 1 };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, sign } of keys) {
+      if (a[column] < b[column]) return -sign;
+      if (a[column] > b[column]) return sign;
+    }
+    return 0;
+  });
+};
+
+// Row-level security: every agent sees and changes only rows with their agent_id
+const visibleRows = (table, agentId) => [...tables[table].rows.values()].filter((row) => row.agent_id === agentId);
+
+const rlsError = (table) =>
+  Object.assign(new Error(`new row violates row-level security policy for table "${table}"`), {
+    status: 403,
+    code: '42501',
+  });
+
+const upsertRows = (table, body, agentId) => {
+  const rows = Array.isArray(body) ? body : [body];
+  const store = tables[table].rows;
+  // Checked before writing anything, as the statement would fail as a whole
+  const written = rows.map((row) => {
+    const existing = store.get(row.id);
+    const next = { ...tables[table].defaults(), ...existing, ...row, agent_id: row.agent_id ?? existing?.agent_id ?? agentId };
+    if (!agentId || next.agent_id !== agentId || (existing && existing.agent_id !== agentId)) throw rlsError(table);
+    if (table === 'turns' && tables.sessions.rows.get(next.session_id)?.agent_id !== agentId) throw rlsError(table);
+    return next;
+  });
+  written.forEach((row) => store.set(row.id, row));
+};
+
+const deleteRows = (table, params, agentId) => {
+  for (const row of visibleRows(table, agentId).filter((r) => matches(r, params))) {
+    tables[table].rows.delete(row.id);
+    // Turns go with their session through the foreign key
+    if (table === 'sessions') {
+      for (const turn of tables.turns.rows.values()) {
+        if (turn.session_id === row.id) tables.turns.rows.delete(turn.id);
+      }
+    }
+  }
+};
+
+const selectRows = (table, params, agentId) => {
+  const select = params.get('select') ?? '*';
+  if (select !== '*' && !(table === 'sessions' && select === '*,turns(*)')) {
+    throw Object.assign(new Error(`Unsupported select ${select}`), { status: 400 });
+  }
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = params.has('limit') ? Number(params.get('limit')) : Infinity;
+  const rows = sortRows(
+    visibleRows(table, agentId).filter((row) => matches(row, params)),
+    params.get('order')
+  ).slice(offset, offset + limit);
+  if (select === '*') return rows;
+  const turns = visibleRows('turns', agentId);
+  return rows.map((row) => ({ ...row, turns: turns.filter((t) => t.session_id === row.id) }));
+};
+
+const handleRest = async (req, res, url) => {
+  const table = url.pathname.slice('/rest/v1/'.length);
+  if (!(table in tables)) return send(res, 404, { code: '42P01', message: `relation "${table}" does not exist` });
+  const agentId = agentOf(req);
+  try {
+    if (req.method === 'GET') return send(res, 200, selectRows(table, url.searchParams, agentId));
+    if (req.method === 'POST') {
+      const prefer = req.headers.prefer ?? '';
+      const body = await readJson(req);
+      const rows = Array.isArray(body) ? body : [body];
+      if (!prefer.includes('resolution=merge-duplicates') && rows.some((row) => tables[table].rows.has(row.id))) {
+        return send(res, 409, { code: '23505', message: `duplicate key value violates unique constraint "${table}_pkey"` });
+      }
+      upsertRows(table, body, agentId);
+      return send(res, 201);
+    }
+    if (req.method === 'DELETE') {
+      deleteRows(table, url.searchParams, agentId);
+      return send(res, 204);
+    }
+    send(res, 405, { message: `Method ${req.method} is not supported` });
+  } catch (err) {
+    send(res, err.status ?? 400, { code: err.code ?? 'PGRST100', message: err.message });
+  }
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] ?? '*');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, 'http://localhost');
+  try {
+    if (url.pathname.startsWith('/auth/v1/')) return await handleAuth(req, res, url);
+    if (url.pathname.startsWith('/rest/v1/')) return await handleRest(req, res, url);
+    send(res, 404, { message: 'Not found' });
+  } catch {
+    send(res, 400, { message: 'Invalid JSON' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock Supabase listening on http://localhost:${server.address().port}`);
+});
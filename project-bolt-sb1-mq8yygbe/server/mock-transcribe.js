@@ -0,0 +1,65 @@
+// Minimal OpenAI-style transcription server for local testing of uploaded recordings.
+// Usage: node server/mock-transcribe.js [port]
+// POST /audio/transcriptions takes multipart form data with a 16 kHz mono WAV "file" and a
+// "language". Audio is not decoded; canned phrases are spread over the audio's length.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 5300);
+// 16 kHz, 16-bit mono, as the app sends it
+const BYTES_PER_SECOND = 32000;
+// Seconds of audio per recognized phrase
+const SECONDS_PER_PHRASE = 3;
+
+const phrases = {
+  th: ['สวัสดีครับ', 'ผมมีปัญหากับการสั่งซื้อ', 'สินค้ายังไม่มาถึงเลยครับ'],
+  en: ['Hello there.', 'I have a problem with my order.', 'The package has not arrived yet.'],
+  es: ['Hola.', 'Tengo un problema con mi pedido.', 'El paquete todavía no ha llegado.'],
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(JSON.stringify(payload));
+};
+
+// Just enough multipart parsing to read the text fields
+const formField = (body, name) => {
+  const match = body.toString('latin1').match(new RegExp(`name="${name}"\\r\\n\\r\\n([^\\r]*)`));
+  return match ? match[1] : undefined;
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method !== 'POST' || !req.url.endsWith('/audio/transcriptions')) {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  const body = await readBody(req);
+  const language = formField(body, 'language') || 'en';
+  const duration = Math.max(0, (body.length - 44) / BYTES_PER_SECOND);
+  const canned = phrases[language] ?? phrases.en;
+
+  const count = Math.max(1, Math.round(duration / SECONDS_PER_PHRASE));
+  const segments = Array.from({ length: count }, (_, i) => ({
+    start: (duration * i) / count,
+    end: (duration * (i + 1)) / count,
+    text: canned[i % canned.length],
+    avg_logprob: -0.2 - Math.random() * 0.5,
+  }));
+  send(res, 200, { language, duration, text: segments.map((s) => s.text).join(' '), segments });
+});
+
+server.listen(port, () => {
+  console.log(`Mock transcription server listening on http://localhost:${server.address().port}`);
+});
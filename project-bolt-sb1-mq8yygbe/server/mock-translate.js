@@ -0,0 +1,57 @@
+// Minimal LibreTranslate-compatible server for local testing.
+// Usage: node server/mock-translate.js [port]
+// Set MOCK_RATE_LIMIT_EVERY=n to answer every n-th request with HTTP 429.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 5000);
+const rateLimitEvery = Number(process.env.MOCK_RATE_LIMIT_EVERY || 0);
+let requestCount = 0;
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(JSON.stringify(payload));
+};
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method !== 'POST' || (req.url !== '/translate' && req.url !== '/detect')) {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  requestCount++;
+  if (rateLimitEvery && requestCount % rateLimitEvery === 0) {
+    return send(res, 429, { error: 'Too many requests' });
+  }
+
+  try {
+    const { q, source, target } = await readJson(req);
+    if (typeof q !== 'string') return send(res, 400, { error: 'Missing q' });
+    if (req.url === '/detect') {
+      // Only tells Thai from everything else, which is enough to exercise auto-detection
+      const language = /[\u0E00-\u0E7F]/.test(q) ? 'th' : 'en';
+      return send(res, 200, [{ language, confidence: 90 }]);
+    }
+    send(res, 200, { translatedText: `[${source}->${target}] ${q}` });
+  } catch {
+    send(res, 400, { error: 'Invalid JSON' });
+  }
+}).listen(port, () => {
+  console.log(`Mock translation server listening on http://localhost:${port}`);
+});
@@ -1,263 +1,686 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Mic, MicOff, Copy, RotateCcw, Languages, Send, Volume2 } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Mic, MicOff, Copy, RotateCcw, Languages, Volume2, Settings, Send, History, Plus, BookOpen, BookA, MessageSquareText, Pause, Play, Radio, Users, UserRound, FileAudio, BarChart3 } from 'lucide-react';
+import AccountPanel from './components/AccountPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import AudioFilePanel from './components/AudioFilePanel';
+import BackTranslationCheck from './components/BackTranslationCheck';
+import BroadcastPanel from './components/BroadcastPanel';
+import ConnectionStatus from './components/ConnectionStatus';
+import ConversationTimeline from './components/ConversationTimeline';
+import GlossaryPanel from './components/GlossaryPanel';
+import LanguageDetectionControls, { DetectionMode } from './components/LanguageDetectionControls';
+import LanguageSelect from './components/LanguageSelect';
+import PushToTalkButton from './components/PushToTalkButton';
+import QuickReplyLibraryPanel from './components/QuickReplyLibraryPanel';
+import RecordingStatus from './components/RecordingStatus';
+import RedactedText from './components/RedactedText';
+import RedactionSettingsPanel from './components/RedactionSettingsPanel';
+import ReplyComposer from './components/ReplyComposer';
+import RoomHostPanel from './components/RoomHostPanel';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import SessionList from './components/SessionList';
+import SpeechOutputSettingsPanel from './components/SpeechOutputSettingsPanel';
+import SpeechPlaybackControls from './components/SpeechPlaybackControls';
+import SpeechSettingsPanel from './components/SpeechSettingsPanel';
+import SpokenText from './components/SpokenText';
+import TranscriptSegmentList from './components/TranscriptSegmentList';
+import TranscriptToolbar from './components/TranscriptToolbar';
+import TranslationMemoryPanel from './components/TranslationMemoryPanel';
+import { setMetricsSession } from './analytics/store';
+import { EmbedConfig } from './embed/protocol';
+import { useEmbedBridge } from './embed/useEmbedBridge';
+import { downloadSession, ExportFormat, parseSessionJson } from './conversation/transcriptFormats';
+import { Speaker, Turn } from './conversation/types';
+import { NewTurn, useSession } from './conversation/useSession';
+import { useInstallPrompt } from './offline/useInstallPrompt';
+import { useOnlineStatus } from './offline/useOnlineStatus';
+import { useQueuedRetry } from './offline/useQueuedRetry';
+import { InvalidRuleError, masksExports, maskSession, maskText } from './privacy/redaction';
+import { loadRedactionSettings, RedactionSettings, saveRedactionSettings } from './privacy/settings';
+import { loadProviderSettings, ProviderSettings, saveProviderSettings } from './translation/settings';
+import { createProviders, createTranslator } from './translation/translator';
+import { listQuickReplies } from './quickReplies/store';
+import { DEFAULT_RELAY_URL, MAX_CAPTION_SEGMENTS, RoomReply, roomLink, toCaptionSegment } from './room/types';
+import { useHostRoom } from './room/useHostRoom';
+import { QuickReply } from './quickReplies/types';
+import { detectLanguage } from './translation/detection';
+import { saveMemoryEntry } from './translation/memory';
+import { LOW_SIMILARITY } from './translation/backTranslation';
+import { joinSegments, splitSentences } from './translation/segmentation';
+import { useBackTranslation } from './translation/useBackTranslation';
+import { useBroadcastTranslation } from './translation/useBroadcastTranslation';
+import { TakenSegment, useIncrementalTranslation } from './translation/useIncrementalTranslation';
+import { DetectedLanguage, isAbortError, isConnectionError, ProviderId, translationSourceNames } from './translation/types';
+import {
+  findLanguage,
+  languages,
+  loadLocalePreferences,
+  LocalePreferences,
+  preferredLocale,
+  saveLocalePreferences,
+  scriptFontClass,
+  textProps,
+  usesWordSpacing,
+} from './languages';
+import { languagePairGaps } from './speech/capabilities';
+import { useFileTranscription } from './speech/useFileTranscription';
+import { loadSpeechSettings, saveSpeechSettings, SpeechSettings } from './speech/settings';
+import { loadSynthesisSettings, saveSynthesisSettings, SynthesisSettings } from './speech/synthesisSettings';
+import { useSpeechRecognition } from './speech/useSpeechRecognition';
+import { useSpeechSynthesis } from './speech/useSpeechSynthesis';
+import { useAccount } from './sync/useAccount';
 
-interface SpeechRecognitionEvent extends Event {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
+const REPLY_DEBOUNCE_MS = 500;
+// Recognized text needed before its language is checked, and how sure detection must be to act on it
+const MIN_DETECTION_SAMPLE_LENGTH = 12;
+const MIN_DETECTION_CONFIDENCE = 0.6;
 
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
+interface TurnOptions {
+  // Detect the spoken language of the turn
+  detect?: boolean;
+  // The live segments the turn was recognized in, so only the untranslated ones are sent again
+  segments?: TakenSegment[];
+  // Read the translation aloud once it is ready
+  speak?: boolean;
 }
 
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  addEventListener(type: 'result', listener: (event: SpeechRecognitionEvent) => void): void;
-  addEventListener(type: 'error', listener: (event: SpeechRecognitionErrorEvent) => void): void;
-  addEventListener(type: 'end', listener: () => void): void;
-}
 
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognition;
-    webkitSpeechRecognition: new () => SpeechRecognition;
-  }
+interface AppProps {
+  // Set when the app runs inside another page's iframe
+  embed?: EmbedConfig | null;
 }
 
-const languages = [
-  { code: 'en', name: 'English' },
-  { code: 'th', name: 'Thai' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'it', name: 'Italian' },
-  { code: 'pt', name: 'Portuguese' },
-  { code: 'ru', name: 'Russian' },
-  { code: 'ja', name: 'Japanese' },
-  { code: 'ko', name: 'Korean' },
-  { code: 'zh', name: 'Chinese' },
-  { code: 'ar', name: 'Arabic' },
-  { code: 'hi', name: 'Hindi' },
-  { code: 'vi', name: 'Vietnamese' },
-  { code: 'nl', name: 'Dutch' },
-  { code: 'sv', name: 'Swedish' },
-  { code: 'da', name: 'Danish' },
-  { code: 'no', name: 'Norwegian' },
-  { code: 'fi', name: 'Finnish' },
-  { code: 'pl', name: 'Polish' },
-  { code: 'tr', name: 'Turkish' },
-];
-
-const speechLanguageCodes = {
-  'en': 'en-US',
-  'th': 'th-TH',
-  'es': 'es-ES',
-  'fr': 'fr-FR',
-  'de': 'de-DE',
-  'it': 'it-IT',
-  'pt': 'pt-PT',
-  'ru': 'ru-RU',
-  'ja': 'ja-JP',
-  'ko': 'ko-KR',
-  'zh': 'zh-CN',
-  'ar': 'ar-SA',
-  'hi': 'hi-IN',
-  'vi': 'vi-VN',
-  'nl': 'nl-NL',
-  'sv': 'sv-SE',
-  'da': 'da-DK',
-  'no': 'no-NO',
-  'fi': 'fi-FI',
-  'pl': 'pl-PL',
-  'tr': 'tr-TR',
-};
-
-function App() {
-  const [isRecording, setIsRecording] = useState(false);
-  const [originalText, setOriginalText] = useState('');
-  const [translatedText, setTranslatedText] = useState('');
+function App({ embed = null }: AppProps) {
   const [agentReply, setAgentReply] = useState('');
   const [agentReplyTranslated, setAgentReplyTranslated] = useState('');
-  const [inputLanguage, setInputLanguage] = useState('th');
-  const [outputLanguage, setOutputLanguage] = useState('en');
-  const [isTranslating, setIsTranslating] = useState(false);
+  const [agentReplyTranslatedFrom, setAgentReplyTranslatedFrom] = useState('');
+  const [inputLanguage, setInputLanguage] = useState(embed?.inputLanguage ?? 'th');
+  const [outputLanguage, setOutputLanguage] = useState(embed?.outputLanguage ?? 'en');
+  // Regional variant used for speech in each language
+  const [localePreferences, setLocalePreferences] = useState<LocalePreferences>(loadLocalePreferences);
+  const inputLocale = preferredLocale(inputLanguage, localePreferences);
+  const outputLocale = preferredLocale(outputLanguage, localePreferences);
   const [isTranslatingReply, setIsTranslatingReply] = useState(false);
   const [error, setError] = useState('');
-  const [interimText, setInterimText] = useState('');
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [synthesisSettings, setSynthesisSettings] = useState<SynthesisSettings>(loadSynthesisSettings);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+  const [isRetranslating, setIsRetranslating] = useState(false);
+  const [twoWayMode, setTwoWayMode] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showQuickReplies, setShowQuickReplies] = useState(false);
+  const [quickReplies, setQuickReplies] = useState<QuickReply[]>([]);
+  const [detectionMode, setDetectionMode] = useState<DetectionMode>('off');
+  const [languageSuggestion, setLanguageSuggestion] = useState<DetectedLanguage | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  // A human translation that came with an inserted quick reply, valid while the reply is unedited
+  const [approvedReply, setApprovedReply] = useState<{ source: string; language: string; translation: string } | null>(null);
+  const [memoryVersion, setMemoryVersion] = useState(0);
+  const [showBroadcast, setShowBroadcast] = useState(false);
+  const [showAudioFile, setShowAudioFile] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [broadcastLanguages, setBroadcastLanguages] = useState<string[]>([]);
+  const [showRoom, setShowRoom] = useState(false);
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  // A provider picked for the current reply after its round-trip check came out low
+  const [replyProvider, setReplyProvider] = useState<ProviderId | null>(null);
   
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const wasRecordingRef = useRef<Record<Speaker, boolean>>({ customer: false, agent: false });
+  // Whether the current customer draft has already been checked for its language
+  const sampleCheckedRef = useRef(false);
+  // The session whose language pair was last restored
+  const restoredSessionRef = useRef<string | null>(null);
 
-  useEffect(() => {
-    if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) {
-      const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-      recognitionRef.current = new SpeechRecognitionAPI();
-      
-      if (recognitionRef.current) {
-        recognitionRef.current.continuous = true;
-        recognitionRef.current.interimResults = true;
-        recognitionRef.current.lang = speechLanguageCodes[inputLanguage as keyof typeof speechLanguageCodes] || 'th-TH';
-
-        recognitionRef.current.addEventListener('result', (event: SpeechRecognitionEvent) => {
-          let finalTranscript = '';
-          let interimTranscript = '';
-
-          for (let i = event.resultIndex; i < event.results.length; i++) {
-            const transcript = event.results[i][0].transcript;
-            if (event.results[i].isFinal) {
-              finalTranscript += transcript;
-            } else {
-              interimTranscript += transcript;
-            }
-          }
+  const {
+    session,
+    sessions,
+    storageError,
+    addTurn,
+    updateTurn,
+    deleteTurn,
+    renameSession,
+    setSessionLanguages,
+    newSession,
+    importSession,
+    openSession,
+    deleteSession,
+    reloadSessions,
+    switchOwner,
+  } = useSession(inputLanguage, outputLanguage, { startFresh: embed !== null });
+
+  const isOnline = useOnlineStatus();
+  const installPrompt = useInstallPrompt();
 
-          if (finalTranscript) {
-            setOriginalText(prev => prev + finalTranscript);
-            setInterimText('');
-          } else {
-            setInterimText(interimTranscript);
+  const account = useAccount({
+    onSynced: (pulledSessionIds) => {
+      reloadSessions().catch((err) => console.error('Failed to load sessions:', err));
+      // The open session changed on another device, so show that version
+      if (session && pulledSessionIds.includes(session.id)) {
+        openSession(session.id).catch((err) => console.error('Session error:', err));
+      }
+    },
+    onAgentChanged: () => {
+      switchOwner().catch((err) => console.error('Failed to load sessions:', err));
+    },
+  });
+
+  // An embedding page can ask for its provider to be tried first, without changing the saved settings
+  const embedProvider = embed?.provider;
+  const translatorSettings = useMemo(
+    () =>
+      embedProvider
+        ? {
+            ...providerSettings,
+            order: [embedProvider, ...providerSettings.order.filter(id => id !== embedProvider)],
+            enabled: { ...providerSettings.enabled, [embedProvider]: true },
           }
-        });
+        : providerSettings,
+    [embedProvider, providerSettings]
+  );
+  const providers = useMemo(() => createProviders(translatorSettings), [translatorSettings]);
+  const translator = useMemo(
+    () => createTranslator(providers, redactionSettings, localePreferences),
+    [providers, redactionSettings, localePreferences]
+  );
+  // Built from the same providers, so replies count against the same rate limits
+  const replyTranslator = useMemo(
+    () =>
+      replyProvider
+        ? createTranslator(providers.filter(p => p.id === replyProvider), redactionSettings, localePreferences)
+        : translator,
+    [replyProvider, providers, redactionSettings, localePreferences, translator]
+  );
+  const enabledProviders = translatorSettings.order.filter(id => translatorSettings.enabled[id]);
 
-        recognitionRef.current.addEventListener('error', (event: SpeechRecognitionErrorEvent) => {
-          setError(`Speech recognition error: ${event.error}`);
-          setIsRecording(false);
-        });
+  const transcript = useIncrementalTranslation({
+    translator,
+    from: inputLanguage,
+    to: outputLanguage,
+    onError: (err) => {
+      setError(err instanceof InvalidRuleError ? err.message : 'Translation failed. Please try again.');
+      console.error('Translation error:', err);
+    },
+  });
 
-        recognitionRef.current.addEventListener('end', () => {
-          setIsRecording(false);
-          setInterimText('');
-        });
-      }
-    } else {
-      setError('Speech recognition is not supported in this browser.');
-    }
+  const originalText = joinSegments(transcript.segments.map(s => s.text), inputLanguage);
+  const translatedText = joinSegments(transcript.segments.map(s => s.translation), outputLanguage);
+  const isTranslating = transcript.segments.some(s => s.status === 'pending' || s.status === 'translating');
+  const translationProvider = [...transcript.segments].reverse().find(s => s.provider)?.provider;
 
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-    };
-  }, [inputLanguage]);
+  const fileTranscription = useFileTranscription({
+    translator,
+    settings: speechSettings,
+    from: inputLanguage,
+    locale: inputLocale,
+    to: outputLanguage,
+    onError: setError,
+  });
+
+  const hostRoom = useHostRoom({
+    relayUrl,
+    onReply: (reply) => receiveRoomReply(reply),
+    onError: setError,
+  });
+  const isSharing = hostRoom.status === 'open';
+
+  // Broadcast mode translates the same speech into every language the listeners picked. Viewers
+  // of a shared room are listeners too, whether or not the broadcast panes are shown. Codes outside
+  // the language list are dropped, so a viewer cannot spend the provider quota on made-up targets.
+  const panelTargets = broadcastLanguages.filter(l => l !== inputLanguage);
+  const broadcastTargets = [
+    ...new Set([...(showBroadcast ? panelTargets : []), ...(isSharing ? hostRoom.viewers.map(v => v.language) : [])]),
+  ].filter(l => findLanguage(l) && l !== inputLanguage);
+  const broadcast = useBroadcastTranslation({
+    translator,
+    from: inputLanguage,
+    targets: broadcastTargets,
+    onError: (err) => console.error('Broadcast translation error:', err),
+  });
+  const queuedCount =
+    transcript.segments.filter(s => s.status === 'queued').length +
+    (session?.turns.filter(t => t.status === 'queued').length ?? 0) +
+    broadcast.segments.flatMap(s => broadcastTargets.map(l => s.translations[l])).filter(t => t?.status === 'queued').length;
+
+  const tts = useSpeechSynthesis({ settings: synthesisSettings, onError: setError });
+  const isSpeaking = tts.isSpeaking;
+
+  const customerMic = useSpeechRecognition({
+    language: inputLocale,
+    speaker: 'customer',
+    settings: speechSettings,
+    onFinalResult: (result) => {
+      transcript.appendText(result.transcript, result);
+      if (broadcastTargets.length > 0 || isSharing) broadcast.appendText(result.transcript);
+    },
+    onError: setError,
+    // A pause in a long call finishes the turn but keeps listening; push-to-talk just lets go
+    onSilence: () => (twoWayMode ? customerMic.stop() : commitCustomerTurn()),
+    silenceTimeoutMs: speechSettings.silenceTimeoutSeconds * 1000,
+    muted: isSpeaking,
+  });
+
+  // Only used in two-way mode, where the agent speaks their reply in the output language
+  const agentMic = useSpeechRecognition({
+    language: outputLocale,
+    speaker: 'agent',
+    settings: speechSettings,
+    onFinalResult: ({ transcript }) => setAgentReply(prev => (prev ? `${prev} ${transcript.trim()}` : transcript.trim())),
+    onError: setError,
+    onSilence: () => agentMic.stop(),
+    silenceTimeoutMs: speechSettings.silenceTimeoutSeconds * 1000,
+    muted: isSpeaking,
+  });
+
+  const isRecording = customerMic.isRecording;
+  const interimText = customerMic.interimText;
 
   useEffect(() => {
-    if (recognitionRef.current) {
-      recognitionRef.current.lang = speechLanguageCodes[inputLanguage as keyof typeof speechLanguageCodes] || 'th-TH';
+    if (!customerMic.isSupported) {
+      setError('Speech recognition is not available. Choose a speech server under Settings.');
     }
-  }, [inputLanguage]);
+  }, [customerMic.isSupported]);
+
+  const updateProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const updateSpeechSettings = (settings: SpeechSettings) => {
+    setSpeechSettings(settings);
+    saveSpeechSettings(settings);
+  };
+
+  const updateRedactionSettings = (settings: RedactionSettings) => {
+    setRedactionSettings(settings);
+    saveRedactionSettings(settings);
+  };
+
   const startRecording = () => {
-    if (recognitionRef.current && !isRecording) {
+    if (!isRecording) {
       setError('');
-      setIsRecording(true);
-      recognitionRef.current.start();
+      customerMic.start();
     }
   };
 
   const stopRecording = () => {
-    if (recognitionRef.current && isRecording) {
-      recognitionRef.current.stop();
+    if (isRecording) {
+      customerMic.stop();
+    }
+  };
+
+  // Half-duplex: only one microphone listens at a time, and never while speech is playing
+  const startTalking = (speaker: Speaker) => {
+    tts.stop();
+    setError('');
+    if (speaker === 'customer') {
+      agentMic.stop();
+      customerMic.start();
+    } else {
+      customerMic.stop();
+      agentMic.start();
+    }
+  };
+
+  // Whole turns can be longer than a provider accepts, so they are translated sentence by sentence
+  // like live speech is. Pieces that already have a translation are kept.
+  const translateInPieces = async (
+    turn: Pick<Turn, 'sourceText' | 'sourceLanguage'>,
+    to: string,
+    pieces: TakenSegment[] = splitSentences(turn.sourceText, turn.sourceLanguage).map((text) => ({ text }))
+  ) => {
+    const results = await Promise.all(
+      pieces.map((piece) =>
+        piece.translation
+          ? { text: piece.translation, provider: piece.provider }
+          : piece.pending ?? translator.translate({ text: piece.text, from: turn.sourceLanguage, to })
+      )
+    );
+    return {
+      text: joinSegments(results.map((r) => r.text), to),
+      provider: results.find((r) => r.provider)?.provider,
+    };
+  };
+
+  // Adds a turn and resolves with its translation once available. With speak, or auto-speak
+  // turned on, the translation is also queued to be read aloud.
+  const commitTurn = async (turn: Omit<NewTurn, 'status'>, options: TurnOptions = {}): Promise<string | null> => {
+    const id = addTurn({ ...turn, status: turn.translatedText ? 'translated' : 'translating' });
+    if (options.detect) {
+      detectLanguage(turn.sourceText, translator)
+        .then((detected) => detected && updateTurn(id, { detectedLanguage: detected }))
+        .catch((err) => console.error('Language detection error:', err));
+    }
+
+    let translation = turn.translatedText;
+    if (!translation) {
+      try {
+        const result = await translateInPieces(turn, turn.targetLanguage, options.segments);
+        updateTurn(id, { translatedText: result.text, provider: result.provider, status: 'translated' });
+        translation = result.text;
+      } catch (err) {
+        updateTurn(id, { status: isConnectionError(err) ? 'queued' : 'failed' });
+        console.error('Translation error:', err);
+        return null;
+      }
+    }
+
+    if (options.speak || synthesisSettings.autoSpeak) {
+      speakText(id, translation, turn.targetLanguage);
+    }
+    return translation;
+  };
+
+  const commitCustomerTurn = async (options: TurnOptions = {}) => {
+    if (!originalText.trim()) return null;
+    const pending = commitTurn({
+      speaker: 'customer',
+      sourceText: originalText.trim(),
+      // Only reuse the live translation when every segment has one
+      translatedText: transcript.segments.every(s => s.status === 'translated') ? translatedText : '',
+      sourceLanguage: inputLanguage,
+      targetLanguage: outputLanguage,
+      spokenAt: customerMic.takeSpokenRange() ?? undefined,
+    }, {
+      ...options,
+      detect: detectionMode !== 'off',
+      // Segments still translating are handed over rather than sent again
+      segments: transcript.takeSegments(),
+    });
+    sampleCheckedRef.current = false;
+    return pending;
+  };
+
+  const sendAgentReply = async (options: TurnOptions = {}) => {
+    if (!agentReply.trim()) return null;
+    const pending = commitTurn({
+      speaker: 'agent',
+      sourceText: agentReply.trim(),
+      translatedText: agentReplyTranslatedFrom === agentReply ? agentReplyTranslated : '',
+      sourceLanguage: outputLanguage,
+      targetLanguage: inputLanguage,
+      spokenAt: agentMic.takeSpokenRange() ?? undefined,
+    }, options);
+    setAgentReply('');
+    setReplyProvider(null);
+    return pending;
+  };
+
+  // Replies typed by room viewers join the conversation as agent turns in the speaker's language
+  const receiveRoomReply = (reply: RoomReply) => {
+    commitTurn({
+      speaker: 'agent',
+      author: reply.name,
+      sourceText: reply.text,
+      translatedText: '',
+      sourceLanguage: reply.language || inputLanguage,
+      targetLanguage: inputLanguage,
+    });
+  };
+
+  const startNewSession = () => {
+    clearText();
+    newSession(inputLanguage, outputLanguage);
+  };
+
+  const switchSession = async (id: string) => {
+    try {
+      const opened = await openSession(id);
+      if (opened) {
+        clearText();
+        setShowSessions(false);
+      }
+    } catch (err) {
+      setError('Failed to open session. Please try again.');
+      console.error('Session error:', err);
+    }
+  };
+
+  const exportTranscript = (format: ExportFormat) => {
+    if (session) {
+      downloadSession(masksExports(redactionSettings) ? maskSession(session, redactionSettings) : session, format);
+    }
+  };
+
+  const importTranscript = async (file: File) => {
+    try {
+      importSession(parseSessionJson(await file.text()));
+      clearText();
+    } catch (err) {
+      setError('Import failed. Please choose a JSON file exported from this app.');
+      console.error('Import error:', err);
+    }
+  };
+
+  // Translates every turn again into the currently selected language pair
+  const retranslateSession = async () => {
+    if (!session) return;
+    setIsRetranslating(true);
+    setError('');
+
+    const pending = session.turns
+      .map((turn) => ({ turn, target: turn.speaker === 'customer' ? outputLanguage : inputLanguage }))
+      .filter(({ turn, target }) => turn.sourceLanguage !== target);
+    for (const { turn, target } of pending) {
+      updateTurn(turn.id, { targetLanguage: target, status: 'translating' });
+    }
+
+    await Promise.all(
+      pending.map(async ({ turn, target }) => {
+        try {
+          const result = await translateInPieces(turn, target);
+          updateTurn(turn.id, { translatedText: result.text, provider: result.provider, status: 'translated' });
+        } catch (err) {
+          updateTurn(turn.id, { status: isConnectionError(err) ? 'queued' : 'failed' });
+          console.error('Translation error:', err);
+        }
+      })
+    );
+    setIsRetranslating(false);
+  };
+
+  const translateTurnInBackground = (turn: Pick<Turn, 'id' | 'sourceText' | 'sourceLanguage' | 'targetLanguage'>) => {
+    updateTurn(turn.id, { status: 'translating' });
+    translateInPieces(turn, turn.targetLanguage)
+      .then((result) => updateTurn(turn.id, { translatedText: result.text, provider: result.provider, status: 'translated' }))
+      .catch((err) => {
+        updateTurn(turn.id, { status: isConnectionError(err) ? 'queued' : 'failed' });
+        console.error('Translation error:', err);
+      });
+  };
+
+  // Turns that could not be translated for lack of a connection are tried again
+  const translateQueuedTurns = () => {
+    for (const turn of session?.turns ?? []) {
+      if (turn.status === 'queued') translateTurnInBackground(turn);
+    }
+  };
+
+  // A transcribed recording joins the conversation as customer turns, timed as if spoken just now
+  const addRecordingToConversation = () => {
+    const base = Date.now();
+    for (const segment of fileTranscription.segments) {
+      const isTranslated = segment.status === 'translated';
+      const turn = {
+        speaker: 'customer' as const,
+        sourceText: segment.text,
+        translatedText: isTranslated ? segment.translation : '',
+        status: isTranslated ? ('translated' as const) : ('translating' as const),
+        provider: isTranslated ? segment.provider : undefined,
+        sourceLanguage: inputLanguage,
+        targetLanguage: outputLanguage,
+        spokenAt: { start: base + segment.start * 1000, end: base + segment.end * 1000 },
+      };
+      const id = addTurn(turn);
+      if (!isTranslated) translateTurnInBackground({ ...turn, id });
+    }
+  };
+
+  // A corrected translation is remembered and reused for the same source text from now on
+  const correctTurn = async (turn: Turn, translation: string) => {
+    updateTurn(turn.id, { translatedText: translation, provider: 'memory', status: 'translated' });
+    try {
+      await saveMemoryEntry(
+        turn.sourceLanguage,
+        turn.targetLanguage,
+        turn.sourceText,
+        translation,
+        preferredLocale(turn.targetLanguage, localePreferences)
+      );
+      setMemoryVersion(v => v + 1);
+    } catch (err) {
+      setError('Failed to save the correction to translation memory.');
+      console.error('Translation memory error:', err);
     }
   };
 
   const clearText = () => {
-    setOriginalText('');
-    setTranslatedText('');
+    transcript.reset();
+    broadcast.reset();
     setAgentReply('');
     setAgentReplyTranslated('');
-    setInterimText('');
     setError('');
+    customerMic.takeSpokenRange();
+    agentMic.takeSpokenRange();
   };
 
-  const translateText = async () => {
-    if (!originalText.trim()) return;
-    
-    setIsTranslating(true);
-    setError('');
-    
+  // The draft was recognized with the wrong locale, so it is dropped rather than kept
+  const { reset: resetTranscript } = transcript;
+  const switchInputLanguage = useCallback((language: string) => {
+    resetTranscript();
+    sampleCheckedRef.current = false;
+    setLanguageSuggestion(null);
+    setInputLanguage(language);
+  }, [resetTranscript]);
+
+  const handleDetection = useCallback((detected: DetectedLanguage | null) => {
+    if (!detected || detected.language === inputLanguage || detected.confidence < MIN_DETECTION_CONFIDENCE) {
+      return;
+    }
+    if (detectionMode === 'switch') {
+      switchInputLanguage(detected.language);
+    } else {
+      setLanguageSuggestion(detected);
+    }
+  }, [inputLanguage, detectionMode, switchInputLanguage]);
+
+  const detectSample = async (text: string) => {
+    setIsDetecting(true);
     try {
-      // Using MyMemory Translation API (free, no API key required)
-      const response = await fetch(
-        `https://api.mymemory.translated.net/get?q=${encodeURIComponent(originalText)}&langpair=${inputLanguage}|${outputLanguage}`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Translation service unavailable');
-      }
-      
-      const data = await response.json();
-      
-      if (data.responseStatus === 200) {
-        setTranslatedText(data.responseData.translatedText);
-      } else {
-        throw new Error('Translation failed');
+      const detected = await detectLanguage(text, translator);
+      if (!detected) {
+        setError('Could not detect the language of that sample.');
+      } else if (detected.language === inputLanguage) {
+        setLanguageSuggestion(null);
       }
+      handleDetection(detected);
     } catch (err) {
-      setError('Translation failed. Please try again.');
-      console.error('Translation error:', err);
+      setError(err instanceof InvalidRuleError ? err.message : 'Language detection failed. Please try again.');
+      console.error('Language detection error:', err);
     } finally {
-      setIsTranslating(false);
+      setIsDetecting(false);
     }
   };
 
-  const translateAgentReply = async () => {
-    if (!agentReply.trim()) return;
-    
+  const loadQuickReplies = useCallback(async () => {
+    try {
+      setQuickReplies(await listQuickReplies());
+    } catch (err) {
+      console.error('Failed to load quick replies:', err);
+    }
+  }, []);
+
+  const insertQuickReply = (text: string, approvedTranslation?: string) => {
+    setAgentReply(text);
+    setApprovedReply(approvedTranslation ? { source: text, language: inputLanguage, translation: approvedTranslation } : null);
+  };
+
+  // Replies from an embedding page either wait in the reply box for the agent or go out as they are
+  const insertEmbedReply = (text: string, send: boolean) => {
+    if (!send) {
+      insertQuickReply(text);
+      return;
+    }
+    if (!text.trim()) return;
+    commitTurn({
+      speaker: 'agent',
+      sourceText: text.trim(),
+      translatedText: '',
+      sourceLanguage: outputLanguage,
+      targetLanguage: inputLanguage,
+    });
+  };
+
+  useEmbedBridge({
+    config: embed,
+    session,
+    isRecording,
+    redaction: redactionSettings,
+    startRecording,
+    stopRecording,
+    insertReply: insertEmbedReply,
+    clear: clearText,
+  });
+
+  const usesApprovedReply =
+    approvedReply !== null && approvedReply.source === agentReply && approvedReply.language === inputLanguage;
+
+  // Approved human translations are trusted; machine translations are checked by translating them back
+  const backTranslation = useBackTranslation({
+    translator: replyTranslator,
+    original: agentReply,
+    translation: !usesApprovedReply && agentReplyTranslatedFrom === agentReply ? agentReplyTranslated : '',
+    language: inputLanguage,
+    originalLanguage: outputLanguage,
+  });
+  const replyIsFlagged = backTranslation.comparison !== null && backTranslation.comparison.score < LOW_SIMILARITY;
+
+  const translateAgentReply = async (text: string, signal: AbortSignal) => {
     setIsTranslatingReply(true);
     setError('');
     
     try {
       // Translate from output language back to input language
-      const response = await fetch(
-        `https://api.mymemory.translated.net/get?q=${encodeURIComponent(agentReply)}&langpair=${outputLanguage}|${inputLanguage}`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Translation service unavailable');
-      }
-      
-      const data = await response.json();
-      
-      if (data.responseStatus === 200) {
-        setAgentReplyTranslated(data.responseData.translatedText);
-      } else {
-        throw new Error('Translation failed');
-      }
+      const result = await replyTranslator.translate({ text, from: outputLanguage, to: inputLanguage, signal });
+      setAgentReplyTranslated(result.text);
+      setAgentReplyTranslatedFrom(text);
     } catch (err) {
-      setError('Agent reply translation failed. Please try again.');
+      if (isAbortError(err)) return;
+      setError(
+        err instanceof InvalidRuleError
+          ? err.message
+          : isConnectionError(err)
+          ? 'The connection dropped. Sent replies are translated once it is back.'
+          : 'Agent reply translation failed. Please try again.'
+      );
       console.error('Translation error:', err);
     } finally {
       setIsTranslatingReply(false);
     }
   };
 
-  const speakText = (text: string, language: string) => {
-    if ('speechSynthesis' in window) {
-      // Stop any ongoing speech
-      window.speechSynthesis.cancel();
-      
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = speechLanguageCodes[language as keyof typeof speechLanguageCodes] || 'en-US';
-      utterance.rate = 0.9;
-      utterance.pitch = 1;
-      
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = () => {
-        setIsSpeaking(false);
-        setError('Text-to-speech failed. Please try again.');
-      };
-      
-      window.speechSynthesis.speak(utterance);
-    } else {
-      setError('Text-to-speech is not supported in this browser.');
-    }
+  // The microphones are muted while anything is read aloud, so they do not pick it up
+  const speakText = (key: string, text: string, language: string) => {
+    tts.enqueue({ key, text, language, locale: preferredLocale(language, localePreferences) });
+  };
+
+  const chooseLocale = (code: string, locale: string) => {
+    const preferences = { ...localePreferences, [code]: locale };
+    setLocalePreferences(preferences);
+    saveLocalePreferences(preferences);
   };
+
+  const pairGaps = languagePairGaps(inputLanguage, outputLanguage, tts.voices);
+
+  const updateSynthesisSettings = (settings: SynthesisSettings) => {
+    setSynthesisSettings(settings);
+    saveSynthesisSettings(settings);
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -266,26 +689,194 @@ function App() {
     }
   };
 
+  // Read by the effects below, which should only run when a recording stops
+  const stopHandlersRef = useRef({ commitCustomerTurn, sendAgentReply, twoWayMode });
+  stopHandlersRef.current = { commitCustomerTurn, sendAgentReply, twoWayMode };
+
+  // A finished recording becomes one customer turn; in two-way mode it is also read out to the agent
   useEffect(() => {
-    if (originalText.trim()) {
-      translateText();
+    if (wasRecordingRef.current.customer && !customerMic.isRecording) {
+      const { commitCustomerTurn, twoWayMode } = stopHandlersRef.current;
+      commitCustomerTurn({ speak: twoWayMode });
     }
-  }, [originalText, inputLanguage, outputLanguage]);
+    wasRecordingRef.current.customer = customerMic.isRecording;
+  }, [customerMic.isRecording]);
 
   useEffect(() => {
-    if (agentReply.trim()) {
-      translateAgentReply();
-    } else {
+    if (wasRecordingRef.current.agent && !agentMic.isRecording) {
+      stopHandlersRef.current.sendAgentReply({ speak: true });
+    }
+    wasRecordingRef.current.agent = agentMic.isRecording;
+  }, [agentMic.isRecording]);
+
+  // Restore the language pair a session was recorded with when it is opened
+  useEffect(() => {
+    if (session && session.id !== restoredSessionRef.current) {
+      restoredSessionRef.current = session.id;
+      setInputLanguage(session.inputLanguage);
+      setOutputLanguage(session.outputLanguage);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    setMetricsSession(session?.id ?? null);
+  }, [session?.id]);
+
+  useQueuedRetry({
+    queued: session?.turns.filter((t) => t.status === 'queued').length ?? 0,
+    translated: session?.turns.filter((t) => t.status === 'translated').length ?? 0,
+    retry: translateQueuedTurns,
+  });
+
+  useEffect(() => {
+    setSessionLanguages(inputLanguage, outputLanguage);
+  }, [inputLanguage, outputLanguage, setSessionLanguages]);
+
+  // Read by the effect below, which reruns when the reply, the language pair or the translator changes
+  const translateAgentReplyRef = useRef(translateAgentReply);
+  translateAgentReplyRef.current = translateAgentReply;
+
+  useEffect(() => {
+    if (!agentReply.trim()) {
       setAgentReplyTranslated('');
+      return;
     }
-  }, [agentReply, inputLanguage, outputLanguage]);
+    if (usesApprovedReply) {
+      setAgentReplyTranslated(approvedReply.translation);
+      setAgentReplyTranslatedFrom(agentReply);
+      return;
+    }
+
+    // Wait for a pause in typing, and drop the request if the reply changes again
+    const controller = new AbortController();
+    const timer = window.setTimeout(
+      () => translateAgentReplyRef.current(agentReply, controller.signal),
+      REPLY_DEBOUNCE_MS
+    );
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [agentReply, inputLanguage, outputLanguage, replyTranslator, usesApprovedReply, approvedReply]);
+
+  useEffect(() => {
+    loadQuickReplies();
+  }, [loadQuickReplies]);
+
+  const { publish } = hostRoom;
+  useEffect(() => {
+    if (!isSharing) return;
+    // Captions go through the relay to anyone with the link, so personal data stays masked
+    const mask = (text: string) => (redactionSettings.enabled ? maskText(text, redactionSettings) : text);
+    publish({
+      type: 'captions',
+      sourceLanguage: inputLanguage,
+      segments: broadcast.segments.slice(-MAX_CAPTION_SEGMENTS).map((segment) => toCaptionSegment(segment, mask)),
+      interim: mask(interimText),
+    });
+  }, [isSharing, publish, inputLanguage, broadcast.segments, interimText, redactionSettings]);
+
+  // Check the first stretch of each recognized draft for a language mismatch
+  useEffect(() => {
+    if (detectionMode === 'off' || sampleCheckedRef.current || originalText.trim().length < MIN_DETECTION_SAMPLE_LENGTH) {
+      return;
+    }
+    sampleCheckedRef.current = true;
+    detectLanguage(originalText, translator)
+      .then(handleDetection)
+      .catch((err) => console.error('Language detection error:', err));
+  }, [originalText, detectionMode, translator, handleDetection]);
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-4">
+    <div
+      className={`min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-4 ${
+        embed?.theme === 'dark' ? 'theme-dark' : ''
+      }`}
+    >
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">Voice Transcription & Translation</h1>
-          <p className="text-gray-600">Speak naturally and see your words translated in real-time</p>
+        <div className={`text-center ${embed ? 'mb-4' : 'mb-8'}`}>
+          {!embed && (
+            <>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">Voice Transcription & Translation</h1>
+              <p className="text-gray-600">Speak naturally and see your words translated in real-time</p>
+            </>
+          )}
+          <ConnectionStatus
+            isOnline={isOnline}
+            queuedCount={queuedCount}
+            canInstall={installPrompt.canInstall}
+            onInstall={() => installPrompt.install().catch((err) => console.error('Install error:', err))}
+          />
+        </div>
+
+        {/* Session */}
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-4 mb-6 border border-white/20">
+          <div className="flex flex-col sm:flex-row items-center gap-3">
+            <label className="text-sm font-medium text-gray-700">Session:</label>
+            <input
+              value={session?.name ?? ''}
+              onChange={(e) => renameSession(e.target.value)}
+              disabled={!session}
+              className="flex-1 w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => setShowSessions(!showSessions)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                showSessions ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              Sessions
+            </button>
+            <button
+              onClick={startNewSession}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-indigo-500 hover:bg-indigo-600 text-white transition-all duration-200"
+            >
+              <Plus className="w-4 h-4" />
+              New Session
+            </button>
+            {account.isConfigured && (
+              <button
+                onClick={() => setShowAccount(!showAccount)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                  showAccount ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Agent account and sync"
+              >
+                <UserRound className="w-4 h-4" />
+                {account.user ? 'Account' : 'Sign in'}
+              </button>
+            )}
+          </div>
+          {showAccount && account.isConfigured && (
+            <div className="mt-4">
+              <AccountPanel
+                email={account.user?.email ?? null}
+                syncStatus={account.syncStatus}
+                lastSyncedAt={account.lastSyncedAt}
+                error={account.error}
+                notice={account.notice}
+                unowned={account.unowned}
+                onClaimUnowned={account.claimUnowned}
+                onDismissUnowned={account.dismissUnowned}
+                onSignIn={account.signIn}
+                onSignUp={account.signUp}
+                onSignOut={account.signOut}
+                onSync={account.syncNow}
+              />
+            </div>
+          )}
+          {showSessions && (
+            <div className="mt-4">
+              <SessionList
+                sessions={sessions}
+                currentId={session?.id}
+                onOpen={switchSession}
+                onDelete={deleteSession}
+              />
+            </div>
+          )}
+          {storageError && <p className="mt-3 text-sm text-amber-700">{storageError}</p>}
         </div>
 
         {/* Controls */}
@@ -296,39 +887,83 @@ function App() {
               <div className="flex items-center gap-3">
                 <Languages className="w-5 h-5 text-gray-600" />
                 <label className="text-sm font-medium text-gray-700">Input Language:</label>
-                <select
-                  value={inputLanguage}
-                  onChange={(e) => setInputLanguage(e.target.value)}
-                  className="px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[140px]"
-                >
-                  {languages.map((lang) => (
-                    <option key={lang.code} value={lang.code}>
-                      {lang.name}
-                    </option>
-                  ))}
-                </select>
+                <LanguageSelect
+                  label="Input language"
+                  code={inputLanguage}
+                  locale={inputLocale}
+                  preferences={localePreferences}
+                  onChange={(code, locale) => {
+                    // Only a different language drops the draft; a new regional variant keeps it
+                    if (code !== inputLanguage) switchInputLanguage(code);
+                    chooseLocale(code, locale);
+                    setLanguageSuggestion(null);
+                  }}
+                />
               </div>
               
               <div className="text-gray-400">→</div>
               
               <div className="flex items-center gap-3">
                 <label className="text-sm font-medium text-gray-700">Output Language:</label>
-                <select
-                  value={outputLanguage}
-                  onChange={(e) => setOutputLanguage(e.target.value)}
-                  className="px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[140px]"
-                >
-                  {languages.map((lang) => (
-                    <option key={lang.code} value={lang.code}>
-                      {lang.name}
-                    </option>
-                  ))}
-                </select>
+                <LanguageSelect
+                  label="Output language"
+                  code={outputLanguage}
+                  locale={outputLocale}
+                  preferences={localePreferences}
+                  onChange={(code, locale) => {
+                    setOutputLanguage(code);
+                    chooseLocale(code, locale);
+                  }}
+                />
               </div>
             </div>
+
+            {pairGaps.length > 0 && (
+              <ul className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-4 py-2 list-disc list-inside">
+                {pairGaps.map((gap) => (
+                  <li key={gap}>{gap}</li>
+                ))}
+              </ul>
+            )}
+
+            <LanguageDetectionControls
+              mode={detectionMode}
+              isDetecting={isDetecting}
+              suggestion={languageSuggestion}
+              onModeChange={(mode) => {
+                setDetectionMode(mode);
+                setLanguageSuggestion(null);
+                sampleCheckedRef.current = false;
+              }}
+              onDetectSample={detectSample}
+              onAcceptSuggestion={switchInputLanguage}
+              onDismissSuggestion={() => setLanguageSuggestion(null)}
+            />
             
             {/* Recording Controls */}
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {twoWayMode ? (
+                <>
+                  <PushToTalkButton
+                    label={`Customer (${languages.find(l => l.code === inputLanguage)?.name})`}
+                    isActive={customerMic.isRecording}
+                    disabled={!customerMic.isSupported || agentMic.isRecording}
+                    activeClassName="bg-red-500"
+                    idleClassName="bg-blue-500 hover:bg-blue-600"
+                    onStart={() => startTalking('customer')}
+                    onStop={customerMic.stop}
+                  />
+                  <PushToTalkButton
+                    label={`Agent (${languages.find(l => l.code === outputLanguage)?.name})`}
+                    isActive={agentMic.isRecording}
+                    disabled={!agentMic.isSupported || customerMic.isRecording}
+                    activeClassName="bg-red-500"
+                    idleClassName="bg-purple-500 hover:bg-purple-600"
+                    onStart={() => startTalking('agent')}
+                    onStop={agentMic.stop}
+                  />
+                </>
+              ) : (
               <button
                 onClick={isRecording ? stopRecording : startRecording}
                 className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 ${
@@ -336,7 +971,7 @@ function App() {
                     ? 'bg-red-500 hover:bg-red-600 text-white shadow-lg'
                     : 'bg-blue-500 hover:bg-blue-600 text-white shadow-lg'
                 }`}
-                disabled={!recognitionRef.current}
+                disabled={!customerMic.isSupported}
               >
                 {isRecording ? (
                   <>
@@ -350,6 +985,17 @@ function App() {
                   </>
                 )}
               </button>
+              )}
+
+              {!twoWayMode && isRecording && (
+                <button
+                  onClick={customerMic.state === 'paused' ? customerMic.resume : customerMic.pause}
+                  className="flex items-center gap-2 px-4 py-3 rounded-lg font-medium bg-amber-500 hover:bg-amber-600 text-white transition-all duration-200 transform hover:scale-105"
+                >
+                  {customerMic.state === 'paused' ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                  {customerMic.state === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+              )}
 
               <button
                 onClick={clearText}
@@ -359,16 +1005,203 @@ function App() {
                 Clear
               </button>
 
-              {isRecording && (
-                <div className="flex items-center gap-2 text-red-500">
-                  <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse"></div>
-                  <span className="text-sm font-medium">Recording...</span>
-                </div>
-              )}
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showSettings ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Translation providers"
+              >
+                <Settings className="w-4 h-4" />
+                Providers
+              </button>
+
+              <button
+                onClick={() => setShowMemory(!showMemory)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showMemory ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Translation memory and cache"
+              >
+                <BookOpen className="w-4 h-4" />
+                Memory
+              </button>
+
+              <button
+                onClick={() => setShowGlossary(!showGlossary)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showGlossary ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Glossary and do-not-translate terms"
+              >
+                <BookA className="w-4 h-4" />
+                Glossary
+              </button>
+
+              <button
+                onClick={() => setShowQuickReplies(!showQuickReplies)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showQuickReplies ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Quick reply library"
+              >
+                <MessageSquareText className="w-4 h-4" />
+                Quick Replies
+              </button>
+
+              <button
+                onClick={() => setShowBroadcast(!showBroadcast)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showBroadcast ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Translate the speaker into several languages at once"
+              >
+                <Radio className="w-4 h-4" />
+                Broadcast
+              </button>
+
+              <button
+                onClick={() => setShowAudioFile(!showAudioFile)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showAudioFile ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Transcribe and translate a recorded call"
+              >
+                <FileAudio className="w-4 h-4" />
+                Audio File
+              </button>
+
+              <button
+                onClick={() => setShowRoom(!showRoom)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showRoom || isSharing ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Share live captions with remote viewers"
+              >
+                <Users className="w-4 h-4" />
+                {isSharing ? `Room ${hostRoom.room} (${hostRoom.viewers.length})` : 'Share'}
+              </button>
+
+              <button
+                onClick={() => setShowAnalytics(!showAnalytics)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                  showAnalytics ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+                title="Latency, failures and talk time"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Analytics
+              </button>
+
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700" title="Both sides speak; each finished turn is translated and read out to the other party">
+                <input
+                  type="checkbox"
+                  checked={twoWayMode}
+                  onChange={(e) => {
+                    customerMic.stop();
+                    agentMic.stop();
+                    setTwoWayMode(e.target.checked);
+                  }}
+                  className="rounded border-gray-300"
+                />
+                Two-way voice
+              </label>
+
+              <RecordingStatus
+                state={agentMic.state !== 'idle' ? agentMic.state : customerMic.state}
+                stream={agentMic.state !== 'idle' ? agentMic.stream : customerMic.stream}
+              />
+              <SpeechPlaybackControls
+                current={tts.current}
+                queued={tts.queue.length}
+                isPaused={tts.isPaused}
+                onPause={tts.pause}
+                onResume={tts.resume}
+                onSkip={tts.skip}
+                onStop={tts.stop}
+              />
             </div>
           </div>
         </div>
 
+        {showSettings && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Translation Providers</h2>
+            <ProviderSettingsPanel settings={providerSettings} onChange={updateProviderSettings} />
+            <h2 className="text-xl font-semibold text-gray-800 mt-6 mb-4">Privacy</h2>
+            <RedactionSettingsPanel settings={redactionSettings} onChange={updateRedactionSettings} />
+            <h2 className="text-xl font-semibold text-gray-800 mt-6 mb-4">Speech Recognition</h2>
+            <SpeechSettingsPanel settings={speechSettings} onChange={updateSpeechSettings} />
+            <h2 className="text-xl font-semibold text-gray-800 mt-6 mb-4">Text-to-Speech</h2>
+            <SpeechOutputSettingsPanel
+              settings={synthesisSettings}
+              voices={tts.voices}
+              defaultLanguage={outputLanguage}
+              onChange={updateSynthesisSettings}
+              onTest={(text, language) => speakText(`test:${language}`, text, language)}
+            />
+          </div>
+        )}
+
+        {showMemory && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Translation Memory</h2>
+            <TranslationMemoryPanel
+              defaultFrom={inputLanguage}
+              defaultTo={outputLanguage}
+              localePreferences={localePreferences}
+              version={memoryVersion}
+              onError={setError}
+            />
+          </div>
+        )}
+
+        {showAnalytics && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Analytics</h2>
+            <AnalyticsDashboard sessionId={session?.id} sessionName={session?.name} onError={setError} />
+          </div>
+        )}
+
+        {showGlossary && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Glossary</h2>
+            <GlossaryPanel defaultFrom={inputLanguage} defaultTo={outputLanguage} onError={setError} />
+          </div>
+        )}
+
+        {showRoom && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Live Caption Room</h2>
+            <RoomHostPanel
+              relayUrl={relayUrl}
+              status={hostRoom.status}
+              room={hostRoom.room}
+              link={hostRoom.room ? roomLink(hostRoom.room, relayUrl) : null}
+              viewers={hostRoom.viewers}
+              onRelayUrlChange={setRelayUrl}
+              onOpen={() => {
+                setError('');
+                hostRoom.open();
+              }}
+              onClose={hostRoom.close}
+              onCopy={copyToClipboard}
+            />
+          </div>
+        )}
+
+        {showQuickReplies && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Quick Replies</h2>
+            <QuickReplyLibraryPanel
+              replies={quickReplies}
+              defaultLanguage={outputLanguage}
+              onChanged={loadQuickReplies}
+              onError={setError}
+            />
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-6">
@@ -396,8 +1229,21 @@ function App() {
               )}
             </div>
             <div className="min-h-[200px] max-h-[400px] overflow-y-auto bg-gray-50 rounded-lg p-4 border border-gray-200">
-              <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">
-                {originalText || (isRecording ? 'Listening...' : 'Click "Start Recording" to begin')}
+              <p
+                {...(transcript.segments.length > 0 || interimText ? textProps(inputLocale) : {})}
+                className={`text-gray-800 whitespace-pre-wrap leading-relaxed ${scriptFontClass(inputLanguage)}`}
+              >
+                {transcript.segments.length > 0 ? (
+                  <TranscriptSegmentList
+                    segments={transcript.segments}
+                    wordSpacing={usesWordSpacing(inputLanguage)}
+                    redaction={redactionSettings}
+                    onUpdate={transcript.updateSegment}
+                    onRemove={transcript.removeSegment}
+                  />
+                ) : (
+                  isRecording ? 'Listening...' : 'Click "Start Recording" to begin'
+                )}
                 {interimText && (
                   <span className="text-gray-400 italic">
                     {interimText}
@@ -425,20 +1271,87 @@ function App() {
               )}
             </div>
             <div className="min-h-[200px] max-h-[400px] overflow-y-auto bg-gray-50 rounded-lg p-4 border border-gray-200">
-              {isTranslating ? (
-                <div className="flex items-center gap-2 text-gray-500">
-                  <div className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
-                  <span>Translating...</span>
-                </div>
-              ) : (
+              {transcript.segments.length === 0 ? (
                 <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">
-                  {translatedText || 'Translation will appear here automatically'}
+                  Translation will appear here automatically
                 </p>
+              ) : (
+                <>
+                  {/* Each segment keeps its translation while later ones are still in flight */}
+                  <p
+                    {...textProps(outputLocale)}
+                    className={`text-gray-800 whitespace-pre-wrap leading-relaxed ${scriptFontClass(outputLanguage)}`}
+                  >
+                    {transcript.segments.map((segment) => (
+                      <span key={segment.id}>
+                        {segment.status === 'failed' ? (
+                          <bdi dir="ltr" lang="en" className="text-red-400 italic">[translation failed]</bdi>
+                        ) : segment.status === 'queued' ? (
+                          <bdi dir="ltr" lang="en" className="text-amber-500 italic">[waiting for connection]</bdi>
+                        ) : (
+                          <span className={segment.status === 'translated' ? '' : 'text-gray-400'}>
+                            {segment.translation || '…'}
+                          </span>
+                        )}
+                        {usesWordSpacing(outputLanguage) ? ' ' : ''}
+                      </span>
+                    ))}
+                  </p>
+                  {isTranslating && (
+                    <div className="mt-3 flex items-center gap-2 text-gray-500 text-sm">
+                      <div className="w-3 h-3 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                      <span>Translating...</span>
+                    </div>
+                  )}
+                  {!isTranslating && translationProvider && (
+                    <p className="mt-3 text-xs text-gray-400">
+                      via {translationSourceNames[translationProvider]}
+                    </p>
+                  )}
+                </>
               )}
             </div>
           </div>
         </div>
 
+        {showBroadcast && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 border border-white/20 mb-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+              <div className="w-3 h-3 bg-teal-500 rounded-full"></div>
+              Broadcast ({languages.find(l => l.code === inputLanguage)?.name} to {panelTargets.length} languages)
+            </h2>
+            <BroadcastPanel
+              sourceLanguage={inputLanguage}
+              targets={panelTargets}
+              segments={broadcast.segments}
+              speakingLanguage={tts.current?.key.startsWith('broadcast:') ? tts.current.language : null}
+              spokenWord={tts.spokenWord}
+              onTargetsChange={setBroadcastLanguages}
+              onSpeak={(language, text) => speakText(`broadcast:${language}`, text, language)}
+              onCopy={copyToClipboard}
+            />
+          </div>
+        )}
+
+        {showAudioFile && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 border border-white/20 mb-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+              <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
+              Recorded Audio ({languages.find(l => l.code === inputLanguage)?.name} → {languages.find(l => l.code === outputLanguage)?.name})
+            </h2>
+            <AudioFilePanel
+              status={fileTranscription.status}
+              progress={fileTranscription.progress}
+              segments={fileTranscription.segments}
+              from={inputLanguage}
+              to={outputLanguage}
+              onTranscribe={fileTranscription.transcribe}
+              onCancel={fileTranscription.cancel}
+              onAddToConversation={addRecordingToConversation}
+            />
+          </div>
+        )}
+
         {/* Agent Reply Section */}
         <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 border border-white/20 mb-6">
           <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -449,24 +1362,42 @@ function App() {
           {/* Agent Input */}
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Type your reply in {languages.find(l => l.code === outputLanguage)?.name}:
+              {twoWayMode ? 'Type or speak' : 'Type'} your reply in {languages.find(l => l.code === outputLanguage)?.name}:
             </label>
             <div className="flex gap-2">
-              <textarea
+              <ReplyComposer
                 value={agentReply}
-                onChange={(e) => setAgentReply(e.target.value)}
-                placeholder={`Type your response in ${languages.find(l => l.code === outputLanguage)?.name}...`}
-                className="flex-1 px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
-                rows={3}
+                onChange={setAgentReply}
+                placeholder={`Type your response in ${languages.find(l => l.code === outputLanguage)?.name}, or / for quick replies...`}
+                replies={quickReplies}
+                replyLanguage={outputLanguage}
+                replyLocale={outputLocale}
+                targetLanguage={inputLanguage}
+                onInsert={insertQuickReply}
               />
-              <button
-                onClick={() => setAgentReply('')}
-                className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors"
-                title="Clear reply"
-              >
-                <RotateCcw className="w-4 h-4" />
-              </button>
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={() => sendAgentReply()}
+                  disabled={!agentReply.trim()}
+                  className={`flex-1 px-4 py-2 disabled:opacity-50 text-white rounded-lg transition-colors ${
+                    replyIsFlagged ? 'bg-amber-500 hover:bg-amber-600' : 'bg-purple-500 hover:bg-purple-600'
+                  }`}
+                  title={replyIsFlagged ? 'The translation may not say what you meant. Send anyway' : 'Send reply to conversation'}
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setAgentReply('')}
+                  className="flex-1 px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                  title="Clear reply"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
             </div>
+            {agentMic.interimText && (
+              <p className="mt-2 text-sm text-gray-400 italic">{agentMic.interimText}</p>
+            )}
           </div>
 
           {/* Translated Reply Display */}
@@ -490,20 +1421,29 @@ function App() {
                     )}
                     {agentReply && (
                       <button
-                        onClick={() => speakText(agentReply, outputLanguage)}
+                        onClick={() => speakText('reply:source', agentReply, outputLanguage)}
                         className={`p-1 transition-colors rounded ${
-                          isSpeaking ? 'text-purple-600' : 'text-gray-500 hover:text-purple-500'
+                          tts.current?.key === 'reply:source' ? 'text-purple-600' : 'text-gray-500 hover:text-purple-500'
                         }`}
                         title="Play audio"
-                        disabled={isSpeaking}
+                        disabled={tts.current?.key === 'reply:source'}
                       >
                         <Volume2 className="w-3 h-3" />
                       </button>
                     )}
                   </div>
                 </div>
-                <p className="text-gray-800 text-sm whitespace-pre-wrap">
-                  {agentReply || 'Your reply will appear here...'}
+                <p
+                  {...(agentReply ? textProps(outputLocale) : {})}
+                  className={`text-gray-800 text-sm whitespace-pre-wrap ${scriptFontClass(outputLanguage)}`}
+                >
+                  {agentReply && tts.current?.key === 'reply:source' ? (
+                    <SpokenText text={agentReply} word={tts.spokenWord} />
+                  ) : agentReply ? (
+                    <RedactedText text={agentReply} redaction={redactionSettings} />
+                  ) : (
+                    'Your reply will appear here...'
+                  )}
                 </p>
               </div>
 
@@ -512,6 +1452,9 @@ function App() {
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="font-medium text-gray-800">
                     Translated ({languages.find(l => l.code === inputLanguage)?.name})
+                    {usesApprovedReply && (
+                      <span className="ml-2 text-[10px] uppercase tracking-wide text-emerald-600">approved</span>
+                    )}
                   </h3>
                   <div className="flex gap-1">
                     {agentReplyTranslated && (
@@ -525,12 +1468,16 @@ function App() {
                     )}
                     {agentReplyTranslated && (
                       <button
-                        onClick={() => speakText(agentReplyTranslated, inputLanguage)}
+                        onClick={() => speakText('reply:translation', agentReplyTranslated, inputLanguage)}
                         className={`p-1 transition-colors rounded ${
-                          isSpeaking ? 'text-blue-600' : 'text-gray-500 hover:text-blue-500'
+                          tts.current?.key === 'reply:translation'
+                            ? 'text-blue-600'
+                            : replyIsFlagged
+                              ? 'text-amber-600 hover:text-amber-700'
+                              : 'text-gray-500 hover:text-blue-500'
                         }`}
-                        title="Play audio"
-                        disabled={isSpeaking}
+                        title={replyIsFlagged ? 'The translation may not say what you meant. Play anyway' : 'Play audio'}
+                        disabled={tts.current?.key === 'reply:translation'}
                       >
                         <Volume2 className="w-3 h-3" />
                       </button>
@@ -543,48 +1490,97 @@ function App() {
                     <span>Translating...</span>
                   </div>
                 ) : (
-                  <p className="text-gray-800 text-sm whitespace-pre-wrap">
-                    {agentReplyTranslated || 'Translation will appear here...'}
+                  <p
+                    {...(agentReplyTranslated ? textProps(inputLocale) : {})}
+                    className={`text-gray-800 text-sm whitespace-pre-wrap ${scriptFontClass(inputLanguage)}`}
+                  >
+                    {agentReplyTranslated ? (
+                      <SpokenText
+                        text={agentReplyTranslated}
+                        word={tts.current?.key === 'reply:translation' ? tts.spokenWord : null}
+                      />
+                    ) : (
+                      'Translation will appear here...'
+                    )}
                   </p>
                 )}
+                <BackTranslationCheck
+                  status={backTranslation.status}
+                  comparison={backTranslation.comparison}
+                  language={outputLanguage}
+                  providers={enabledProviders}
+                  provider={replyProvider}
+                  onProviderChange={setReplyProvider}
+                />
               </div>
             </div>
           )}
         </div>
+        {/* Conversation */}
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 border border-white/20 mb-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+            <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+              <div className="w-3 h-3 bg-indigo-500 rounded-full"></div>
+              Conversation
+            </h2>
+            <TranscriptToolbar
+              canExport={Boolean(session?.turns.length)}
+              isRetranslating={isRetranslating}
+              retranslateLabel={`Re-translate (${languages.find(l => l.code === inputLanguage)?.name} ↔ ${languages.find(l => l.code === outputLanguage)?.name})`}
+              onExport={exportTranscript}
+              onImport={importTranscript}
+              onRetranslate={retranslateSession}
+            />
+          </div>
+          <ConversationTimeline
+            turns={session?.turns ?? []}
+            speakingId={tts.current?.key ?? null}
+            spokenWord={tts.spokenWord}
+            queuedIds={tts.queue.map((item) => item.key)}
+            redaction={redactionSettings}
+            onCopy={copyToClipboard}
+            onSpeak={(turn) => speakText(turn.id, turn.translatedText, turn.targetLanguage)}
+            onDelete={deleteTurn}
+            onCorrect={correctTurn}
+          />
+        </div>
+
         {/* Instructions */}
-        <div className="mt-8 bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/20">
-          <h3 className="text-lg font-semibold text-gray-800 mb-3">How to Use:</h3>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
-            <div className="flex items-start gap-2">
-              <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">1</div>
-              <div>
-                <p className="font-medium">Select Languages</p>
-                <p>Choose your input language (what you'll speak) and output language (translation target)</p>
+        {!embed && (
+          <div className="mt-8 bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">How to Use:</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
+              <div className="flex items-start gap-2">
+                <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">1</div>
+                <div>
+                  <p className="font-medium">Select Languages</p>
+                  <p>Choose your input language (what you'll speak) and output language (translation target)</p>
+                </div>
               </div>
-            </div>
-            <div className="flex items-start gap-2">
-              <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">2</div>
-              <div>
-                <p className="font-medium">Start Recording</p>
-                <p>Click the microphone button and grant permission to access your microphone</p>
+              <div className="flex items-start gap-2">
+                <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">2</div>
+                <div>
+                  <p className="font-medium">Start Recording</p>
+                  <p>Click the microphone button and grant permission to access your microphone</p>
+                </div>
               </div>
-            </div>
-            <div className="flex items-start gap-2">
-              <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">3</div>
-              <div>
-                <p className="font-medium">Speak & Translate</p>
-                <p>Your speech will be transcribed and automatically translated in real-time</p>
+              <div className="flex items-start gap-2">
+                <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">3</div>
+                <div>
+                  <p className="font-medium">Speak & Translate</p>
+                  <p>Your speech is transcribed and translated in real-time, and each recording is added to the conversation</p>
+                </div>
               </div>
-            </div>
-            <div className="flex items-start gap-2">
-              <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">4</div>
-              <div>
-                <p className="font-medium">Agent Reply</p>
-                <p>Type a response that will be translated back and can be played as audio</p>
+              <div className="flex items-start gap-2">
+                <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold text-xs">4</div>
+                <div>
+                  <p className="font-medium">Agent Reply</p>
+                  <p>Type a response that will be translated back, then send it to add it to the conversation</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
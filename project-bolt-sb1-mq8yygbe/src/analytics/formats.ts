@@ -0,0 +1,45 @@
+import { toCsv } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { MetricsSummary } from './summary';
+import { MetricEvent } from './types';
+
+export type MetricsExportFormat = 'json' | 'csv';
+
+const JSON_FORMAT_ID = 'voice-translation-metrics';
+const JSON_FORMAT_VERSION = 1;
+
+// One row per event; columns that do not apply to an event's kind are left empty
+const toCsvRows = (events: MetricEvent[]) => [
+  ['Time', 'Session', 'Kind', 'OK', 'Error', 'Characters', 'Latency (ms)', 'Duration (ms)', 'Provider', 'Attempt', 'Request', 'From', 'To', 'Language', 'Speaker', 'Retried'],
+  ...events.map((e) => [
+    new Date(e.at).toISOString(),
+    e.sessionId ?? '',
+    e.kind,
+    String(e.ok),
+    e.error ?? '',
+    String(e.chars),
+    e.kind !== 'recognition' ? String(Math.round(e.latencyMs)) : '',
+    e.kind === 'recognition' ? String(Math.round(e.durationMs)) : '',
+    e.kind === 'translation' ? e.provider : '',
+    e.kind === 'translation' ? String(e.attempt) : '',
+    e.kind === 'translation' ? e.requestId : '',
+    e.kind === 'translation' ? e.from : '',
+    e.kind === 'translation' ? e.to : '',
+    e.kind !== 'translation' ? e.language : '',
+    e.kind === 'recognition' ? e.speaker : '',
+    e.kind === 'recognition' && e.retried !== undefined ? String(e.retried) : '',
+  ]),
+];
+
+export const downloadMetrics = (events: MetricEvent[], summary: MetricsSummary, format: MetricsExportFormat, name: string) => {
+  if (format === 'json') {
+    const json = JSON.stringify(
+      { format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, exportedAt: new Date().toISOString(), summary, events },
+      null,
+      2
+    );
+    downloadFile(json, `${name}.json`, 'application/json');
+  } else {
+    downloadFile(toCsv(toCsvRows(events)), `${name}.csv`, 'text/csv');
+  }
+};
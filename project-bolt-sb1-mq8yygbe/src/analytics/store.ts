@@ -0,0 +1,51 @@
+import { clearRecords, countRecords, deleteFirstByIndex, getAllRecords, putRecord } from '../storage/db';
+import { MetricEvent, NewMetric, RecordedFields } from './types';
+
+// Oldest events are dropped beyond this
+export const MAX_METRIC_EVENTS = 20000;
+
+let currentSessionId: string | null = null;
+const listeners = new Set<() => void>();
+let writes = 0;
+
+// Events recorded from now on belong to this session
+export const setMetricsSession = (sessionId: string | null) => {
+  currentSessionId = sessionId;
+};
+
+// Called after each recorded event, e.g. to refresh a dashboard
+export const subscribeToMetrics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Keeps the fields of the metric's own kind, so the result is still one of the MetricEvent kinds
+const toMetricEvent = <M extends NewMetric>(metric: M): M & RecordedFields => ({
+  ...metric,
+  id: crypto.randomUUID(),
+  at: Date.now(),
+  sessionId: currentSessionId,
+});
+
+// Recording never holds up or breaks the work being measured
+export const recordMetric = (metric: NewMetric) => {
+  const event: MetricEvent = toMetricEvent(metric);
+  putRecord('metrics', event)
+    .then(async () => {
+      listeners.forEach((listener) => listener());
+      // Counting on every write would slow down busy sessions
+      if (++writes % 100 !== 0) return;
+      const count = await countRecords('metrics');
+      await deleteFirstByIndex('metrics', 'at', count - MAX_METRIC_EVENTS);
+    })
+    .catch((err) => console.error('Failed to record metric:', err));
+};
+
+export const listMetrics = async (sessionId?: string) => {
+  const events = await getAllRecords<MetricEvent>('metrics');
+  return (sessionId ? events.filter((e) => e.sessionId === sessionId) : events).sort((a, b) => a.at - b.at);
+};
+
+export const clearMetrics = () => clearRecords('metrics');
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { percentiles, summarizeMetrics } from './summary';
+import { MetricEvent, RecognitionMetric, TranslationMetric } from './types';
+
+const recorded = { sessionId: null, at: 0 };
+let nextId = 0;
+
+const attempt = (
+  requestId: string,
+  fields: Pick<TranslationMetric, 'provider' | 'ok' | 'latencyMs'> & Partial<TranslationMetric>
+): TranslationMetric => ({
+  ...recorded,
+  id: String(nextId++),
+  kind: 'translation',
+  requestId,
+  attempt: 1,
+  from: 'en',
+  to: 'th',
+  chars: 10,
+  ...fields,
+});
+
+const recognition = (
+  fields: Pick<RecognitionMetric, 'speaker' | 'ok' | 'durationMs'> & Partial<RecognitionMetric>
+): RecognitionMetric => ({
+  ...recorded,
+  id: String(nextId++),
+  kind: 'recognition',
+  language: 'en',
+  chars: 5,
+  ...fields,
+});
+
+describe('percentiles', () => {
+  it('picks the nearest-rank value rather than interpolating', () => {
+    expect(percentiles([10, 20])).toEqual({ 50: 10, 90: 20, 95: 20, 99: 20 });
+    expect(percentiles([7, 3, 10, 1, 9, 2, 8, 4, 6, 5])).toEqual({ 50: 5, 90: 9, 95: 10, 99: 10 });
+    expect(percentiles(Array.from({ length: 100 }, (_, i) => 100 - i))).toEqual({ 50: 50, 90: 90, 95: 95, 99: 99 });
+  });
+
+  it('gives every percentile the only value, and none without values', () => {
+    expect(percentiles([42])).toEqual({ 50: 42, 90: 42, 95: 42, 99: 42 });
+    expect(percentiles([])).toBeNull();
+  });
+});
+
+describe('summarizeMetrics', () => {
+  const events: MetricEvent[] = [
+    // Falls back from DeepL to MyMemory and succeeds
+    attempt('a', { provider: 'deepl', ok: false, latencyMs: 100, error: 'rate-limit' }),
+    attempt('a', { provider: 'mymemory', ok: true, latencyMs: 200, attempt: 2 }),
+    // Fails with both
+    attempt('b', { provider: 'deepl', ok: false, latencyMs: 50, error: 'unavailable' }),
+    attempt('b', { provider: 'mymemory', ok: false, latencyMs: 70, attempt: 2, error: 'network' }),
+    // Succeeds at once, the other way round
+    attempt('c', { provider: 'mymemory', ok: true, latencyMs: 400, from: 'th', to: 'en', chars: 30 }),
+  ];
+  const { translation } = summarizeMetrics(events);
+
+  it('counts a request as failed only when every provider it tried failed', () => {
+    expect(translation).toMatchObject({ requests: 3, failures: 1, retried: 2, chars: 50 });
+    expect(translation.languagePairs).toEqual([
+      { from: 'en', to: 'th', requests: 2, failures: 1, failureRate: 0.5, retried: 2 },
+      { from: 'th', to: 'en', requests: 1, failures: 0, failureRate: 0, retried: 0 },
+    ]);
+  });
+
+  it('rates providers per attempt', () => {
+    expect(translation.providers).toEqual([
+      {
+        provider: 'mymemory',
+        attempts: 3,
+        failures: 1,
+        failureRate: 1 / 3,
+        latency: { count: 2, percentiles: { 50: 200, 90: 400, 95: 400, 99: 400 } },
+        chars: 40,
+      },
+      { provider: 'deepl', attempts: 2, failures: 2, failureRate: 1, latency: { count: 0, percentiles: null }, chars: 0 },
+    ]);
+  });
+
+  it('times successful requests end to end, including the providers that failed first', () => {
+    expect(translation.latency).toEqual({ count: 2, percentiles: { 50: 300, 90: 400, 95: 400, 99: 400 } });
+  });
+
+  it('splits talk time by speaker, leaving out recognition errors', () => {
+    const summary = summarizeMetrics([
+      recognition({ speaker: 'customer', ok: true, durationMs: 1000 }),
+      recognition({ speaker: 'customer', ok: true, durationMs: 2500 }),
+      recognition({ speaker: 'agent', ok: true, durationMs: 500 }),
+      recognition({ speaker: 'customer', ok: false, durationMs: 9999, error: 'network', retried: true }),
+      recognition({ speaker: 'agent', ok: false, durationMs: 0, error: 'network', retried: false }),
+      recognition({ speaker: 'agent', ok: false, durationMs: 0, error: 'not-allowed' }),
+    ]);
+
+    expect(summary.talkTime).toEqual({ customer: 3500, agent: 500 });
+    expect(summary.recognition).toEqual({
+      utterances: 3,
+      errors: 3,
+      restarts: 1,
+      chars: 15,
+      errorCodes: [
+        { code: 'network', count: 2 },
+        { code: 'not-allowed', count: 1 },
+      ],
+    });
+  });
+
+  it('reports nothing for no events', () => {
+    const summary = summarizeMetrics([]);
+    expect(summary.translation.latency).toEqual({ count: 0, percentiles: null });
+    expect(summary.talkTime).toEqual({ customer: 0, agent: 0 });
+  });
+});
@@ -0,0 +1,166 @@
+import { Speaker } from '../conversation/types';
+import { ProviderId } from '../translation/types';
+import { MetricEvent, RecognitionMetric, SynthesisMetric, TranslationMetric } from './types';
+
+export const PERCENTILES = [50, 90, 95, 99] as const;
+
+export type Percentiles = Record<(typeof PERCENTILES)[number], number>;
+
+export interface LatencySummary {
+  count: number;
+  percentiles: Percentiles | null;
+}
+
+export interface ProviderSummary {
+  provider: ProviderId;
+  attempts: number;
+  failures: number;
+  failureRate: number;
+  latency: LatencySummary;
+  chars: number;
+}
+
+// Requests, not attempts: a request fails only when every provider it tried failed
+export interface LanguagePairSummary {
+  from: string;
+  to: string;
+  requests: number;
+  failures: number;
+  failureRate: number;
+  // Requests that needed more than one provider
+  retried: number;
+}
+
+export interface MetricsSummary {
+  translation: {
+    requests: number;
+    failures: number;
+    retried: number;
+    chars: number;
+    latency: LatencySummary;
+    providers: ProviderSummary[];
+    languagePairs: LanguagePairSummary[];
+  };
+  recognition: {
+    utterances: number;
+    errors: number;
+    // Errors recovered from by restarting recognition
+    restarts: number;
+    chars: number;
+    // Error codes by how often they came up
+    errorCodes: { code: string; count: number }[];
+  };
+  synthesis: {
+    count: number;
+    failures: number;
+    chars: number;
+    latency: LatencySummary;
+  };
+  // Milliseconds of recognized speech per speaker
+  talkTime: Record<Speaker, number>;
+}
+
+// Nearest-rank percentiles
+export const percentiles = (values: number[]): Percentiles | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+  return { 50: rank(50), 90: rank(90), 95: rank(95), 99: rank(99) };
+};
+
+const latencyOf = (events: { ok: boolean; latencyMs: number }[]): LatencySummary => {
+  const succeeded = events.filter((e) => e.ok);
+  return { count: succeeded.length, percentiles: percentiles(succeeded.map((e) => e.latencyMs)) };
+};
+
+const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+};
+
+export const summarizeMetrics = (events: MetricEvent[]): MetricsSummary => {
+  const translations = events.filter((e): e is TranslationMetric => e.kind === 'translation');
+  const recognitions = events.filter((e): e is RecognitionMetric => e.kind === 'recognition');
+  const syntheses = events.filter((e): e is SynthesisMetric => e.kind === 'synthesis');
+
+  const requests = [...groupBy(translations, (e) => e.requestId).values()].map((attempts) => ({
+    from: attempts[0].from,
+    to: attempts[0].to,
+    chars: attempts[0].chars,
+    failed: !attempts.some((a) => a.ok),
+    retried: attempts.length > 1,
+    // End to end, including the providers that failed first
+    latencyMs: sum(attempts.map((a) => a.latencyMs)),
+  }));
+
+  const providers = [...groupBy(translations, (e) => e.provider).values()].map((attempts): ProviderSummary => {
+    const failures = attempts.filter((a) => !a.ok).length;
+    return {
+      provider: attempts[0].provider,
+      attempts: attempts.length,
+      failures,
+      failureRate: rate(failures, attempts.length),
+      latency: latencyOf(attempts),
+      chars: sum(attempts.filter((a) => a.ok).map((a) => a.chars)),
+    };
+  });
+
+  const languagePairs = [...groupBy(requests, (r) => `${r.from}|${r.to}`).values()].map(
+    (pair): LanguagePairSummary => {
+      const failures = pair.filter((r) => r.failed).length;
+      return {
+        from: pair[0].from,
+        to: pair[0].to,
+        requests: pair.length,
+        failures,
+        failureRate: rate(failures, pair.length),
+        retried: pair.filter((r) => r.retried).length,
+      };
+    }
+  );
+
+  const recognitionErrors = recognitions.filter((e) => !e.ok);
+  const errorCodes = [...groupBy(recognitionErrors, (e) => e.error ?? 'unknown')]
+    .map(([code, list]) => ({ code, count: list.length }))
+    .sort((a, b) => b.count - a.count);
+  const utterances = recognitions.filter((e) => e.ok);
+
+  return {
+    translation: {
+      requests: requests.length,
+      failures: requests.filter((r) => r.failed).length,
+      retried: requests.filter((r) => r.retried).length,
+      chars: sum(requests.map((r) => r.chars)),
+      latency: latencyOf(requests.map((r) => ({ ok: !r.failed, latencyMs: r.latencyMs }))),
+      providers: providers.sort((a, b) => b.attempts - a.attempts),
+      languagePairs: languagePairs.sort((a, b) => b.requests - a.requests),
+    },
+    recognition: {
+      utterances: utterances.length,
+      errors: recognitionErrors.length,
+      restarts: recognitionErrors.filter((e) => e.retried).length,
+      chars: sum(utterances.map((e) => e.chars)),
+      errorCodes,
+    },
+    synthesis: {
+      count: syntheses.length,
+      failures: syntheses.filter((e) => !e.ok).length,
+      chars: sum(syntheses.map((e) => e.chars)),
+      latency: latencyOf(syntheses),
+    },
+    talkTime: {
+      customer: sum(utterances.filter((e) => e.speaker === 'customer').map((e) => e.durationMs)),
+      agent: sum(utterances.filter((e) => e.speaker === 'agent').map((e) => e.durationMs)),
+    },
+  };
+};
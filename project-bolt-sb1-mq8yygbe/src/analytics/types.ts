@@ -0,0 +1,59 @@
+import { Speaker } from '../conversation/types';
+import { ProviderId } from '../translation/types';
+
+export type MetricKind = 'recognition' | 'translation' | 'synthesis';
+
+interface BaseMetric {
+  id: string;
+  // The session open when the event happened, if any
+  sessionId: string | null;
+  at: number;
+  // Characters recognized, sent for translation or read aloud
+  chars: number;
+  ok: boolean;
+  // Error kind or code when ok is false
+  error?: string;
+}
+
+// One request to one provider. A request that falls back to another provider is recorded as
+// several attempts sharing a requestId.
+export interface TranslationMetric extends BaseMetric {
+  kind: 'translation';
+  requestId: string;
+  attempt: number;
+  provider: ProviderId;
+  from: string;
+  to: string;
+  latencyMs: number;
+}
+
+// One recognized utterance, or a recognition error
+export interface RecognitionMetric extends BaseMetric {
+  kind: 'recognition';
+  speaker: Speaker;
+  language: string;
+  // From the first word heard to the final result, which counts as talk time
+  durationMs: number;
+  // For errors, whether recognition restarted itself rather than giving up
+  retried?: boolean;
+}
+
+// One text read aloud
+export interface SynthesisMetric extends BaseMetric {
+  kind: 'synthesis';
+  language: string;
+  // From queueing the text for the engine until it started speaking
+  latencyMs: number;
+}
+
+export type MetricEvent = TranslationMetric | RecognitionMetric | SynthesisMetric;
+
+// Filled in when an event is recorded
+export type RecordedFields = Pick<BaseMetric, 'id' | 'at' | 'sessionId'>;
+
+// What callers provide, one shape per kind
+export type NewMetric = MetricEvent extends infer M
+  ? M extends MetricEvent
+    ? Omit<M, keyof RecordedFields>
+    : never
+  : never;
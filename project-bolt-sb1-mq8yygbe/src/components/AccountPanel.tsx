@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { LogIn, LogOut, RefreshCw, UserPlus } from 'lucide-react';
+import { SyncStatus, UnownedRecords } from '../sync/useAccount';
+
+interface AccountPanelProps {
+  email: string | null;
+  syncStatus: SyncStatus;
+  lastSyncedAt: number | null;
+  error: string;
+  notice: string;
+  unowned: UnownedRecords | null;
+  onClaimUnowned: () => void;
+  onDismissUnowned: () => void;
+  onSignIn: (email: string, password: string) => Promise<boolean>;
+  onSignUp: (email: string, password: string) => Promise<boolean>;
+  onSignOut: () => void;
+  onSync: () => void;
+}
+
+const inputClassName =
+  'flex-1 w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm';
+
+const syncText = (status: SyncStatus, lastSyncedAt: number | null) => {
+  if (status === 'syncing') return 'Syncing...';
+  if (status === 'error') return 'Sync failed';
+  return lastSyncedAt ? `Synced at ${new Date(lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet';
+};
+
+const describeUnowned = ({ sessions, glossary }: UnownedRecords) =>
+  [
+    sessions > 0 && `${sessions} ${sessions === 1 ? 'session' : 'sessions'}`,
+    glossary > 0 && `${glossary} ${glossary === 1 ? 'glossary entry' : 'glossary entries'}`,
+  ]
+    .filter(Boolean)
+    .join(' and ');
+
+// Agent sign-in, and the sync state of their sessions and glossary once signed in
+function AccountPanel({
+  email,
+  syncStatus,
+  lastSyncedAt,
+  error,
+  notice,
+  unowned,
+  onClaimUnowned,
+  onDismissUnowned,
+  onSignIn,
+  onSignUp,
+  onSignOut,
+  onSync,
+}: AccountPanelProps) {
+  const [form, setForm] = useState({ email: '', password: '' });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const submit = async (action: typeof onSignIn) => {
+    if (!form.email.trim() || !form.password) return;
+    setIsBusy(true);
+    if (await action(form.email.trim(), form.password)) setForm({ email: '', password: '' });
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {email ? (
+        <div className="flex flex-col sm:flex-row items-center gap-3">
+          <span className="text-sm text-gray-700">
+            Signed in as <span className="font-medium">{email}</span>
+          </span>
+          <span className={`text-xs ${syncStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+            {syncText(syncStatus, lastSyncedAt)}
+          </span>
+          <div className="flex gap-2 sm:ml-auto">
+            <button
+              onClick={onSync}
+              disabled={syncStatus === 'syncing'}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${syncStatus === 'syncing' ? 'animate-spin' : ''}`} />
+              Sync now
+            </button>
+            <button
+              onClick={onSignOut}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-500 hover:bg-gray-600 text-white transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(onSignIn);
+          }}
+          className="flex flex-col sm:flex-row items-center gap-3"
+        >
+          <input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="Agent email"
+            autoComplete="email"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            placeholder="Password"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 text-white transition-colors"
+          >
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </button>
+          <button
+            type="button"
+            onClick={() => submit(onSignUp)}
+            disabled={isBusy}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 disabled:opacity-50 transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Create account
+          </button>
+        </form>
+      )}
+      {!email && (
+        <p className="text-xs text-gray-500">
+          Signed-in agents keep their sessions and glossary in their account and see them on every device.
+        </p>
+      )}
+      {email && unowned && (
+        <div className="flex flex-col sm:flex-row items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
+          <p className="text-sm text-amber-800">
+            {describeUnowned(unowned)} on this browser {unowned.sessions + unowned.glossary === 1 ? "isn't" : "aren't"}{' '}
+            linked to an account. Add them to yours?
+          </p>
+          <div className="flex gap-2 sm:ml-auto">
+            <button
+              onClick={onClaimUnowned}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-500 hover:bg-indigo-600 text-white transition-colors"
+            >
+              Add to my account
+            </button>
+            <button
+              onClick={onDismissUnowned}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 transition-colors"
+            >
+              Not now
+            </button>
+          </div>
+        </div>
+      )}
+      {notice && <p className="text-sm text-emerald-700">{notice}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default AccountPanel;
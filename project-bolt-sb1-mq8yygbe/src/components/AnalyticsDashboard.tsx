@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, RefreshCw, Trash2 } from 'lucide-react';
+import { downloadMetrics, MetricsExportFormat } from '../analytics/formats';
+import { clearMetrics, listMetrics, subscribeToMetrics } from '../analytics/store';
+import { LatencySummary, PERCENTILES, summarizeMetrics } from '../analytics/summary';
+import { MetricEvent } from '../analytics/types';
+import { languageName } from '../languages';
+import { translationSourceNames } from '../translation/types';
+import { safeFilename } from '../utils/download';
+
+interface AnalyticsDashboardProps {
+  sessionId?: string;
+  sessionName?: string;
+  onError: (message: string) => void;
+}
+
+type Scope = 'session' | 'all';
+
+// New events arrive in bursts while someone is talking, so the view catches up at most this often
+const REFRESH_DELAY_MS = 1000;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`);
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="rounded-lg border border-gray-200 bg-white p-3">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className="text-xl font-semibold text-gray-800">{value}</p>
+    {detail && <p className="text-xs text-gray-500">{detail}</p>}
+  </div>
+);
+
+// One row per measured thing, with a bar per percentile on a shared scale
+const LatencyChart = ({ rows }: { rows: { label: string; latency: LatencySummary }[] }) => {
+  const measured = rows.filter((r) => r.latency.percentiles);
+  if (measured.length === 0) return <p className="text-sm text-gray-500">No timings recorded yet.</p>;
+  const max = Math.max(...measured.map((r) => r.latency.percentiles![99]), 1);
+
+  return (
+    <div className="space-y-3">
+      {measured.map(({ label, latency }) => (
+        <div key={label}>
+          <p className="text-sm text-gray-700">
+            {label} <span className="text-xs text-gray-500">({latency.count})</span>
+          </p>
+          {PERCENTILES.map((p) => (
+            <div key={p} className="flex items-center gap-2 text-xs">
+              <span className="w-8 text-gray-500">p{p}</span>
+              <div className="flex-1 h-2 rounded-full bg-gray-100">
+                <div
+                  className="h-full rounded-full bg-indigo-500"
+                  style={{ width: `${(latency.percentiles![p] / max) * 100}%` }}
+                />
+              </div>
+              <span className="w-16 text-right tabular-nums text-gray-600">{formatMs(latency.percentiles![p])}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const FailureChart = ({ rows }: { rows: { label: string; total: number; failures: number; rate: number }[] }) => {
+  if (rows.length === 0) return <p className="text-sm text-gray-500">No requests recorded yet.</p>;
+  return (
+    <div className="space-y-2">
+      {rows.map(({ label, total, failures, rate }) => (
+        <div key={label} className="flex items-center gap-2 text-sm">
+          <span className="w-40 truncate text-gray-700" title={label}>
+            {label}
+          </span>
+          <div className="flex-1 h-2 rounded-full bg-emerald-100">
+            <div className="h-full rounded-full bg-red-500" style={{ width: `${rate * 100}%` }} />
+          </div>
+          <span className="w-28 text-right text-xs tabular-nums text-gray-600">
+            {formatRate(rate)} of {total}
+            {failures > 0 && ` (${failures})`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Timings, failures and talk time recorded on this device, for one session or all of them
+function AnalyticsDashboard({ sessionId, sessionName, onError }: AnalyticsDashboardProps) {
+  const [scope, setScope] = useState<Scope>('session');
+  const [events, setEvents] = useState<MetricEvent[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setEvents(await listMetrics(scope === 'session' ? sessionId : undefined));
+    } catch (err) {
+      console.error('Failed to load metrics:', err);
+      onError('Analytics are unavailable in this browser.');
+    }
+  }, [scope, sessionId, onError]);
+
+  useEffect(() => {
+    reload();
+    let timer = 0;
+    const unsubscribe = subscribeToMetrics(() => {
+      if (timer) return;
+      timer = window.setTimeout(() => {
+        timer = 0;
+        reload();
+      }, REFRESH_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, [reload]);
+
+  const summary = useMemo(() => summarizeMetrics(events), [events]);
+  const { translation, recognition, synthesis, talkTime } = summary;
+  const totalTalk = talkTime.customer + talkTime.agent;
+
+  const exportMetrics = (format: MetricsExportFormat) => {
+    const name = scope === 'session' ? `${safeFilename(sessionName ?? '', 'session')}-metrics` : 'metrics';
+    downloadMetrics(events, summary, format, name);
+  };
+
+  const clear = async () => {
+    if (!window.confirm('Delete all recorded analytics on this device?')) return;
+    try {
+      await clearMetrics();
+      reload();
+    } catch (err) {
+      console.error('Failed to clear metrics:', err);
+      onError('Failed to clear analytics.');
+    }
+  };
+
+  const buttonClassName =
+    'flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 transition-colors';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as Scope)}
+          className="px-3 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+        >
+          <option value="session">This session</option>
+          <option value="all">All sessions</option>
+        </select>
+        <button onClick={reload} className={buttonClassName} title="Refresh">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+        <div className="flex-1" />
+        <button onClick={() => exportMetrics('json')} disabled={events.length === 0} className={buttonClassName}>
+          <Download className="w-4 h-4" />
+          JSON
+        </button>
+        <button onClick={() => exportMetrics('csv')} disabled={events.length === 0} className={buttonClassName}>
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+        <button onClick={clear} className={buttonClassName} title="Delete recorded analytics">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat
+          label="Translations"
+          value={String(translation.requests)}
+          detail={`${formatRate(translation.requests ? translation.failures / translation.requests : 0)} failed · ${translation.retried} fell back`}
+        />
+        <Stat
+          label="Recognized utterances"
+          value={String(recognition.utterances)}
+          detail={`${recognition.errors} errors · ${recognition.restarts} restarts`}
+        />
+        <Stat
+          label="Read aloud"
+          value={String(synthesis.count)}
+          detail={`${synthesis.failures} failed · ${synthesis.chars} characters`}
+        />
+        <Stat label="Characters translated" value={String(translation.chars)} detail={`${recognition.chars} recognized`} />
+      </div>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Talk time</h3>
+        {totalTalk === 0 ? (
+          <p className="text-sm text-gray-500">No speech recognized yet.</p>
+        ) : (
+          <>
+            <div className="flex h-4 rounded-full overflow-hidden">
+              <div className="bg-blue-500" style={{ width: `${(talkTime.customer / totalTalk) * 100}%` }} />
+              <div className="bg-purple-500" style={{ width: `${(talkTime.agent / totalTalk) * 100}%` }} />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-gray-600">
+              <span>
+                <span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-1" />
+                Customer {formatDuration(talkTime.customer)} ({formatRate(talkTime.customer / totalTalk)})
+              </span>
+              <span>
+                <span className="inline-block w-2 h-2 rounded-full bg-purple-500 mr-1" />
+                Agent {formatDuration(talkTime.agent)} ({formatRate(talkTime.agent / totalTalk)})
+              </span>
+            </div>
+          </>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <section>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Latency</h3>
+          <LatencyChart
+            rows={[
+              { label: 'Translation, end to end', latency: translation.latency },
+              ...translation.providers.map((p) => ({ label: translationSourceNames[p.provider], latency: p.latency })),
+              { label: 'Text-to-speech start', latency: synthesis.latency },
+            ]}
+          />
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">Failures by provider</h3>
+            <FailureChart
+              rows={translation.providers.map((p) => ({
+                label: translationSourceNames[p.provider],
+                total: p.attempts,
+                failures: p.failures,
+                rate: p.failureRate,
+              }))}
+            />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">Failures by language pair</h3>
+            <FailureChart
+              rows={translation.languagePairs.map((p) => ({
+                label: `${languageName(p.from)} → ${languageName(p.to)}`,
+                total: p.requests,
+                failures: p.failures,
+                rate: p.failureRate,
+              }))}
+            />
+          </div>
+          {recognition.errorCodes.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">Recognition errors</h3>
+              <ul className="text-sm text-gray-700">
+                {recognition.errorCodes.map(({ code, count }) => (
+                  <li key={code} className="flex justify-between">
+                    <span>{code}</span>
+                    <span className="tabular-nums text-gray-500">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
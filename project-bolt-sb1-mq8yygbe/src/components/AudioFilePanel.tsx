@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileAudio, ListPlus, Square } from 'lucide-react';
+import { languageName, scriptFontClass, textProps } from '../languages';
+import { FileSegment, FileTranscriptionStatus } from '../speech/useFileTranscription';
+
+interface AudioFilePanelProps {
+  status: FileTranscriptionStatus;
+  progress: { done: number; duration: number };
+  segments: FileSegment[];
+  from: string;
+  to: string;
+  onTranscribe: (file: File) => void;
+  onCancel: () => void;
+  // Adds the transcribed segments to the conversation as customer turns
+  onAddToConversation: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const statusText = (status: FileTranscriptionStatus, progress: AudioFilePanelProps['progress']) => {
+  if (status === 'decoding') return 'Decoding audio...';
+  if (status === 'transcribing') return `Transcribing ${formatTime(progress.done)} / ${formatTime(progress.duration)}...`;
+  if (status === 'failed') return 'Transcription failed';
+  return '';
+};
+
+// A recorded call, transcribed and translated segment by segment, with playback that follows along
+function AudioFilePanel({
+  status,
+  progress,
+  segments,
+  from,
+  to,
+  onTranscribe,
+  onCancel,
+  onAddToConversation,
+}: AudioFilePanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [audioUrl, setAudioUrl] = useState('');
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const activeId = segments.find((s) => currentTime >= s.start && currentTime < s.end)?.id;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeId]);
+
+  const seek = (segment: FileSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.start;
+    audio.play().catch((err) => console.error('Playback error:', err));
+  };
+
+  const isBusy = status === 'decoding' || status === 'transcribing';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row items-center gap-3">
+        <label className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 cursor-pointer transition-colors">
+          <FileAudio className="w-4 h-4" />
+          {file ? file.name : 'Choose a recording'}
+          <input
+            type="file"
+            accept="audio/*,.wav,.mp3,.webm"
+            className="hidden"
+            disabled={isBusy}
+            onChange={(e) => {
+              const chosen = e.target.files?.[0];
+              e.target.value = '';
+              if (!chosen) return;
+              setFile(chosen);
+              setCurrentTime(0);
+              onTranscribe(chosen);
+            }}
+          />
+        </label>
+        {isBusy && (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-500 hover:bg-gray-600 text-white transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            Stop
+          </button>
+        )}
+        {segments.length > 0 && !isBusy && (
+          <button
+            onClick={onAddToConversation}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-500 hover:bg-indigo-600 text-white transition-colors"
+            title="Add the segments to the conversation, to review or export them with the rest"
+          >
+            <ListPlus className="w-4 h-4" />
+            Add to conversation
+          </button>
+        )}
+        <span className={`text-sm ${status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+          {statusText(status, progress)}
+        </span>
+      </div>
+
+      {isBusy && progress.duration > 0 && (
+        <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+          <div
+            className="h-full bg-indigo-500 transition-all"
+            style={{ width: `${Math.min(100, (progress.done / progress.duration) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          className="w-full"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      {segments.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {file
+            ? status === 'done' && 'No speech was recognized in this recording.'
+            : `Upload a WAV, MP3 or WebM recording in ${languageName(from)} to transcribe and translate it into ${languageName(to)}.`}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-[400px] overflow-y-auto">
+          {segments.map((segment) => {
+            const isActive = segment.id === activeId;
+            return (
+              <li
+                key={segment.id}
+                ref={isActive ? activeRef : undefined}
+                onClick={() => seek(segment)}
+                className={`py-2 px-2 grid grid-cols-[auto_1fr_1fr] gap-3 text-sm cursor-pointer rounded ${
+                  isActive ? 'bg-indigo-50' : 'hover:bg-gray-50'
+                }`}
+                title="Play from here"
+              >
+                <span className="text-xs text-gray-500 tabular-nums pt-0.5">
+                  {formatTime(segment.start)}–{formatTime(segment.end)}
+                </span>
+                <span {...textProps(from)} className={`text-gray-800 ${scriptFontClass(from)}`}>
+                  {segment.text}
+                </span>
+                <span {...textProps(to)} className={`text-gray-600 ${scriptFontClass(to)}`}>
+                  {segment.status === 'failed' ? (
+                    <span className="italic text-red-500">Translation failed</span>
+                  ) : segment.status === 'queued' ? (
+                    <span className="italic text-amber-600">Waiting for a connection to translate</span>
+                  ) : (
+                    segment.translation || <span className="text-gray-400">…</span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AudioFilePanel;
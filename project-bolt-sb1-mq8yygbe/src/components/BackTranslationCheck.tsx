@@ -0,0 +1,93 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { languageName, scriptFontClass, textProps } from '../languages';
+import { BackTranslationComparison, ComparedToken, LOW_SIMILARITY } from '../translation/backTranslation';
+import { ProviderId, translationSourceNames } from '../translation/types';
+import { BackTranslationStatus } from '../translation/useBackTranslation';
+
+interface BackTranslationCheckProps {
+  status: BackTranslationStatus;
+  comparison: BackTranslationComparison | null;
+  // The reply's language, which the translation was translated back into
+  language: string;
+  providers: ProviderId[];
+  // The provider chosen for this reply, or null for the usual fallback order
+  provider: ProviderId | null;
+  onProviderChange: (provider: ProviderId | null) => void;
+}
+
+const Highlighted = ({ tokens }: { tokens: ComparedToken[] }) => (
+  <>
+    {tokens.map((token, i) =>
+      token.matched ? (
+        token.text
+      ) : (
+        <mark key={i} className="bg-amber-200 text-inherit rounded-sm">
+          {token.text}
+        </mark>
+      )
+    )}
+  </>
+);
+
+// Shows how much of a reply survives being translated there and back, so an agent who cannot
+// read the customer's language can tell when a translation went wrong
+function BackTranslationCheck({
+  status,
+  comparison,
+  language,
+  providers,
+  provider,
+  onProviderChange,
+}: BackTranslationCheckProps) {
+  if (status === 'idle') return null;
+
+  const isLow = comparison !== null && comparison.score < LOW_SIMILARITY;
+
+  return (
+    <div className={`mt-3 pt-3 border-t text-sm ${isLow ? 'border-amber-300' : 'border-blue-200'}`}>
+      {status === 'checking' && <p className="text-xs text-gray-500">Checking the translation...</p>}
+      {status === 'failed' && <p className="text-xs text-gray-500">Could not check the translation.</p>}
+      {comparison && (
+        <>
+          <p className={`flex items-center gap-1 text-xs font-medium ${isLow ? 'text-amber-700' : 'text-emerald-700'}`}>
+            {isLow ? <AlertTriangle className="w-3.5 h-3.5" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+            Round trip {Math.round(comparison.score * 100)}% similar
+            {isLow && ' · check before sending'}
+          </p>
+          <p className="mt-1 text-xs text-gray-500">Back in {languageName(language)}:</p>
+          <p {...textProps(language)} className={`text-gray-700 whitespace-pre-wrap ${scriptFontClass(language)}`}>
+            <Highlighted tokens={comparison.roundTrip} />
+          </p>
+          {isLow && (
+            <>
+              <p className="mt-1 text-xs text-gray-500">Lost from your reply:</p>
+              <p {...textProps(language)} className={`text-gray-700 whitespace-pre-wrap ${scriptFontClass(language)}`}>
+                <Highlighted tokens={comparison.original} />
+              </p>
+            </>
+          )}
+        </>
+      )}
+      {(isLow || provider) && providers.length > 1 && (
+        <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+          Translate with
+          <select
+            value={provider ?? ''}
+            onChange={(e) => onProviderChange((e.target.value as ProviderId) || null)}
+            className="px-2 py-1 rounded border border-gray-300 text-xs bg-white"
+          >
+            <option value="">Any provider</option>
+            {providers.map((id) => (
+              <option key={id} value={id}>
+                {translationSourceNames[id]}
+              </option>
+            ))}
+          </select>
+          or rephrase your reply
+        </label>
+      )}
+    </div>
+  );
+}
+
+export default BackTranslationCheck;
@@ -0,0 +1,119 @@
+import { Copy, Volume2 } from 'lucide-react';
+import { languageName, languages, scriptFontClass, textProps } from '../languages';
+import { SpokenWord } from '../speech/useSpeechSynthesis';
+import { joinSegments } from '../translation/segmentation';
+import { BroadcastSegment } from '../translation/useBroadcastTranslation';
+import SpokenText from './SpokenText';
+
+interface BroadcastPanelProps {
+  sourceLanguage: string;
+  targets: string[];
+  segments: BroadcastSegment[];
+  // The language whose pane is being read aloud, and the word being spoken
+  speakingLanguage: string | null;
+  spokenWord: SpokenWord | null;
+  onTargetsChange: (targets: string[]) => void;
+  onSpeak: (language: string, text: string) => void;
+  onCopy: (text: string) => void;
+}
+
+// Target language picker and one pane per target language for broadcast mode
+function BroadcastPanel({
+  sourceLanguage,
+  targets,
+  segments,
+  speakingLanguage,
+  spokenWord,
+  onTargetsChange,
+  onSpeak,
+  onCopy,
+}: BroadcastPanelProps) {
+  const toggle = (code: string) => {
+    onTargetsChange(targets.includes(code) ? targets.filter((t) => t !== code) : [...targets, code]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {languages
+          .filter((l) => l.code !== sourceLanguage)
+          .map((language) => (
+            <button
+              key={language.code}
+              onClick={() => toggle(language.code)}
+              aria-pressed={targets.includes(language.code)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                targets.includes(language.code)
+                  ? 'bg-teal-500 border-teal-500 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {language.name}
+            </button>
+          ))}
+      </div>
+
+      {targets.length === 0 ? (
+        <p className="text-sm text-gray-500">Pick the languages your listeners speak.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {targets.map((language) => {
+            const translations = segments.map((s) => s.translations[language]);
+            const text = joinSegments(
+              translations.filter((t) => t?.status === 'translated').map((t) => t.text),
+              language
+            );
+            const pending = translations.filter((t) => !t || t.status === 'pending' || t.status === 'translating').length;
+            const queued = translations.filter((t) => t?.status === 'queued').length;
+            const failed = translations.filter((t) => t?.status === 'failed').length;
+            const isSpeaking = speakingLanguage === language;
+
+            return (
+              <div key={language} className="bg-teal-50 rounded-lg p-4 border border-teal-200">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-gray-800">{languageName(language)}</h3>
+                  {text && (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => onCopy(text)}
+                        className="p-1 text-gray-500 hover:text-teal-600 transition-colors rounded"
+                        title="Copy to clipboard"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => onSpeak(language, text)}
+                        className={`p-1 transition-colors rounded ${
+                          isSpeaking ? 'text-teal-600' : 'text-gray-500 hover:text-teal-600'
+                        }`}
+                        title="Play audio"
+                        disabled={isSpeaking}
+                      >
+                        <Volume2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p
+                  {...(text ? textProps(language) : {})}
+                  className={`min-h-[80px] max-h-[240px] overflow-y-auto text-gray-800 text-sm whitespace-pre-wrap ${scriptFontClass(language)}`}
+                >
+                  {text ? <SpokenText text={text} word={isSpeaking ? spokenWord : null} /> : 'Translations will appear here...'}
+                </p>
+                {(pending > 0 || queued > 0 || failed > 0) && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {pending > 0 && <span>Translating {pending}...</span>}
+                    {queued > 0 && <span className="ml-2 text-amber-600">{queued} waiting for connection</span>}
+                    {failed > 0 && <span className="ml-2 text-red-500">{failed} failed</span>}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BroadcastPanel;
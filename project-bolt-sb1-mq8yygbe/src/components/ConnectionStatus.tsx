@@ -0,0 +1,43 @@
+import { Download, Wifi, WifiOff } from 'lucide-react';
+
+interface ConnectionStatusProps {
+  isOnline: boolean;
+  // Segments and turns waiting for the connection to come back
+  queuedCount: number;
+  canInstall: boolean;
+  onInstall: () => void;
+}
+
+function ConnectionStatus({ isOnline, queuedCount, canInstall, onInstall }: ConnectionStatusProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mt-3 text-sm">
+      {isOnline ? (
+        <span className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-emerald-100 text-emerald-700">
+          <Wifi className="w-4 h-4" />
+          Online
+          {queuedCount > 0 && <span className="text-emerald-600">· sending {queuedCount} queued</span>}
+        </span>
+      ) : (
+        <span
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-amber-100 text-amber-800"
+          title="Translations come from translation memory and the phrasebook until the connection is back"
+        >
+          <WifiOff className="w-4 h-4" />
+          Offline · memory and phrasebook only
+          {queuedCount > 0 && <span className="text-amber-700">· {queuedCount} queued</span>}
+        </span>
+      )}
+      {canInstall && (
+        <button
+          onClick={onInstall}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Install app
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ConnectionStatus;
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, Copy, Pencil, Trash2, Volume2, X } from 'lucide-react';
+import { Turn } from '../conversation/types';
+import { SpokenWord } from '../speech/useSpeechSynthesis';
+import { languageName, scriptFontClass, textProps } from '../languages';
+import { RedactionSettings } from '../privacy/settings';
+import { formatConfidence } from '../translation/detection';
+import RedactedText from './RedactedText';
+import SpokenText from './SpokenText';
+
+interface ConversationTimelineProps {
+  turns: Turn[];
+  // The turn whose translation is being read aloud, and the word being spoken
+  speakingId: string | null;
+  spokenWord: SpokenWord | null;
+  queuedIds: string[];
+  // Marks the values in source text that were masked before translation
+  redaction: RedactionSettings;
+  onCopy: (text: string) => void;
+  onSpeak: (turn: Turn) => void;
+  onDelete: (id: string) => void;
+  // Saves a corrected translation for the turn
+  onCorrect: (turn: Turn, translation: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function ConversationTimeline({
+  turns,
+  speakingId,
+  spokenWord,
+  queuedIds,
+  redaction,
+  onCopy,
+  onSpeak,
+  onDelete,
+  onCorrect,
+}: ConversationTimelineProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  const saveCorrection = (turn: Turn) => {
+    if (editing && editing.text.trim() && editing.text.trim() !== turn.translatedText) {
+      onCorrect(turn, editing.text.trim());
+    }
+    setEditing(null);
+  };
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns.length]);
+
+  if (turns.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-8">
+        No turns yet. Finished recordings and sent agent replies will appear here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-[500px] overflow-y-auto pr-1">
+      {turns.map((turn) => {
+        const isAgent = turn.speaker === 'agent';
+        return (
+          <div key={turn.id} className={`flex ${isAgent ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[80%] rounded-xl p-4 border ${
+                isAgent ? 'bg-purple-50 border-purple-200' : 'bg-blue-50 border-blue-200'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4 mb-2 text-xs text-gray-500">
+                <span className="font-medium">
+                  {isAgent ? 'Agent' : 'Customer'}
+                  {turn.author && ` (${turn.author})`} · {formatTime(turn.createdAt)}
+                  {turn.detectedLanguage && (
+                    <span
+                      className={`ml-2 ${
+                        turn.detectedLanguage.language === turn.sourceLanguage ? 'text-gray-400' : 'text-amber-600'
+                      }`}
+                      title="Detected spoken language"
+                    >
+                      Detected {languageName(turn.detectedLanguage.language)} · {formatConfidence(turn.detectedLanguage.confidence)}
+                    </span>
+                  )}
+                </span>
+                <button
+                  onClick={() => onDelete(turn.id)}
+                  className="p-1 text-gray-400 hover:text-red-500 transition-colors rounded"
+                  title="Delete turn"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+
+              <div className="flex items-start gap-2">
+                <p
+                  {...textProps(turn.sourceLanguage)}
+                  className={`flex-1 text-gray-800 whitespace-pre-wrap ${scriptFontClass(turn.sourceLanguage)}`}
+                >
+                  <RedactedText text={turn.sourceText} redaction={redaction} />
+                </p>
+                <button
+                  onClick={() => onCopy(turn.sourceText)}
+                  className="p-1 text-gray-400 hover:text-gray-700 transition-colors rounded"
+                  title="Copy to clipboard"
+                >
+                  <Copy className="w-3 h-3" />
+                </button>
+              </div>
+
+              {editing?.id === turn.id ? (
+                <div className="mt-2 pt-2 border-t border-gray-200 flex items-start gap-2">
+                  <textarea
+                    value={editing.text}
+                    onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                    {...textProps(turn.targetLanguage)}
+                    className={`flex-1 px-2 py-1 text-sm rounded border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none ${scriptFontClass(turn.targetLanguage)}`}
+                    rows={2}
+                    autoFocus
+                  />
+                  <button
+                    onClick={() => saveCorrection(turn)}
+                    className="p-1 text-gray-400 hover:text-emerald-600 transition-colors rounded"
+                    title="Save correction to translation memory"
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="p-1 text-gray-400 hover:text-gray-700 transition-colors rounded"
+                    title="Cancel"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                <div className="mt-2 pt-2 border-t border-gray-200 flex items-start gap-2">
+                  <p className="flex-1 text-sm text-gray-600 whitespace-pre-wrap">
+                    <span className="text-xs text-gray-400 mr-1">{languageName(turn.targetLanguage)}:</span>
+                    {turn.status === 'translating' && <span className="italic text-gray-400">Translating...</span>}
+                    {turn.status === 'queued' && (
+                      <span className="italic text-amber-600">Waiting for a connection to translate</span>
+                    )}
+                    {turn.status === 'failed' && <span className="italic text-red-500">Translation failed</span>}
+                    {turn.status === 'translated' && (
+                      // bdi keeps right-to-left translations from reordering the label before them
+                      <bdi {...textProps(turn.targetLanguage)} className={scriptFontClass(turn.targetLanguage)}>
+                        <SpokenText text={turn.translatedText} word={speakingId === turn.id ? spokenWord : null} />
+                      </bdi>
+                    )}
+                    {(turn.provider === 'memory' || turn.provider === 'phrasebook') && (
+                      <span className="ml-2 text-[10px] uppercase tracking-wide text-emerald-600">{turn.provider}</span>
+                    )}
+                  </p>
+                  {turn.status === 'translated' && turn.translatedText && (
+                    <>
+                      <button
+                        onClick={() => onCopy(turn.translatedText)}
+                        className="p-1 text-gray-400 hover:text-gray-700 transition-colors rounded"
+                        title="Copy to clipboard"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => onSpeak(turn)}
+                        className={`p-1 transition-colors rounded ${
+                          speakingId === turn.id ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-700'
+                        }`}
+                        title={queuedIds.includes(turn.id) ? 'Queued' : 'Play audio'}
+                        disabled={speakingId === turn.id || queuedIds.includes(turn.id)}
+                      >
+                        <Volume2 className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                  {turn.status !== 'translating' && (
+                    <button
+                      onClick={() => setEditing({ id: turn.id, text: turn.translatedText })}
+                      className="p-1 text-gray-400 hover:text-gray-700 transition-colors rounded"
+                      title="Correct translation"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
+
+export default ConversationTimeline;
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, Plus, Trash2, Upload } from 'lucide-react';
+import { languageName, languages } from '../languages';
+import { GlossaryEntry } from '../translation/glossary';
+import { glossaryFromCsv, glossaryFromTbx, glossaryToCsv, glossaryToTbx } from '../translation/glossaryFormats';
+import {
+  deleteGlossaryEntry,
+  importGlossaryEntries,
+  listGlossaryEntries,
+  saveGlossaryEntry,
+} from '../translation/glossaryStore';
+import { downloadFile } from '../utils/download';
+
+interface GlossaryPanelProps {
+  defaultFrom: string;
+  defaultTo: string;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  'px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function GlossaryPanel({ defaultFrom, defaultTo, onError }: GlossaryPanelProps) {
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [pair, setPair] = useState({ from: defaultFrom, to: defaultTo });
+  const [draft, setDraft] = useState({ term: '', translation: '', doNotTranslate: false });
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPair({ from: defaultFrom, to: defaultTo });
+  }, [defaultFrom, defaultTo]);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await listGlossaryEntries());
+    } catch (err) {
+      console.error('Failed to load glossary:', err);
+      onError('The glossary is unavailable in this browser.');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const persist = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      reload();
+    } catch (err) {
+      console.error('Failed to update glossary:', err);
+      onError(err instanceof Error ? err.message : 'Failed to update glossary.');
+    }
+  };
+
+  const addEntry = () =>
+    persist(async () => {
+      if (!draft.term.trim() || (!draft.doNotTranslate && !draft.translation.trim())) return;
+      await saveGlossaryEntry({ ...pair, term: draft.term.trim(), translation: draft.translation.trim(), doNotTranslate: draft.doNotTranslate });
+      setDraft({ term: '', translation: '', doNotTranslate: false });
+    });
+
+  const importFile = (file: File) =>
+    persist(async () => {
+      const content = await file.text();
+      const parsed = /\.(tbx|xml)$/i.test(file.name) ? glossaryFromTbx(content) : glossaryFromCsv(content);
+      const count = await importGlossaryEntries(parsed);
+      setNotice(`Imported ${count} glossary ${count === 1 ? 'entry' : 'entries'}.`);
+    });
+
+  const exportAs = (format: 'csv' | 'tbx') => {
+    if (format === 'csv') {
+      downloadFile(glossaryToCsv(entries), 'glossary.csv', 'text/csv');
+    } else {
+      downloadFile(glossaryToTbx(entries), 'glossary.tbx', 'application/x-tbx+xml');
+    }
+  };
+
+  // Entries for the reverse pair apply too, so show them alongside
+  const visible = entries.filter(
+    (e) => (e.from === pair.from && e.to === pair.to) || (e.from === pair.to && e.to === pair.from)
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Forced translations and do-not-translate terms are protected before text is sent to a provider. They apply to
+        customer speech and agent replies alike.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={pair.from} onChange={(e) => setPair({ ...pair, from: e.target.value })} className={inputClassName}>
+          {languages.map((lang) => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+        <span className="text-gray-400">→</span>
+        <select value={pair.to} onChange={(e) => setPair({ ...pair, to: e.target.value })} className={inputClassName}>
+          {languages.map((lang) => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+
+        <div className="flex-1" />
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white hover:bg-gray-100"
+        >
+          <Upload className="w-4 h-4" />
+          Import CSV/TBX
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tbx,.xml,text/csv,application/xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => exportAs('csv')}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+        <button
+          onClick={() => exportAs('tbx')}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          TBX
+        </button>
+      </div>
+
+      {notice && <p className="text-sm text-emerald-700">{notice}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+        <input
+          value={draft.term}
+          onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+          placeholder={`Term in ${languageName(pair.from)}`}
+          className={inputClassName}
+        />
+        <input
+          value={draft.doNotTranslate ? '' : draft.translation}
+          onChange={(e) => setDraft({ ...draft, translation: e.target.value })}
+          placeholder={draft.doNotTranslate ? 'Kept as is' : `Translation in ${languageName(pair.to)}`}
+          disabled={draft.doNotTranslate}
+          className={`${inputClassName} disabled:bg-gray-100`}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.doNotTranslate}
+            onChange={(e) => setDraft({ ...draft, doNotTranslate: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Do not translate
+        </label>
+        <button
+          onClick={addEntry}
+          disabled={!draft.term.trim() || (!draft.doNotTranslate && !draft.translation.trim())}
+          className="flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No glossary entries for {languageName(pair.from)} ↔ {languageName(pair.to)}.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-[300px] overflow-y-auto">
+          {visible.map((entry) => (
+            <li key={entry.id} className="py-2 flex items-center gap-3 text-sm">
+              <span className="shrink-0 text-xs text-gray-500 w-28">
+                {languageName(entry.from)} → {languageName(entry.to)}
+              </span>
+              <span className="flex-1 font-medium text-gray-800">{entry.term}</span>
+              <span className="flex-1 text-gray-600">
+                {entry.doNotTranslate ? (
+                  <span className="text-xs uppercase tracking-wide text-amber-600">do not translate</span>
+                ) : (
+                  entry.translation
+                )}
+              </span>
+              <button
+                onClick={() => persist(() => deleteGlossaryEntry(entry.id))}
+                className="p-1 text-gray-500 hover:text-red-500 rounded"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default GlossaryPanel;
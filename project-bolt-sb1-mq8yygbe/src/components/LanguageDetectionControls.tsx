@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { ScanSearch } from 'lucide-react';
+import { languageName } from '../languages';
+import { formatConfidence } from '../translation/detection';
+import { DetectedLanguage } from '../translation/types';
+
+export type DetectionMode = 'off' | 'suggest' | 'switch';
+
+interface LanguageDetectionControlsProps {
+  mode: DetectionMode;
+  isDetecting: boolean;
+  suggestion: DetectedLanguage | null;
+  onModeChange: (mode: DetectionMode) => void;
+  onDetectSample: (text: string) => void;
+  onAcceptSuggestion: (language: string) => void;
+  onDismissSuggestion: () => void;
+}
+
+function LanguageDetectionControls({
+  mode,
+  isDetecting,
+  suggestion,
+  onModeChange,
+  onDetectSample,
+  onAcceptSuggestion,
+  onDismissSuggestion,
+}: LanguageDetectionControlsProps) {
+  const [sample, setSample] = useState('');
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <ScanSearch className="w-4 h-4 text-gray-600" />
+          Auto-detect customer language:
+          <select
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as DetectionMode)}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-sm"
+          >
+            <option value="off">Off</option>
+            <option value="suggest">Suggest</option>
+            <option value="switch">Switch automatically</option>
+          </select>
+        </label>
+
+        {mode !== 'off' && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (sample.trim()) onDetectSample(sample);
+            }}
+          >
+            <input
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              placeholder="Or paste a sample the customer typed"
+              className="px-3 py-1.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm w-64"
+            />
+            <button
+              type="submit"
+              disabled={!sample.trim() || isDetecting}
+              className="px-3 py-1.5 text-sm rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white"
+            >
+              {isDetecting ? 'Detecting...' : 'Detect'}
+            </button>
+          </form>
+        )}
+      </div>
+
+      {suggestion && (
+        <div className="flex flex-wrap items-center justify-center gap-3 bg-amber-50 border border-amber-300 text-amber-800 px-4 py-2 rounded-lg text-sm">
+          <span>
+            The customer seems to be speaking <strong>{languageName(suggestion.language)}</strong> (
+            {formatConfidence(suggestion.confidence)} confidence).
+          </span>
+          <button
+            onClick={() => onAcceptSuggestion(suggestion.language)}
+            className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white"
+          >
+            Switch to {languageName(suggestion.language)}
+          </button>
+          <button onClick={onDismissSuggestion} className="px-3 py-1 rounded-lg hover:bg-amber-100">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LanguageDetectionControls;
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Languages, MicOff, VolumeX } from 'lucide-react';
+import { Language, languages, LocalePreferences, localeName, preferredLocale } from '../languages';
+
+interface LanguageSelectProps {
+  label: string;
+  code: string;
+  locale: string;
+  // The variant last picked for each language, offered again when it is chosen
+  preferences: LocalePreferences;
+  onChange: (code: string, locale: string) => void;
+}
+
+const matches = (language: Language, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [language.code, language.name, language.nativeName, ...language.variants.flatMap((v) => [v.locale, v.region])]
+    .some((value) => value.toLowerCase().includes(q));
+};
+
+// Searchable language picker that also offers each language's regional variants
+function LanguageSelect({ label, code, locale, preferences, onChange }: LanguageSelectProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  // Picking a language without a variant goes back to the variant last used for it
+  const choose = (language: Language, variantLocale = preferredLocale(language.code, preferences)) => {
+    onChange(language.code, variantLocale);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const results = languages.filter((l) => matches(l, query));
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-label={label}
+        aria-expanded={open}
+        className="flex items-center justify-between gap-2 px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white min-w-[200px] text-left"
+      >
+        <span>{localeName(locale)}</span>
+        <ChevronDown className="w-4 h-4 text-gray-500" />
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-72 bg-white rounded-lg shadow-lg border border-gray-200">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setOpen(false);
+              if (e.key === 'Enter' && results[0]) choose(results[0]);
+            }}
+            placeholder="Search languages or regions"
+            autoFocus
+            className="w-full px-3 py-2 border-b border-gray-200 rounded-t-lg text-sm focus:outline-none"
+          />
+          <ul className="max-h-72 overflow-y-auto py-1" role="listbox">
+            {results.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No languages match.</li>}
+            {results.map((language) => (
+              <li key={language.code}>
+                <button
+                  type="button"
+                  onClick={() => choose(language)}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left hover:bg-blue-50 ${
+                    language.code === code ? 'font-semibold text-blue-700' : 'text-gray-800'
+                  }`}
+                >
+                  <span className="flex-1">
+                    {language.name}
+                    <span className="ml-2 text-gray-400" dir={language.direction}>{language.nativeName}</span>
+                  </span>
+                  {language.supports.stt !== 'full' && (
+                    <MicOff
+                      className={`w-3 h-3 ${language.supports.stt === 'none' ? 'text-gray-400' : 'text-gray-300'}`}
+                      aria-label={language.supports.stt === 'none' ? 'No speech recognition' : 'Speech recognition in some browsers only'}
+                    />
+                  )}
+                  {language.supports.translation !== 'full' && (
+                    <Languages
+                      className={`w-3 h-3 ${language.supports.translation === 'none' ? 'text-gray-400' : 'text-gray-300'}`}
+                      aria-label={
+                        language.supports.translation === 'none' ? 'No translation' : 'Translated by some providers only'
+                      }
+                    />
+                  )}
+                  {language.supports.tts !== 'full' && (
+                    <VolumeX
+                      className={`w-3 h-3 ${language.supports.tts === 'none' ? 'text-gray-400' : 'text-gray-300'}`}
+                      aria-label={language.supports.tts === 'none' ? 'No speech output' : 'Speech output on some systems only'}
+                    />
+                  )}
+                </button>
+                {language.variants.length > 1 &&
+                  language.variants.map((variant) => (
+                    <button
+                      key={variant.locale}
+                      type="button"
+                      onClick={() => choose(language, variant.locale)}
+                      className={`w-full pl-8 pr-3 py-1 text-xs text-left hover:bg-blue-50 ${
+                        variant.locale === locale ? 'font-semibold text-blue-700' : 'text-gray-600'
+                      }`}
+                    >
+                      {variant.region} <span className="text-gray-400">{variant.locale}</span>
+                    </button>
+                  ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LanguageSelect;
@@ -0,0 +1,188 @@
+import { InputHTMLAttributes, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { RateLimit } from '../translation/rateLimit';
+import { ProviderSettings } from '../translation/settings';
+import { ProviderId, translationSourceNames } from '../translation/types';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+// The settings of a provider that are edited as text
+type TextKey<S> = { [K in keyof S]: S[K] extends string ? K : never }[keyof S] & string;
+
+interface ProviderField<S> {
+  key: TextKey<S>;
+  label: string;
+  type?: string;
+  placeholder?: string;
+  hint?: string;
+}
+
+const providerFields: { [P in ProviderId]: ProviderField<ProviderSettings[P]>[] } = {
+  mymemory: [
+    { key: 'url', label: 'Server URL' },
+    { key: 'email', label: 'Contact email (raises quota)', type: 'email' },
+  ],
+  libretranslate: [
+    { key: 'url', label: 'Server URL', placeholder: 'http://localhost:5000' },
+    { key: 'apiKey', label: 'API key', type: 'password' },
+  ],
+  deepl: [
+    {
+      key: 'url',
+      label: 'Proxy URL',
+      placeholder: 'https://deepl-proxy.example.com',
+      hint: 'DeepL does not accept requests from browsers. Enter a proxy that forwards /v2/translate to api.deepl.com or api-free.deepl.com.',
+    },
+    { key: 'apiKey', label: 'API key', type: 'password' },
+  ],
+  openai: [
+    { key: 'url', label: 'Base URL', placeholder: 'http://localhost:11434/v1' },
+    { key: 'apiKey', label: 'API key', type: 'password' },
+    { key: 'model', label: 'Model' },
+  ],
+};
+
+const inputClassName =
+  'mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+interface CommitInputProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+// Keeps what is typed to itself until the field loses focus or Enter is pressed. Every change of
+// settings builds a new translator, which starts its rate limits over and retranslates.
+function CommitInput({ value, onCommit, ...props }: CommitInputProps) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={inputClassName}
+    />
+  );
+}
+
+interface ConfigFieldsProps<S> {
+  config: S;
+  fields: ProviderField<S>[];
+  onChange: (config: S) => void;
+}
+
+function ConfigFields<S>({ config, fields, onChange }: ConfigFieldsProps<S>) {
+  return (
+    <>
+      {fields.map((field) => (
+        <label key={field.key} className="block text-xs font-medium text-gray-600">
+          {field.label}
+          <CommitInput
+            type={field.type || 'text'}
+            value={String(config[field.key])}
+            onCommit={(value) => onChange({ ...config, [field.key]: value })}
+            placeholder={field.placeholder}
+          />
+          {field.hint && <span className="mt-1 block font-normal text-gray-500">{field.hint}</span>}
+        </label>
+      ))}
+    </>
+  );
+}
+
+function ProviderSettingsPanel({ settings, onChange }: ProviderSettingsPanelProps) {
+  const move = (index: number, offset: number) => {
+    const order = [...settings.order];
+    const [id] = order.splice(index, 1);
+    order.splice(index + offset, 0, id);
+    onChange({ ...settings, order });
+  };
+
+  const toggle = (id: ProviderId) => {
+    onChange({ ...settings, enabled: { ...settings.enabled, [id]: !settings.enabled[id] } });
+  };
+
+  const configFields = <P extends ProviderId>(id: P) => (
+    <ConfigFields
+      config={settings[id]}
+      fields={providerFields[id]}
+      onChange={(config) => onChange({ ...settings, [id]: config })}
+    />
+  );
+
+  const updateRateLimit = (id: ProviderId, key: keyof RateLimit, value: string) => {
+    const limit = { ...settings.rateLimits[id], [key]: Math.max(0, Math.floor(Number(value) || 0)) };
+    onChange({ ...settings, rateLimits: { ...settings.rateLimits, [id]: limit } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Providers are tried from top to bottom. When one fails or is rate-limited, the next one is used.
+        Requests over a provider's limits wait their turn; 0 means unlimited.
+      </p>
+      {settings.order.map((id, index) => (
+        <div key={id} className="rounded-lg border border-gray-200 bg-white p-4">
+          <div className="flex items-center justify-between mb-3">
+            <label className="flex items-center gap-2 font-medium text-gray-800">
+              <input
+                type="checkbox"
+                checked={settings.enabled[id]}
+                onChange={() => toggle(id)}
+                className="rounded border-gray-300"
+              />
+              {translationSourceNames[id]}
+            </label>
+            <div className="flex gap-1">
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:text-blue-500 disabled:opacity-30 rounded"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === settings.order.length - 1}
+                className="p-1 text-gray-500 hover:text-blue-500 disabled:opacity-30 rounded"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {configFields(id)}
+            <label className="block text-xs font-medium text-gray-600">
+              Requests per minute
+              <CommitInput
+                type="number"
+                min={0}
+                value={String(settings.rateLimits[id].requestsPerMinute)}
+                onCommit={(value) => updateRateLimit(id, 'requestsPerMinute', value)}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Parallel requests
+              <CommitInput
+                type="number"
+                min={0}
+                value={String(settings.rateLimits[id].maxConcurrent)}
+                onCommit={(value) => updateRateLimit(id, 'maxConcurrent', value)}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,58 @@
+import { Mic } from 'lucide-react';
+
+interface PushToTalkButtonProps {
+  label: string;
+  isActive: boolean;
+  disabled?: boolean;
+  activeClassName: string;
+  idleClassName: string;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+// Records while the button is held down (pointer, Space or Enter)
+function PushToTalkButton({
+  label,
+  isActive,
+  disabled,
+  activeClassName,
+  idleClassName,
+  onStart,
+  onStop,
+}: PushToTalkButtonProps) {
+  const release = () => {
+    if (isActive) onStop();
+  };
+
+  return (
+    <button
+      disabled={disabled}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onStart();
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onKeyDown={(e) => {
+        if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+          e.preventDefault();
+          onStart();
+        }
+      }}
+      onKeyUp={(e) => {
+        if (e.key === ' ' || e.key === 'Enter') {
+          e.preventDefault();
+          release();
+        }
+      }}
+      className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium text-white shadow-lg select-none touch-none transition-all duration-200 disabled:opacity-50 ${
+        isActive ? `${activeClassName} scale-105` : idleClassName
+      }`}
+    >
+      <Mic className={`w-5 h-5 ${isActive ? 'animate-pulse' : ''}`} />
+      {isActive ? 'Listening...' : label}
+    </button>
+  );
+}
+
+export default PushToTalkButton;
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { languageName, languages, scriptFontClass, textProps } from '../languages';
+import { deleteQuickReply, QuickReplyDraft, saveQuickReply } from '../quickReplies/store';
+import { extractVariables } from '../quickReplies/template';
+import { QuickReply } from '../quickReplies/types';
+
+interface QuickReplyLibraryPanelProps {
+  replies: QuickReply[];
+  defaultLanguage: string;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  'px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm';
+
+const emptyDraft = (language: string): QuickReplyDraft => ({
+  category: '',
+  title: '',
+  language,
+  text: '',
+  translations: {},
+  shortcut: '',
+});
+
+function QuickReplyLibraryPanel({ replies, defaultLanguage, onChanged, onError }: QuickReplyLibraryPanelProps) {
+  const [draft, setDraft] = useState<QuickReplyDraft>(() => emptyDraft(defaultLanguage));
+
+  const persist = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChanged();
+    } catch (err) {
+      console.error('Failed to update quick replies:', err);
+      onError('Failed to update quick replies.');
+    }
+  };
+
+  const save = () =>
+    persist(async () => {
+      if (!draft.title.trim() || !draft.text.trim()) return;
+      const existing = replies.find((r) => r.id === draft.id);
+      // A shortcut belongs to one reply at a time
+      const clash = draft.shortcut && replies.find((r) => r.shortcut === draft.shortcut && r.id !== draft.id);
+      if (clash) {
+        await saveQuickReply({ ...clash, shortcut: '' }, clash);
+      }
+      await saveQuickReply({ ...draft, category: draft.category.trim() || 'General', title: draft.title.trim() }, existing);
+      setDraft(emptyDraft(defaultLanguage));
+    });
+
+  const categories = Array.from(new Set(replies.map((r) => r.category)));
+  const variables = extractVariables(draft.text);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Type <kbd className="px-1 rounded bg-gray-100">/</kbd> in the reply box to search, or press Alt and the shortcut digit.
+        Use <code className="px-1 rounded bg-gray-100">{'{name}'}</code> for values to fill in. Approved translations are
+        used instead of machine translation.
+      </p>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <input
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            placeholder="Category"
+            list="quick-reply-categories"
+            className={inputClassName}
+          />
+          <datalist id="quick-reply-categories">
+            {categories.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+          <input
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title"
+            className={inputClassName}
+          />
+          <select
+            value={draft.language}
+            onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+            className={inputClassName}
+          >
+            {languages.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+          <select
+            value={draft.shortcut ?? ''}
+            onChange={(e) => setDraft({ ...draft, shortcut: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">No shortcut</option>
+            {'123456789'.split('').map((digit) => (
+              <option key={digit} value={digit}>Alt+{digit}</option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={draft.text}
+          onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+          placeholder="Hello {name}, how can I help you today?"
+          {...textProps(draft.language)}
+          className={`${inputClassName} w-full resize-none ${scriptFontClass(draft.language)}`}
+          rows={2}
+        />
+        {variables.length > 0 && (
+          <p className="text-xs text-gray-500">Variables: {variables.map((v) => `{${v}}`).join(', ')}</p>
+        )}
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700">
+            Approved translations ({Object.values(draft.translations).filter((t) => t.trim()).length})
+          </summary>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+            {languages
+              .filter((lang) => lang.code !== draft.language)
+              .map((lang) => (
+                <label key={lang.code} className="block text-xs font-medium text-gray-600">
+                  {lang.name}
+                  <input
+                    value={draft.translations[lang.code] ?? ''}
+                    onChange={(e) =>
+                      setDraft({ ...draft, translations: { ...draft.translations, [lang.code]: e.target.value } })
+                    }
+                    className={`${inputClassName} mt-1 w-full`}
+                  />
+                </label>
+              ))}
+          </div>
+        </details>
+
+        <div className="flex justify-end gap-2">
+          {draft.id && (
+            <button
+              onClick={() => setDraft(emptyDraft(defaultLanguage))}
+              className="px-3 py-2 text-sm rounded-lg text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={save}
+            disabled={!draft.title.trim() || !draft.text.trim()}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            {draft.id ? 'Save changes' : 'Add quick reply'}
+          </button>
+        </div>
+      </div>
+
+      {replies.length === 0 ? (
+        <p className="text-sm text-gray-500">No quick replies yet.</p>
+      ) : (
+        categories.map((category) => (
+          <div key={category}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">{category}</h3>
+            <ul className="divide-y divide-gray-200">
+              {replies
+                .filter((r) => r.category === category)
+                .map((reply) => (
+                  <li key={reply.id} className="py-2 flex items-start gap-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-800">
+                        {reply.title}
+                        {reply.shortcut && <kbd className="ml-2 text-xs text-gray-400">Alt+{reply.shortcut}</kbd>}
+                      </p>
+                      <p className="text-gray-600 truncate">{reply.text}</p>
+                      <p className="text-xs text-gray-400">
+                        {languageName(reply.language)}
+                        {Object.keys(reply.translations).length > 0 &&
+                          ` · approved in ${Object.keys(reply.translations).map(languageName).join(', ')}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setDraft({ ...reply, shortcut: reply.shortcut ?? '' })}
+                      className="p-1 text-gray-500 hover:text-purple-500 rounded"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => persist(() => deleteQuickReply(reply.id))}
+                      className="p-1 text-gray-500 hover:text-red-500 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default QuickReplyLibraryPanel;
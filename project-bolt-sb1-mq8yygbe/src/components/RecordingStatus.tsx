@@ -0,0 +1,54 @@
+import { RecordingState } from '../speech/useSpeechRecognition';
+import { useAudioLevel } from '../speech/useAudioLevel';
+
+interface RecordingStatusProps {
+  state: RecordingState;
+  // The recognizer's microphone stream, metered while listening
+  stream: MediaStream | null;
+}
+
+const labels: Record<RecordingState, string> = {
+  idle: '',
+  starting: 'Starting...',
+  listening: 'Recording...',
+  paused: 'Paused',
+  restarting: 'Reconnecting...',
+  error: 'Microphone unavailable',
+};
+
+const styles: Record<RecordingState, { text: string; dot: string }> = {
+  idle: { text: '', dot: '' },
+  starting: { text: 'text-amber-600', dot: 'bg-amber-500 animate-pulse' },
+  listening: { text: 'text-red-500', dot: 'bg-red-500 animate-pulse' },
+  paused: { text: 'text-amber-600', dot: 'bg-amber-500' },
+  restarting: { text: 'text-amber-600', dot: 'bg-amber-500 animate-pulse' },
+  error: { text: 'text-gray-500', dot: 'bg-gray-400' },
+};
+
+const BARS = 10;
+
+// Recording state with a live input level meter; kept separate so level updates only re-render this
+function RecordingStatus({ state, stream }: RecordingStatusProps) {
+  const level = useAudioLevel(state === 'listening' ? stream : null);
+  if (state === 'idle') return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${styles[state].text}`}>
+      <div className={`w-3 h-3 rounded-full ${styles[state].dot}`}></div>
+      <span className="text-sm font-medium">{labels[state]}</span>
+      {state === 'listening' && (
+        <div className="flex items-end gap-0.5 h-4" title="Input level" aria-label="Input level">
+          {Array.from({ length: BARS }, (_, i) => (
+            <div
+              key={i}
+              className={`w-1 rounded-sm ${level * BARS > i ? (i >= BARS - 2 ? 'bg-red-500' : 'bg-emerald-500') : 'bg-gray-200'}`}
+              style={{ height: `${40 + (i * 60) / BARS}%` }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecordingStatus;
@@ -0,0 +1,37 @@
+import { findPii } from '../privacy/redaction';
+import { RedactionSettings } from '../privacy/settings';
+
+interface RedactedTextProps {
+  text: string;
+  redaction: RedactionSettings;
+}
+
+// Text with the values that providers only saw as placeholders marked
+function RedactedText({ text, redaction }: RedactedTextProps) {
+  const matches = redaction.enabled ? findPii(text, redaction) : [];
+  if (matches.length === 0) return <>{text}</>;
+
+  let position = 0;
+  const parts = matches.flatMap((match, i) => {
+    const before = text.slice(position, match.start);
+    position = match.end;
+    return [
+      before,
+      <mark
+        key={i}
+        className="bg-amber-100 text-inherit rounded px-0.5 border-b border-dashed border-amber-500"
+        title={`Masked before translation (${match.label})`}
+      >
+        {match.value}
+      </mark>,
+    ];
+  });
+  return (
+    <>
+      {parts}
+      {text.slice(position)}
+    </>
+  );
+}
+
+export default RedactedText;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DetectorId, detectorNames, maskText, ruleError } from '../privacy/redaction';
+import { RedactionSettings } from '../privacy/settings';
+
+interface RedactionSettingsPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+const SAMPLE_TEXT = 'Reach me at somchai@example.com or +66 81 234 5678, card 4111 1111 1111 1111';
+
+function RedactionSettingsPanel({ settings, onChange }: RedactionSettingsPanelProps) {
+  const [draft, setDraft] = useState({ name: '', pattern: '' });
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+
+  // Saving is blocked until the pattern compiles, so the agent never relies on a rule that masks nothing
+  const draftError = draft.pattern === '' ? null : ruleError(draft.pattern);
+  const canAdd = draft.name.trim() !== '' && draft.pattern !== '' && !draftError;
+
+  const addRule = () => {
+    if (!canAdd) return;
+    onChange({
+      ...settings,
+      customRules: [...settings.customRules, { id: crypto.randomUUID(), name: draft.name.trim(), pattern: draft.pattern }],
+    });
+    setDraft({ name: '', pattern: '' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Mask personal data before it is sent for translation, shared captions or account sync
+      </label>
+
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(detectorNames) as DetectorId[]).map((id) => (
+          <label key={id} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.detectors[id]}
+              onChange={(e) => onChange({ ...settings, detectors: { ...settings.detectors, [id]: e.target.checked } })}
+              className="rounded border-gray-300"
+            />
+            {detectorNames[id]}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2 items-center">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Rule name, e.g. Order number"
+          className={inputClassName}
+        />
+        <input
+          value={draft.pattern}
+          onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          placeholder="Regular expression, e.g. ORD-\d{6}"
+          className={`${inputClassName} font-mono`}
+        />
+        <button
+          onClick={addRule}
+          disabled={!canAdd}
+          className="flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add rule
+        </button>
+      </div>
+      {draftError && <p className="text-sm text-red-600">This is not a valid regular expression: {draftError}</p>}
+
+      {settings.customRules.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {settings.customRules.map((rule) => {
+            const error = ruleError(rule.pattern);
+            return (
+              <li key={rule.id} className="py-2 flex items-center gap-3 text-sm">
+                <span className="w-40 shrink-0 font-medium text-gray-800">{rule.name}</span>
+                <code className="flex-1 text-gray-600 break-all">{rule.pattern}</code>
+                {error && (
+                  <span className="text-xs text-red-600" title={error}>
+                    Invalid: {error}. Translation is paused until it is deleted.
+                  </span>
+                )}
+                <button
+                  onClick={() =>
+                    onChange({ ...settings, customRules: settings.customRules.filter((r) => r.id !== rule.id) })
+                  }
+                  className="p-1 text-gray-500 hover:text-red-500 rounded"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <label className="block text-xs font-medium text-gray-600">
+        Try it
+        <input value={sample} onChange={(e) => setSample(e.target.value)} className={`mt-1 ${inputClassName}`} />
+      </label>
+      <p className="text-sm text-gray-700">
+        <span className="text-xs text-gray-500">Masked: </span>
+        {maskText(sample, settings)}
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.unmaskedExports}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, unmaskedExports: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Keep personal data in exported transcripts (they are masked by default while masking is on)
+      </label>
+    </div>
+  );
+}
+
+export default RedactionSettingsPanel;
@@ -0,0 +1,168 @@
+import { KeyboardEvent, useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { scriptFontClass, textProps } from '../languages';
+import { QuickReply } from '../quickReplies/types';
+import {
+  approvedTranslationFor,
+  extractVariables,
+  fillTemplate,
+  matchesQuery,
+  replyTextFor,
+} from '../quickReplies/template';
+
+interface ReplyComposerProps {
+  value: string;
+  placeholder: string;
+  replies: QuickReply[];
+  // The language the agent writes in, and the one the reply is translated into
+  replyLanguage: string;
+  // Regional variant of the reply language, for the textarea's lang attribute
+  replyLocale: string;
+  targetLanguage: string;
+  onChange: (text: string) => void;
+  // Called when a quick reply is inserted, with its approved translation if it has one
+  onInsert: (text: string, approvedTranslation?: string) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Agent reply textarea with "/" search and Alt+<digit> shortcuts for quick replies
+function ReplyComposer({
+  value,
+  placeholder,
+  replies,
+  replyLanguage,
+  replyLocale,
+  targetLanguage,
+  onChange,
+  onInsert,
+}: ReplyComposerProps) {
+  const [highlighted, setHighlighted] = useState(0);
+  const [pending, setPending] = useState<{ reply: QuickReply; values: Record<string, string> } | null>(null);
+
+  const slashQuery = /^\/[^\n]*$/.test(value) ? value.slice(1) : null;
+  const suggestions = slashQuery === null ? [] : replies.filter((r) => matchesQuery(r, slashQuery)).slice(0, MAX_SUGGESTIONS);
+
+  const insert = (reply: QuickReply, values: Record<string, string>) => {
+    const approved = approvedTranslationFor(reply, targetLanguage);
+    onInsert(fillTemplate(replyTextFor(reply, replyLanguage), values), approved && fillTemplate(approved, values));
+    setPending(null);
+    setHighlighted(0);
+  };
+
+  const choose = (reply: QuickReply) => {
+    const variables = extractVariables(replyTextFor(reply, replyLanguage));
+    if (variables.length > 0) {
+      setPending({ reply, values: Object.fromEntries(variables.map((name) => [name, ''])) });
+    } else {
+      insert(reply, {});
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.altKey && /^\d$/.test(e.key)) {
+      const reply = replies.find((r) => r.shortcut === e.key);
+      if (reply) {
+        e.preventDefault();
+        choose(reply);
+      }
+      return;
+    }
+
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      choose(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onChange('');
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <textarea
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        {...textProps(replyLocale)}
+        className={`w-full h-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none ${scriptFontClass(replyLanguage)}`}
+        rows={3}
+      />
+
+      {suggestions.length > 0 && !pending && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-200 max-h-64 overflow-y-auto">
+          {suggestions.map((reply, i) => (
+            <li key={reply.id}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(reply)}
+                className={`w-full text-left px-3 py-2 text-sm flex items-start gap-2 ${
+                  i === highlighted ? 'bg-purple-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <MessageSquareText className="w-4 h-4 mt-0.5 text-purple-500 shrink-0" />
+                <span className="flex-1 min-w-0">
+                  <span className="font-medium text-gray-800">{reply.title}</span>
+                  <span className="ml-2 text-xs text-gray-400">{reply.category}</span>
+                  <span
+                    {...textProps(reply.translations[replyLanguage] ? replyLanguage : reply.language)}
+                    className="block truncate text-gray-500"
+                  >
+                    {replyTextFor(reply, replyLanguage)}
+                  </span>
+                </span>
+                {reply.shortcut && <kbd className="text-xs text-gray-400">Alt+{reply.shortcut}</kbd>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {slashQuery !== null && suggestions.length === 0 && replies.length > 0 && (
+        <p className="absolute left-0 mt-1 text-xs text-gray-500">No quick replies match "{slashQuery}".</p>
+      )}
+
+      {pending && (
+        <div className="absolute z-10 left-0 right-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-200 p-3 space-y-2">
+          <p className="text-sm font-medium text-gray-800">{pending.reply.title}</p>
+          {Object.keys(pending.values).map((name, i) => (
+            <label key={name} className="block text-xs font-medium text-gray-600">
+              {name}
+              <input
+                value={pending.values[name]}
+                autoFocus={i === 0}
+                onChange={(e) => setPending({ ...pending, values: { ...pending.values, [name]: e.target.value } })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') insert(pending.reply, pending.values);
+                  if (e.key === 'Escape') setPending(null);
+                }}
+                className="mt-1 w-full px-3 py-1.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+              />
+            </label>
+          ))}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPending(null)} className="px-3 py-1 text-sm rounded-lg text-gray-600 hover:bg-gray-100">
+              Cancel
+            </button>
+            <button
+              onClick={() => insert(pending.reply, pending.values)}
+              className="px-3 py-1 text-sm rounded-lg bg-purple-500 hover:bg-purple-600 text-white"
+            >
+              Insert
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReplyComposer;
@@ -0,0 +1,109 @@
+import { Copy, Users, X } from 'lucide-react';
+import { languageName } from '../languages';
+import { RoomStatus, RoomViewer } from '../room/types';
+
+interface RoomHostPanelProps {
+  relayUrl: string;
+  status: RoomStatus;
+  room: string | null;
+  link: string | null;
+  viewers: RoomViewer[];
+  onRelayUrlChange: (url: string) => void;
+  onOpen: () => void;
+  onClose: () => void;
+  onCopy: (text: string) => void;
+}
+
+const statusText: Record<RoomStatus, string> = {
+  idle: 'Not sharing',
+  connecting: 'Connecting to relay...',
+  open: 'Live',
+  closed: 'Disconnected from relay',
+  error: 'Relay unreachable',
+};
+
+function RoomHostPanel({
+  relayUrl,
+  status,
+  room,
+  link,
+  viewers,
+  onRelayUrlChange,
+  onOpen,
+  onClose,
+  onCopy,
+}: RoomHostPanelProps) {
+  const isActive = status === 'open' || status === 'connecting';
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Viewers who open the link see the live transcript translated into the language they pick, and can send
+        typed replies back. Start a relay with <code className="text-xs">npm run relay</code>.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-3">
+        <label className="text-sm font-medium text-gray-700">Relay:</label>
+        <input
+          value={relayUrl}
+          onChange={(e) => onRelayUrlChange(e.target.value)}
+          disabled={isActive}
+          className="flex-1 w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent text-sm disabled:bg-gray-100"
+        />
+        {isActive ? (
+          <button
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-gray-500 hover:bg-gray-600 text-white transition-colors"
+          >
+            <X className="w-4 h-4" />
+            End sharing
+          </button>
+        ) : (
+          <button
+            onClick={onOpen}
+            disabled={!relayUrl.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white transition-colors"
+          >
+            <Users className="w-4 h-4" />
+            Open room
+          </button>
+        )}
+      </div>
+
+      <p className={`text-sm ${status === 'open' ? 'text-emerald-600' : status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+        {statusText[status]}
+      </p>
+
+      {room && link && (
+        <div className="rounded-lg border border-teal-200 bg-teal-50 p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-600">Room code</span>
+            <span className="font-mono text-2xl tracking-widest text-gray-800">{room}</span>
+            <button
+              onClick={() => onCopy(link)}
+              className="ml-auto flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-white border border-gray-300 hover:bg-gray-100 transition-colors"
+              title={link}
+            >
+              <Copy className="w-3 h-3" />
+              Copy link
+            </button>
+          </div>
+          <div className="text-sm text-gray-700">
+            {viewers.length === 0 ? (
+              'No viewers yet.'
+            ) : (
+              <ul className="flex flex-wrap gap-2">
+                {viewers.map((viewer) => (
+                  <li key={viewer.id} className="px-2 py-0.5 rounded-full bg-white border border-teal-200">
+                    {viewer.name} · {languageName(viewer.language)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RoomHostPanel;
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { LogIn, Radio, Send } from 'lucide-react';
+import { baseLanguage, findLanguage, languageName, languages, scriptFontClass, textProps } from '../languages';
+import { DEFAULT_RELAY_URL } from '../room/types';
+import { useViewerRoom } from '../room/useViewerRoom';
+
+interface RoomViewerProps {
+  room: string;
+  relayUrl?: string;
+}
+
+const browserLanguage = () => {
+  const code = baseLanguage(navigator.language || 'en');
+  return findLanguage(code) ? code : 'en';
+};
+
+// Page for remote participants: live captions of the host's session in the viewer's language
+function RoomViewer({ room, relayUrl = DEFAULT_RELAY_URL }: RoomViewerProps) {
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState(browserLanguage);
+  const [reply, setReply] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const viewer = useViewerRoom({ relayUrl, room, name: name.trim() || 'Guest', language });
+  const { captions } = viewer;
+  const segmentCount = captions?.segments.length ?? 0;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [segmentCount]);
+
+  const sendReply = () => {
+    if (viewer.sendReply(reply)) setReply('');
+  };
+
+  const showsOriginal = captions?.sourceLanguage === language;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 mb-1 flex items-center justify-center gap-2">
+            <Radio className="w-7 h-7 text-teal-500" />
+            Live Captions
+          </h1>
+          <p className="text-gray-600">Room {room}</p>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-4 mb-6 border border-white/20 flex flex-col sm:flex-row items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">Captions in:</label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className="px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent bg-white"
+          >
+            {languages.map((l) => (
+              <option key={l.code} value={l.code}>{l.name}</option>
+            ))}
+          </select>
+          {viewer.status === 'open' ? (
+            <span className="sm:ml-auto text-sm text-emerald-600">Connected as {name.trim() || 'Guest'}</span>
+          ) : (
+            <>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+                className="flex-1 w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              <button
+                onClick={viewer.join}
+                disabled={viewer.status === 'connecting'}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white transition-colors"
+              >
+                <LogIn className="w-4 h-4" />
+                {viewer.status === 'connecting' ? 'Joining...' : 'Join'}
+              </button>
+            </>
+          )}
+        </div>
+
+        {viewer.error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-6">{viewer.error}</div>
+        )}
+
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 mb-6 border border-white/20">
+          <div className="min-h-[300px] max-h-[60vh] overflow-y-auto space-y-2">
+            {segmentCount === 0 && !captions?.interim && (
+              <p className="text-gray-500">
+                {viewer.status === 'open' ? 'Waiting for the speaker...' : 'Join the room to see live captions.'}
+              </p>
+            )}
+            {captions?.segments.map((segment) => {
+              const translation = showsOriginal ? segment.text : segment.translations[language];
+              return translation ? (
+                <p
+                  key={segment.id}
+                  {...textProps(language)}
+                  className={`text-lg text-gray-800 ${scriptFontClass(language)}`}
+                >
+                  {translation}
+                </p>
+              ) : (
+                <p
+                  key={segment.id}
+                  {...textProps(captions.sourceLanguage)}
+                  className={`text-lg text-gray-400 ${scriptFontClass(captions.sourceLanguage)}`}
+                  title={`Translating into ${languageName(language)}...`}
+                >
+                  {segment.text}
+                </p>
+              );
+            })}
+            {captions?.interim && (
+              <p
+                {...textProps(captions.sourceLanguage)}
+                className={`text-gray-400 italic ${scriptFontClass(captions.sourceLanguage)}`}
+              >
+                {captions.interim}
+              </p>
+            )}
+            <div ref={bottomRef} />
+          </div>
+        </div>
+
+        {viewer.status === 'open' && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-white/20">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reply to the speaker in {languageName(language)}:
+            </label>
+            <div className="flex gap-2">
+              <textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    sendReply();
+                  }
+                }}
+                {...textProps(language)}
+                className={`flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none ${scriptFontClass(language)}`}
+                rows={2}
+              />
+              <button
+                onClick={sendReply}
+                disabled={!reply.trim()}
+                className="px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+                title="Send reply"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RoomViewer;
@@ -0,0 +1,51 @@
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { SessionSummary } from '../conversation/types';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  currentId?: string;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function SessionList({ sessions, currentId, onOpen, onDelete }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500">No saved sessions yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 max-h-[300px] overflow-y-auto">
+      {sessions.map((s) => (
+        <li key={s.id} className="flex items-center justify-between gap-4 py-2">
+          <div className="min-w-0">
+            <p className={`truncate font-medium ${s.id === currentId ? 'text-indigo-700' : 'text-gray-800'}`}>
+              {s.name}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(s.updatedAt).toLocaleString()} · {s.turnCount} {s.turnCount === 1 ? 'turn' : 'turns'}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <button
+              onClick={() => onOpen(s.id)}
+              disabled={s.id === currentId}
+              className="p-2 text-gray-500 hover:text-indigo-600 disabled:opacity-30 transition-colors rounded-lg hover:bg-indigo-50"
+              title="Open session"
+            >
+              <FolderOpen className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(s.id)}
+              className="p-2 text-gray-500 hover:text-red-500 transition-colors rounded-lg hover:bg-red-50"
+              title="Delete session"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default SessionList;
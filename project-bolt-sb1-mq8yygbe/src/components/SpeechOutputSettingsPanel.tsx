@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { languages } from '../languages';
+import {
+  SynthesisSettings,
+  VoiceSettings,
+  voiceSettingsFor,
+  voicesForLanguage,
+} from '../speech/synthesisSettings';
+
+interface SpeechOutputSettingsPanelProps {
+  settings: SynthesisSettings;
+  voices: SpeechSynthesisVoice[];
+  defaultLanguage: string;
+  onChange: (settings: SynthesisSettings) => void;
+  onTest: (text: string, language: string) => void;
+}
+
+const sliders: { key: Exclude<keyof VoiceSettings, 'voiceURI'>; label: string; min: number; max: number; step: number }[] = [
+  { key: 'rate', label: 'Rate', min: 0.5, max: 2, step: 0.1 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.1 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 },
+];
+
+const sampleText: Record<string, string> = {
+  en: 'Hello, how can I help you today?',
+  th: 'สวัสดีครับ มีอะไรให้ช่วยไหมครับ',
+  es: 'Hola, ¿en qué puedo ayudarle hoy?',
+};
+
+function SpeechOutputSettingsPanel({ settings, voices, defaultLanguage, onChange, onTest }: SpeechOutputSettingsPanelProps) {
+  const [language, setLanguage] = useState(defaultLanguage);
+  const voiceSettings = voiceSettingsFor(settings, language);
+  const available = voicesForLanguage(voices, language);
+
+  const update = (patch: Partial<VoiceSettings>) => {
+    onChange({ ...settings, voices: { ...settings.voices, [language]: { ...voiceSettings, ...patch } } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+        <input
+          type="checkbox"
+          checked={settings.autoSpeak}
+          onChange={(e) => onChange({ ...settings, autoSpeak: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Read every translation aloud automatically
+      </label>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="block text-xs font-medium text-gray-600">
+            Language
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm bg-white"
+            >
+              {languages.map((lang) => (
+                <option key={lang.code} value={lang.code}>{lang.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs font-medium text-gray-600">
+            Voice
+            <select
+              value={voiceSettings.voiceURI}
+              onChange={(e) => update({ voiceURI: e.target.value })}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm bg-white"
+            >
+              <option value="">Browser default</option>
+              {available.map((voice) => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>
+                  {voice.name} ({voice.lang}){voice.localService ? '' : ' · online'}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {available.length === 0 && (
+          <p className="text-xs text-amber-600">No voices for this language are installed; the browser will pick one.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {sliders.map(({ key, label, min, max, step }) => (
+            <label key={key} className="block text-xs font-medium text-gray-600">
+              {label}: {voiceSettings[key].toFixed(2)}
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={voiceSettings[key]}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                className="mt-1 w-full"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => onTest(sampleText[language] ?? sampleText.en, language)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white text-sm"
+          >
+            <Volume2 className="w-4 h-4" />
+            Test voice
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SpeechOutputSettingsPanel;
@@ -0,0 +1,42 @@
+import { Pause, Play, SkipForward, Square, Volume2 } from 'lucide-react';
+import { languageName } from '../languages';
+import { SpeechItem } from '../speech/useSpeechSynthesis';
+
+interface SpeechPlaybackControlsProps {
+  current: SpeechItem | null;
+  queued: number;
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+function SpeechPlaybackControls({ current, queued, isPaused, onPause, onResume, onSkip, onStop }: SpeechPlaybackControlsProps) {
+  if (!current && queued === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-indigo-700">
+      <Volume2 className={`w-4 h-4 ${current && !isPaused ? 'animate-pulse' : ''}`} />
+      <span>
+        {current ? `${isPaused ? 'Paused' : 'Speaking'} ${languageName(current.language)}` : 'Waiting'}
+        {queued > 0 && ` · ${queued} queued`}
+      </span>
+      <button
+        onClick={isPaused ? onResume : onPause}
+        className="p-1 rounded hover:bg-indigo-100"
+        title={isPaused ? 'Resume' : 'Pause'}
+      >
+        {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </button>
+      <button onClick={onSkip} className="p-1 rounded hover:bg-indigo-100" title="Skip">
+        <SkipForward className="w-4 h-4" />
+      </button>
+      <button onClick={onStop} className="p-1 rounded hover:bg-indigo-100" title="Stop and clear queue">
+        <Square className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default SpeechPlaybackControls;
@@ -0,0 +1,146 @@
+import { isEngineAvailable } from '../speech/recognizer';
+import { SpeechSettings } from '../speech/settings';
+import { HttpTranscriberConfig, TranscriberId, transcriberNames } from '../speech/transcription';
+import { SpeechEngineId, speechEngineNames } from '../speech/types';
+import { isWebSocketUrl } from '../speech/websocketRecognizer';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+}
+
+const inputClassName =
+  'mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function SpeechSettingsPanel({ settings, onChange }: SpeechSettingsPanelProps) {
+  const updateWebSocket = (key: keyof SpeechSettings['websocket'], value: string) => {
+    onChange({ ...settings, websocket: { ...settings.websocket, [key]: value } });
+  };
+
+  const { fileTranscription } = settings;
+  const updateTranscription = (patch: Partial<SpeechSettings['fileTranscription']>) => {
+    onChange({ ...settings, fileTranscription: { ...fileTranscription, ...patch } });
+  };
+  const updateHttp = (key: keyof HttpTranscriberConfig, value: string) => {
+    updateTranscription({ http: { ...fileTranscription.http, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(speechEngineNames) as SpeechEngineId[]).map((engine) => (
+          <label key={engine} className="flex items-center gap-2 text-sm font-medium text-gray-800">
+            <input
+              type="radio"
+              name="speech-engine"
+              checked={settings.engine === engine}
+              onChange={() => onChange({ ...settings, engine })}
+            />
+            {speechEngineNames[engine]}
+          </label>
+        ))}
+      </div>
+
+      {(settings.engine === 'websocket' || fileTranscription.engine === 'websocket') && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="block text-xs font-medium text-gray-600">
+            Server URL
+            <input
+              value={settings.websocket.url}
+              onChange={(e) => updateWebSocket('url', e.target.value)}
+              placeholder="ws://localhost:5100"
+              className={inputClassName}
+            />
+            {settings.websocket.url && !isWebSocketUrl(settings.websocket.url) && (
+              <span className="mt-1 block text-amber-600">Use a ws:// or wss:// address.</span>
+            )}
+          </label>
+          <label className="block text-xs font-medium text-gray-600">
+            API key
+            <input
+              type="password"
+              value={settings.websocket.apiKey}
+              onChange={(e) => updateWebSocket('apiKey', e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Finish a turn after
+        <input
+          type="number"
+          min={0}
+          max={30}
+          value={settings.silenceTimeoutSeconds}
+          onChange={(e) => onChange({ ...settings, silenceTimeoutSeconds: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-16 px-2 py-1 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        seconds without new words recognized (0 = off)
+      </label>
+
+      {!isEngineAvailable(settings) && (
+        <p className="text-sm text-amber-600">
+          {settings.engine === 'browser'
+            ? 'This browser has no built-in speech recognition. Use a speech server instead.'
+            : 'Enter the speech server URL. Microphone capture must be available.'}
+        </p>
+      )}
+
+      <div className="pt-3 border-t border-gray-200 space-y-3">
+        <p className="text-sm font-medium text-gray-800">Uploaded recordings</p>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(transcriberNames) as TranscriberId[]).map((engine) => (
+            <label key={engine} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="file-transcriber"
+                checked={fileTranscription.engine === engine}
+                onChange={() => updateTranscription({ engine })}
+              />
+              {transcriberNames[engine]}
+            </label>
+          ))}
+        </div>
+        {fileTranscription.engine === 'http' ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-gray-600">
+              API URL
+              <input
+                value={fileTranscription.http.url}
+                onChange={(e) => updateHttp('url', e.target.value)}
+                placeholder="https://api.openai.com/v1"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              API key
+              <input
+                type="password"
+                value={fileTranscription.http.apiKey}
+                onChange={(e) => updateHttp('apiKey', e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              Model
+              <input
+                value={fileTranscription.http.model}
+                onChange={(e) => updateHttp('model', e.target.value)}
+                placeholder="whisper-1"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        ) : (
+          !settings.websocket.url && (
+            <p className="text-sm text-amber-600">Enter the speech server URL above to send recordings to it.</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,20 @@
+import { SpokenWord } from '../speech/useSpeechSynthesis';
+
+interface SpokenTextProps {
+  text: string;
+  // The word being read aloud, if this text is playing
+  word?: SpokenWord | null;
+}
+
+function SpokenText({ text, word }: SpokenTextProps) {
+  if (!word || word.end <= word.start) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, word.start)}
+      <mark className="bg-yellow-200 rounded px-0.5">{text.slice(word.start, word.end)}</mark>
+      {text.slice(word.end)}
+    </>
+  );
+}
+
+export default SpokenText;
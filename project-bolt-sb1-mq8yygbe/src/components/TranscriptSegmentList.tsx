@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Check, ShieldCheck, Trash2, X } from 'lucide-react';
+import { findPii } from '../privacy/redaction';
+import { RedactionSettings } from '../privacy/settings';
+import { formatConfidence } from '../translation/detection';
+import { TranscriptSegment } from '../translation/useIncrementalTranslation';
+import { isLowConfidence, tokenizeByConfidence } from '../speech/confidence';
+
+interface TranscriptSegmentListProps {
+  segments: TranscriptSegment[];
+  wordSpacing: boolean;
+  redaction: RedactionSettings;
+  onUpdate: (id: string, text: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// The recognized transcript, where each segment can be clicked to pick an alternative or edit it
+function TranscriptSegmentList({ segments, wordSpacing, redaction, onUpdate, onRemove }: TranscriptSegmentListProps) {
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  const save = (id: string, text: string) => {
+    const segment = segments.find((s) => s.id === id);
+    if (text.trim() && segment && text.trim() !== segment.text.trim()) {
+      onUpdate(id, text);
+    }
+    setEditing(null);
+  };
+
+  const editingSegment = editing && segments.find((s) => s.id === editing.id);
+
+  return (
+    <>
+      {segments.map((segment) => {
+        const masked = redaction.enabled ? findPii(segment.text, redaction) : [];
+        return (
+          <span key={segment.id}>
+            <span
+              role="button"
+              tabIndex={0}
+              onClick={() => setEditing({ id: segment.id, text: segment.text.trim() })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') setEditing({ id: segment.id, text: segment.text.trim() });
+              }}
+              className={`cursor-pointer rounded hover:bg-blue-100 ${editing?.id === segment.id ? 'bg-blue-100' : ''}`}
+              title={
+                segment.confidence !== undefined
+                  ? `Confidence ${formatConfidence(segment.confidence)}. Click to correct`
+                  : 'Click to correct'
+              }
+            >
+              {tokenizeByConfidence(segment.text, segment.confidence, segment.alternatives).map((token, i) =>
+                token.uncertain ? (
+                  <span key={i} className="underline decoration-amber-400 decoration-wavy">
+                    {token.text}
+                  </span>
+                ) : (
+                  token.text
+                )
+              )}
+            </span>
+            {masked.length > 0 && (
+              <span title={`Masked before translation: ${masked.map((m) => m.label).join(', ')}`}>
+                <ShieldCheck className="inline w-3.5 h-3.5 ml-0.5 text-amber-600" />
+              </span>
+            )}
+            {wordSpacing ? ' ' : ''}
+          </span>
+        );
+      })}
+
+      {editing && editingSegment && (
+        <span className="block mt-3 p-3 rounded-lg bg-white border border-gray-200 space-y-2 not-italic">
+          {editingSegment.alternatives && editingSegment.alternatives.length > 0 && (
+            <span className="flex flex-wrap gap-2">
+              {editingSegment.alternatives.map((alternative) => (
+                <button
+                  key={alternative.transcript}
+                  onClick={() => save(editing.id, alternative.transcript)}
+                  className="px-2 py-1 text-sm rounded-lg border border-gray-300 hover:bg-blue-50 hover:border-blue-300"
+                >
+                  {alternative.transcript.trim()}
+                  {alternative.confidence !== undefined && (
+                    <span className="ml-1 text-xs text-gray-400">{formatConfidence(alternative.confidence)}</span>
+                  )}
+                </button>
+              ))}
+            </span>
+          )}
+          <span className="flex items-start gap-2">
+            <textarea
+              value={editing.text}
+              onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  save(editing.id, editing.text);
+                }
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              rows={2}
+              autoFocus
+            />
+            <button
+              onClick={() => save(editing.id, editing.text)}
+              className="p-1 text-gray-400 hover:text-emerald-600 transition-colors rounded"
+              title="Save and translate again"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                onRemove(editing.id);
+                setEditing(null);
+              }}
+              className="p-1 text-gray-400 hover:text-red-500 transition-colors rounded"
+              title="Remove segment"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="p-1 text-gray-400 hover:text-gray-700 transition-colors rounded"
+              title="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </span>
+          {isLowConfidence(editingSegment.confidence) && (
+            <span className="block text-xs text-amber-600">
+              Low recognition confidence ({formatConfidence(editingSegment.confidence ?? 0)})
+            </span>
+          )}
+        </span>
+      )}
+    </>
+  );
+}
+
+export default TranscriptSegmentList;
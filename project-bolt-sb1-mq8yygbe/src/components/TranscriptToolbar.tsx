@@ -0,0 +1,71 @@
+import { useRef } from 'react';
+import { Download, RefreshCw, Upload } from 'lucide-react';
+import { ExportFormat, exportFormats } from '../conversation/transcriptFormats';
+
+interface TranscriptToolbarProps {
+  canExport: boolean;
+  isRetranslating: boolean;
+  retranslateLabel: string;
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  onRetranslate: () => void;
+}
+
+function TranscriptToolbar({
+  canExport,
+  isRetranslating,
+  retranslateLabel,
+  onExport,
+  onImport,
+  onRetranslate,
+}: TranscriptToolbarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Download className="w-4 h-4 text-gray-500" />
+      {exportFormats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={!canExport}
+          className="px-2 py-1 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          title={`Export as ${label}`}
+        >
+          {label}
+        </button>
+      ))}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 transition-colors"
+        title="Import a JSON session export"
+      >
+        <Upload className="w-3 h-3" />
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+
+      <button
+        onClick={onRetranslate}
+        disabled={!canExport || isRetranslating}
+        className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-40 transition-colors"
+      >
+        <RefreshCw className={`w-3 h-3 ${isRetranslating ? 'animate-spin' : ''}`} />
+        {retranslateLabel}
+      </button>
+    </div>
+  );
+}
+
+export default TranscriptToolbar;
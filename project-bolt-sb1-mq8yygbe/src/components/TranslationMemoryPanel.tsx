@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+import { languageName, languages, LocalePreferences, localeName, preferredLocale } from '../languages';
+import { clearTranslationCache, countCachedTranslations, MAX_CACHE_ENTRIES } from '../translation/cache';
+import { deleteMemoryEntry, listMemoryEntries, MemoryEntry, saveMemoryEntry } from '../translation/memory';
+
+interface TranslationMemoryPanelProps {
+  defaultFrom: string;
+  defaultTo: string;
+  // New entries are saved for the variant picked for their target language
+  localePreferences: LocalePreferences;
+  // Bumped by the parent when entries are saved elsewhere
+  version: number;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  'px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function TranslationMemoryPanel({ defaultFrom, defaultTo, localePreferences, version, onError }: TranslationMemoryPanelProps) {
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [cacheCount, setCacheCount] = useState(0);
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState({ from: defaultFrom, to: defaultTo, source: '', target: '' });
+  const [editing, setEditing] = useState<{ id: string; source: string; target: string } | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await listMemoryEntries());
+      setCacheCount(await countCachedTranslations());
+    } catch (err) {
+      console.error('Failed to load translation memory:', err);
+      onError('Translation memory is unavailable in this browser.');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, version]);
+
+  const persist = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      reload();
+    } catch (err) {
+      console.error('Failed to update translation memory:', err);
+      onError('Failed to update translation memory.');
+    }
+  };
+
+  const addEntry = () =>
+    persist(async () => {
+      if (!draft.source.trim() || !draft.target.trim()) return;
+      await saveMemoryEntry(draft.from, draft.to, draft.source, draft.target, preferredLocale(draft.to, localePreferences));
+      setDraft({ ...draft, source: '', target: '' });
+    });
+
+  const saveEdit = (entry: MemoryEntry) =>
+    persist(async () => {
+      if (!editing || !editing.source.trim() || !editing.target.trim()) return;
+      // The source text is part of the lookup key, so an edited source replaces the entry
+      await deleteMemoryEntry(entry.id);
+      await saveMemoryEntry(entry.from, entry.to, editing.source, editing.target, entry.toLocale);
+      setEditing(null);
+    });
+
+  const removeEntry = (id: string) => persist(() => deleteMemoryEntry(id));
+
+  const clearCache = () => persist(clearTranslationCache);
+
+  const needle = query.trim().toLocaleLowerCase();
+  const visible = needle
+    ? entries.filter((e) => e.source.toLocaleLowerCase().includes(needle) || e.target.toLocaleLowerCase().includes(needle))
+    : entries;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Saved translations are used before any provider is called. Correct a translation in the conversation to add it here.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[auto_auto_1fr_1fr_auto] gap-2">
+        <select value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className={inputClassName}>
+          {languages.map((lang) => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+        <select value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className={inputClassName}>
+          {languages.map((lang) => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+        <input
+          value={draft.source}
+          onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+          placeholder="Source text"
+          className={inputClassName}
+        />
+        <input
+          value={draft.target}
+          onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+          placeholder="Approved translation"
+          className={inputClassName}
+        />
+        <button
+          onClick={addEntry}
+          disabled={!draft.source.trim() || !draft.target.trim()}
+          className="flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search translation memory"
+          className={`${inputClassName} w-full pl-9`}
+        />
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved translations.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-[300px] overflow-y-auto">
+          {visible.map((entry) => (
+            <li key={entry.id} className="py-2 flex items-start gap-3">
+              <span className="shrink-0 text-xs text-gray-500 w-28 pt-1">
+                {languageName(entry.from)} → {entry.toLocale ? localeName(entry.toLocale) : languageName(entry.to)}
+              </span>
+              {editing?.id === entry.id ? (
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <input
+                    value={editing.source}
+                    onChange={(e) => setEditing({ ...editing, source: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    value={editing.target}
+                    onChange={(e) => setEditing({ ...editing, target: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              ) : (
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-800">
+                  <span>{entry.source}</span>
+                  <span className="text-gray-600">{entry.target}</span>
+                </div>
+              )}
+              <div className="flex gap-1 shrink-0">
+                {editing?.id === entry.id ? (
+                  <>
+                    <button onClick={() => saveEdit(entry)} className="p-1 text-gray-500 hover:text-emerald-600 rounded" title="Save">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditing(null)} className="p-1 text-gray-500 hover:text-gray-800 rounded" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setEditing({ id: entry.id, source: entry.source, target: entry.target })}
+                      className="p-1 text-gray-500 hover:text-blue-500 rounded"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => removeEntry(entry.id)} className="p-1 text-gray-500 hover:text-red-500 rounded" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between pt-2 border-t border-gray-200 text-sm text-gray-600">
+        <span>
+          Translation cache: {cacheCount} of {MAX_CACHE_ENTRIES} entries (least recently used are evicted first)
+        </span>
+        <button
+          onClick={clearCache}
+          disabled={cacheCount === 0}
+          className="px-3 py-1 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-40"
+        >
+          Clear cache
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TranslationMemoryPanel;
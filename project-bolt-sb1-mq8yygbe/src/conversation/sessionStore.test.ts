@@ -0,0 +1,47 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadSession, saveSession } from './sessionStore';
+import { Session, Turn, TurnStatus } from './types';
+
+const turn = (sourceText: string, status: TurnStatus): Turn => ({
+  id: crypto.randomUUID(),
+  speaker: 'customer',
+  sourceText,
+  translatedText: status === 'translated' ? `[en] ${sourceText}` : '',
+  status,
+  sourceLanguage: 'th',
+  targetLanguage: 'en',
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadSession', () => {
+  it('marks turns saved mid-translation as failed so they can be retried', async () => {
+    const session: Session = {
+      id: crypto.randomUUID(),
+      name: 'Interrupted',
+      inputLanguage: 'th',
+      outputLanguage: 'en',
+      turns: [turn('สวัสดี', 'translated'), turn('ขอบคุณ', 'translating'), turn('ลาก่อน', 'queued')],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    await saveSession(session);
+
+    const loaded = await loadSession(session.id);
+
+    expect(loaded?.turns.map((t) => t.status)).toEqual(['translated', 'failed', 'queued']);
+  });
+
+  it('resolves with undefined for an unknown session', async () => {
+    await expect(loadSession('missing')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { deleteRecord, getAllRecords, getRecord, putRecord } from '../storage/db';
+import { currentOwnerFields, isOwnedByCurrentAgent } from '../storage/owner';
+import { Session, SessionSummary } from './types';
+
+export const createSession = (inputLanguage: string, outputLanguage: string, name?: string): Session => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    ...currentOwnerFields(),
+    name: name || `Session ${new Date(now).toLocaleString()}`,
+    inputLanguage,
+    outputLanguage,
+    turns: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const summarizeSession = (session: Session): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  turnCount: session.turns.length,
+});
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await getAllRecords<Session>('sessions');
+  return sessions.filter(isOwnedByCurrentAgent).map(summarizeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// A turn saved mid-translation was cut off by a reload or crash and will not finish by itself
+const settleInterruptedTurns = (session: Session): Session =>
+  session.turns.some((t) => t.status === 'translating')
+    ? { ...session, turns: session.turns.map((t) => (t.status === 'translating' ? { ...t, status: 'failed' } : t)) }
+    : session;
+
+export const loadSession = async (id: string) => {
+  const session = await getRecord<Session>('sessions', id);
+  return session && settleInterruptedTurns(session);
+};
+
+export const saveSession = (session: Session) => putRecord('sessions', session);
+
+export const removeSession = (id: string) => deleteRecord('sessions', id);
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '../utils/csv';
+import { parseSessionJson, serializeSession } from './transcriptFormats';
+import { Session, Turn } from './types';
+
+const turn = (fields: Partial<Turn>): Turn => ({
+  id: crypto.randomUUID(),
+  speaker: 'agent',
+  sourceText: 'Hello',
+  translatedText: 'สวัสดี',
+  status: 'translated',
+  sourceLanguage: 'en',
+  targetLanguage: 'th',
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+const sessionOf = (turns: Turn[]): Session => ({
+  id: 's1',
+  name: 'Support call',
+  inputLanguage: 'th',
+  outputLanguage: 'en',
+  turns,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// Spoken turns are timed by recognition; the typed one only has when it was sent
+const timedSession = sessionOf([
+  turn({
+    speaker: 'customer',
+    sourceText: 'สวัสดี',
+    translatedText: 'Hello',
+    sourceLanguage: 'th',
+    targetLanguage: 'en',
+    spokenAt: { start: 10_000, end: 15_000 },
+  }),
+  turn({ spokenAt: { start: 12_000, end: 13_000 } }),
+  turn({ sourceText: 'Bye', translatedText: '', createdAt: 10_000 + 3_723_456 }),
+]);
+
+const exportJson = (session: unknown) =>
+  JSON.stringify({ format: 'voice-translation-session', version: 1, session });
+
+describe('SRT export', () => {
+  it('numbers cues from the first turn, clamps overlaps and gives typed turns a reading time', () => {
+    expect(serializeSession(timedSession, 'srt')).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:02,000\nCustomer: สวัสดี\nHello',
+        '2\n00:00:02,000 --> 00:00:03,500\nAgent: Hello\nสวัสดี',
+        '3\n01:02:03,456 --> 01:02:04,956\nAgent: Bye',
+      ].join('\n\n') + '\n'
+    );
+  });
+});
+
+describe('WebVTT export', () => {
+  it('uses dotted timestamps and the same clamped cue times as SRT', () => {
+    const cues = serializeSession(timedSession, 'vtt').trimEnd().split('\n\n');
+
+    expect(cues[0]).toBe('WEBVTT');
+    expect(cues.slice(1).map((cue) => cue.split('\n')[0])).toEqual([
+      '00:00:00.000 --> 00:00:02.000',
+      '00:00:02.000 --> 00:00:03.500',
+      '01:02:03.456 --> 01:02:04.956',
+    ]);
+  });
+
+  it('escapes the author in the voice tag and keeps it on one line', () => {
+    const session = sessionOf([turn({ author: 'Tom & <b>Jerry</b>\n\nNOTE' })]);
+    const cue = serializeSession(session, 'vtt').trimEnd().split('\n\n')[1];
+
+    expect(cue.split('\n')).toEqual([
+      '00:00:00.000 --> 00:00:01.500',
+      '<v Agent (Tom &amp; &lt;b&gt;Jerry&lt;/b&gt; NOTE)><lang en>Hello</lang>',
+      '<lang th>สวัสดี</lang>',
+    ]);
+  });
+});
+
+describe('CSV export', () => {
+  it('writes one row per turn with quoted cells that read back unchanged', () => {
+    const session = sessionOf([turn({ sourceText: 'Hello, "friend"\nhow are you?', author: 'Somchai' })]);
+    const csv = serializeSession(session, 'csv');
+
+    expect(csv).toContain('"Hello, ""friend""\nhow are you?"');
+    expect(parseCsv(csv)).toEqual([
+      ['Turn', 'Time', 'Speaker', 'Source language', 'Source text', 'Target language', 'Translated text'],
+      ['1', '1970-01-01T00:00:00.000Z', 'Agent (Somchai)', 'en', 'Hello, "friend"\nhow are you?', 'th', 'สวัสดี'],
+    ]);
+  });
+});
+
+describe('JSON import', () => {
+  it('reads back an export as a new session', () => {
+    const imported = parseSessionJson(serializeSession(timedSession, 'json'));
+
+    expect(imported.id).not.toBe(timedSession.id);
+    expect(imported.name).toBe('Support call (imported)');
+    expect(imported.turns).toEqual(
+      timedSession.turns.map((t) => ({
+        ...t,
+        id: expect.any(String),
+        status: t.translatedText ? 'translated' : 'queued',
+      }))
+    );
+    expect(new Set(imported.turns.map((t) => t.id)).size).toBe(3);
+  });
+
+  it('queues turns that were exported without a translation', () => {
+    const untranslated = { ...turn({}), translatedText: undefined, status: 'failed' };
+
+    const imported = parseSessionJson(exportJson({ turns: [untranslated] }));
+
+    expect(imported.turns[0]).toMatchObject({ translatedText: '', status: 'queued' });
+  });
+
+  it('keeps only the fields a turn has', () => {
+    const imported = parseSessionJson(exportJson({ turns: [{ ...turn({}), html: '<script>' }] }));
+
+    expect(imported.turns[0]).not.toHaveProperty('html');
+  });
+
+  it.each([
+    ['another format', JSON.stringify({ format: 'other', session: { turns: [] } }), /Not a Voice Translation/],
+    [
+      'a newer version',
+      JSON.stringify({ format: 'voice-translation-session', version: 2, session: { turns: [] } }),
+      /version 2/,
+    ],
+    ['no turn list', exportJson({ turns: 'none' }), /invalid turns/],
+    ['a turn without a speaker', exportJson({ turns: [{ ...turn({}), speaker: 'bot' }] }), /invalid turns/],
+    ['a non-string translation', exportJson({ turns: [{ ...turn({}), translatedText: 42 }] }), /invalid turns/],
+    ['a turn without createdAt', exportJson({ turns: [{ ...turn({}), createdAt: undefined }] }), /invalid turns/],
+    ['a non-number createdAt', exportJson({ turns: [{ ...turn({}), createdAt: '2024-01-01' }] }), /invalid turns/],
+    ['an unknown provider', exportJson({ turns: [{ ...turn({}), provider: 'toString' }] }), /invalid turns/],
+    ['a malformed spoken range', exportJson({ turns: [{ ...turn({}), spokenAt: { start: 0 } }] }), /invalid turns/],
+    ['a non-string session name', exportJson({ name: 7, turns: [] }), /invalid session details/],
+    ['an unknown input language', exportJson({ inputLanguage: 'xx', turns: [] }), /invalid session details/],
+    ['an unknown output language', exportJson({ outputLanguage: 'en><b', turns: [] }), /invalid session details/],
+    ['a turn in an unknown language', exportJson({ turns: [{ ...turn({}), sourceLanguage: 'klingon' }] }), /invalid turns/],
+  ])('rejects %s', (_case, json, message) => {
+    expect(() => parseSessionJson(json)).toThrow(message);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseSessionJson('WEBVTT')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,233 @@
+import { findLanguage, isolateText, languageName } from '../languages';
+import { toCsv as rowsToCsv } from '../utils/csv';
+import { downloadFile, safeFilename } from '../utils/download';
+import { DetectedLanguage, isProviderSource, TranslationSource, translationSourceNames } from '../translation/types';
+import { Session, Speaker, SpokenRange, Turn } from './types';
+
+export type ExportFormat = 'txt' | 'json' | 'csv' | 'srt' | 'vtt';
+
+export const exportFormats: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'txt', label: 'Text', mimeType: 'text/plain' },
+  { format: 'json', label: 'JSON', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { format: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+];
+
+const JSON_FORMAT_ID = 'voice-translation-session';
+const JSON_FORMAT_VERSION = 1;
+
+// Typed turns have no recognition timing, so give them a reading-speed duration
+const MIN_CUE_MS = 1500;
+const MS_PER_CHAR = 60;
+
+const speakerLabel = (turn: Turn) => {
+  const speaker = turn.speaker === 'agent' ? 'Agent' : 'Customer';
+  return turn.author ? `${speaker} (${turn.author})` : speaker;
+};
+
+const turnRange = (turn: Turn) => {
+  if (turn.spokenAt) {
+    return { start: turn.spokenAt.start, end: Math.max(turn.spokenAt.end, turn.spokenAt.start + MIN_CUE_MS) };
+  }
+  return { start: turn.createdAt, end: turn.createdAt + Math.max(MIN_CUE_MS, turn.sourceText.length * MS_PER_CHAR) };
+};
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3_600_000);
+  const minutes = Math.floor((clamped % 3_600_000) / 60_000);
+  const seconds = Math.floor((clamped % 60_000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+const buildCues = (session: Session) => {
+  const ranges = session.turns.map(turnRange);
+  const origin = Math.min(...ranges.map((r) => r.start));
+  return session.turns.map((turn, i) => {
+    // Keep cues from overlapping the next turn
+    const next = ranges[i + 1];
+    const end = next ? Math.min(ranges[i].end, next.start) : ranges[i].end;
+    return { turn, start: ranges[i].start - origin, end: Math.max(end, ranges[i].start + 1) - origin };
+  });
+};
+
+const toText = (session: Session) => {
+  const header = [
+    session.name,
+    `${languageName(session.inputLanguage)} ↔ ${languageName(session.outputLanguage)}`,
+    new Date(session.createdAt).toLocaleString(),
+  ];
+  const body = session.turns.map((turn) =>
+    [
+      `[${new Date(turn.createdAt).toLocaleTimeString()}] ${speakerLabel(turn)} (${languageName(turn.sourceLanguage)}):`,
+      isolateText(turn.sourceText, turn.sourceLanguage),
+      `→ (${languageName(turn.targetLanguage)}) ${isolateText(turn.translatedText, turn.targetLanguage)}`,
+    ].join('\n')
+  );
+  return [header.join('\n'), ...body].join('\n\n') + '\n';
+};
+
+const toJson = (session: Session) =>
+  JSON.stringify({ format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, session }, null, 2);
+
+const toCsv = (session: Session) =>
+  rowsToCsv([
+    ['Turn', 'Time', 'Speaker', 'Source language', 'Source text', 'Target language', 'Translated text'],
+    ...session.turns.map((turn, i) => [
+      String(i + 1),
+      new Date(turn.createdAt).toISOString(),
+      speakerLabel(turn),
+      turn.sourceLanguage,
+      turn.sourceText,
+      turn.targetLanguage,
+      turn.translatedText,
+    ]),
+  ]);
+
+const toSrt = (session: Session) =>
+  buildCues(session)
+    .map(({ turn, start, end }, i) =>
+      [
+        String(i + 1),
+        `${formatTimestamp(start, ',')} --> ${formatTimestamp(end, ',')}`,
+        `${speakerLabel(turn)}: ${isolateText(turn.sourceText, turn.sourceLanguage)}`,
+        isolateText(turn.translatedText, turn.targetLanguage),
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n\n') + '\n';
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Authors are typed by room viewers, and a line break would end the cue
+const vttVoice = (turn: Turn) => escapeVtt(speakerLabel(turn).replace(/\s+/g, ' '));
+
+const toVtt = (session: Session) =>
+  [
+    'WEBVTT',
+    ...buildCues(session).map(({ turn, start, end }) =>
+      [
+        `${formatTimestamp(start, '.')} --> ${formatTimestamp(end, '.')}`,
+        `<v ${vttVoice(turn)}><lang ${turn.sourceLanguage}>${escapeVtt(isolateText(turn.sourceText, turn.sourceLanguage))}</lang>`,
+        turn.translatedText &&
+          `<lang ${turn.targetLanguage}>${escapeVtt(isolateText(turn.translatedText, turn.targetLanguage))}</lang>`,
+      ]
+        .filter(Boolean)
+        .join('\n')
+    ),
+  ].join('\n\n') + '\n';
+
+const serializers: Record<ExportFormat, (session: Session) => string> = {
+  txt: toText,
+  json: toJson,
+  csv: toCsv,
+  srt: toSrt,
+  vtt: toVtt,
+};
+
+export const serializeSession = (session: Session, format: ExportFormat) => serializers[format](session);
+
+export const downloadSession = (session: Session, format: ExportFormat) => {
+  const { mimeType } = exportFormats.find((f) => f.format === format)!;
+  downloadFile(serializeSession(session, format), `${safeFilename(session.name, 'session')}.${format}`, mimeType);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+// Only codes from the language list, since they pick the app's languages and go into WebVTT tags
+const isLanguageCode = (value: unknown): value is string => typeof value === 'string' && findLanguage(value) !== undefined;
+const isSpeaker = (value: unknown): value is Speaker => value === 'customer' || value === 'agent';
+const isTranslationSource = (value: unknown): value is TranslationSource =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(translationSourceNames, value);
+const isSpokenRange = (value: unknown): value is SpokenRange =>
+  isObject(value) && isTime(value.start) && isTime(value.end);
+const isDetectedLanguage = (value: unknown): value is DetectedLanguage =>
+  isObject(value) &&
+  typeof value.language === 'string' &&
+  typeof value.confidence === 'number' &&
+  (value.source === 'local' || (isTranslationSource(value.source) && isProviderSource(value.source)));
+
+// Rebuilds a turn from the fields an export writes, so nothing unchecked reaches the session.
+// Returns null for anything the app could not display, time or sync.
+const importTurn = (value: unknown, now: number): Turn | null => {
+  if (
+    !isObject(value) ||
+    !isSpeaker(value.speaker) ||
+    typeof value.sourceText !== 'string' ||
+    !isLanguageCode(value.sourceLanguage) ||
+    !isLanguageCode(value.targetLanguage) ||
+    !isTime(value.createdAt) ||
+    (value.updatedAt !== undefined && !isTime(value.updatedAt)) ||
+    (value.translatedText !== undefined && typeof value.translatedText !== 'string') ||
+    (value.author !== undefined && typeof value.author !== 'string') ||
+    (value.provider !== undefined && !isTranslationSource(value.provider)) ||
+    (value.spokenAt !== undefined && !isSpokenRange(value.spokenAt)) ||
+    (value.detectedLanguage !== undefined && !isDetectedLanguage(value.detectedLanguage))
+  ) {
+    return null;
+  }
+  const translatedText = value.translatedText ?? '';
+  return {
+    id: crypto.randomUUID(),
+    speaker: value.speaker,
+    sourceText: value.sourceText,
+    translatedText,
+    // Turns without a translation are translated again like any that were queued offline
+    status: translatedText ? 'translated' : 'queued',
+    sourceLanguage: value.sourceLanguage,
+    targetLanguage: value.targetLanguage,
+    author: value.author,
+    provider: value.provider,
+    spokenAt: value.spokenAt && { start: value.spokenAt.start, end: value.spokenAt.end },
+    detectedLanguage: value.detectedLanguage && {
+      language: value.detectedLanguage.language,
+      confidence: value.detectedLanguage.confidence,
+      source: value.detectedLanguage.source,
+    },
+    createdAt: value.createdAt,
+    updatedAt: value.updatedAt ?? now,
+  };
+};
+
+// Parses an exported JSON transcript into a fresh session that will not overwrite the original
+export const parseSessionJson = (json: string): Session => {
+  const data = JSON.parse(json);
+  if (data?.format !== JSON_FORMAT_ID || !isObject(data.session)) {
+    throw new Error('Not a Voice Translation session export');
+  }
+  if (data.version > JSON_FORMAT_VERSION) {
+    throw new Error(`Unsupported session export version ${data.version}`);
+  }
+
+  const source = data.session;
+  if (
+    (source.name !== undefined && typeof source.name !== 'string') ||
+    (source.inputLanguage !== undefined && !isLanguageCode(source.inputLanguage)) ||
+    (source.outputLanguage !== undefined && !isLanguageCode(source.outputLanguage)) ||
+    (source.createdAt !== undefined && !isTime(source.createdAt))
+  ) {
+    throw new Error('Session export contains invalid session details');
+  }
+
+  const now = Date.now();
+  const turns: Turn[] = [];
+  for (const value of Array.isArray(source.turns) ? source.turns : [null]) {
+    const turn = importTurn(value, now);
+    if (!turn) throw new Error('Session export contains invalid turns');
+    turns.push(turn);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: `${source.name || 'Imported session'} (imported)`,
+    inputLanguage: source.inputLanguage || turns[0]?.sourceLanguage || 'en',
+    outputLanguage: source.outputLanguage || turns[0]?.targetLanguage || 'en',
+    turns,
+    createdAt: source.createdAt ?? now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,46 @@
+import { DetectedLanguage, TranslationSource } from '../translation/types';
+
+export type Speaker = 'customer' | 'agent';
+
+// Queued turns could not be translated while offline and are retried once the connection is back
+export type TurnStatus = 'translating' | 'translated' | 'queued' | 'failed';
+
+// Wall-clock time the turn was spoken, taken from speech-recognition results
+export interface SpokenRange {
+  start: number;
+  end: number;
+}
+
+export interface Turn {
+  id: string;
+  speaker: Speaker;
+  sourceText: string;
+  translatedText: string;
+  status: TurnStatus;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Who sent the turn, for replies typed by viewers of a shared room
+  author?: string;
+  provider?: TranslationSource;
+  spokenAt?: SpokenRange;
+  // What language detection made of the source text, when auto-detect is on
+  detectedLanguage?: DetectedLanguage;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Session {
+  id: string;
+  // The signed-in agent who owns the session in this browser, if any
+  agentId?: string;
+  name: string;
+  inputLanguage: string;
+  outputLanguage: string;
+  turns: Turn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SessionSummary = Pick<Session, 'id' | 'name' | 'createdAt' | 'updatedAt'> & {
+  turnCount: number;
+};
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createSession,
+  listSessions,
+  loadSession,
+  removeSession,
+  saveSession,
+  summarizeSession,
+} from './sessionStore';
+import { currentOwnerFields, isOwnedByCurrentAgent } from '../storage/owner';
+import { pushSessionDeletion, queueSessionPush } from '../sync/sync';
+import { Session, SessionSummary, Turn } from './types';
+
+export type NewTurn = Omit<Turn, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface UseSessionOptions {
+  // Begin with a new session instead of reopening the latest one
+  startFresh?: boolean;
+}
+
+export function useSession(inputLanguage: string, outputLanguage: string, { startFresh = false }: UseSessionOptions = {}) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageError, setStorageError] = useState('');
+
+  // Only the languages and options at startup matter for the initial session
+  const startupRef = useRef({ inputLanguage, outputLanguage, startFresh });
+
+  // Reopen the most recently used session on startup
+  useEffect(() => {
+    const { inputLanguage, outputLanguage, startFresh } = startupRef.current;
+    let cancelled = false;
+    (async () => {
+      try {
+        const summaries = await listSessions();
+        const latest = summaries[0] && !startFresh ? await loadSession(summaries[0].id) : undefined;
+        if (cancelled) return;
+        setSessions(summaries);
+        setSession(latest ?? createSession(inputLanguage, outputLanguage));
+      } catch (err) {
+        console.error('Failed to load sessions:', err);
+        if (cancelled) return;
+        setStorageError('Conversation history is unavailable. This session will not be saved.');
+        setSession(createSession(inputLanguage, outputLanguage));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist every change to the current session
+  useEffect(() => {
+    if (!session) return;
+    saveSession(session)
+      .then(() => {
+        queueSessionPush(session);
+        const summary = summarizeSession(session);
+        setSessions((prev) =>
+          [summary, ...prev.filter((s) => s.id !== session.id)].sort((a, b) => b.updatedAt - a.updatedAt)
+        );
+      })
+      .catch((err) => console.error('Failed to save session:', err));
+  }, [session]);
+
+  const updateSession = useCallback((update: (session: Session) => Session) => {
+    setSession((prev) => (prev ? { ...update(prev), updatedAt: Date.now() } : prev));
+  }, []);
+
+  const addTurn = useCallback(
+    (turn: NewTurn) => {
+      const now = Date.now();
+      const created: Turn = { ...turn, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+      updateSession((s) => ({ ...s, turns: [...s.turns, created] }));
+      return created.id;
+    },
+    [updateSession]
+  );
+
+  const updateTurn = useCallback(
+    (id: string, patch: Partial<NewTurn>) => {
+      updateSession((s) => ({
+        ...s,
+        turns: s.turns.map((t) => (t.id === id ? { ...t, ...patch, updatedAt: Date.now() } : t)),
+      }));
+    },
+    [updateSession]
+  );
+
+  const deleteTurn = useCallback(
+    (id: string) => {
+      updateSession((s) => ({ ...s, turns: s.turns.filter((t) => t.id !== id) }));
+    },
+    [updateSession]
+  );
+
+  const renameSession = useCallback(
+    (name: string) => {
+      updateSession((s) => ({ ...s, name }));
+    },
+    [updateSession]
+  );
+
+  const setSessionLanguages = useCallback(
+    (input: string, output: string) => {
+      setSession((prev) =>
+        prev && (prev.inputLanguage !== input || prev.outputLanguage !== output)
+          ? { ...prev, inputLanguage: input, outputLanguage: output }
+          : prev
+      );
+    },
+    []
+  );
+
+  const newSession = useCallback((input: string, output: string, name?: string) => {
+    const created = createSession(input, output, name);
+    setSession(created);
+    return created;
+  }, []);
+
+  const importSession = useCallback((imported: Session) => {
+    setSession({ ...imported, ...currentOwnerFields() });
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    const loaded = await loadSession(id);
+    if (loaded) {
+      setSession(loaded);
+    }
+    return loaded;
+  }, []);
+
+  // Picks up sessions written to storage by something other than this hook, e.g. a sync
+  const reloadSessions = useCallback(async () => {
+    setSessions(await listSessions());
+  }, []);
+
+  // After another agent signs in, or the agent signs out, shows the history that is now theirs
+  const switchOwner = useCallback(async () => {
+    const summaries = await listSessions();
+    setSessions(summaries);
+    if (!session || isOwnedByCurrentAgent(session)) return;
+    const latest = summaries[0] ? await loadSession(summaries[0].id) : undefined;
+    setSession(latest ?? createSession(session.inputLanguage, session.outputLanguage));
+  }, [session]);
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      await removeSession(id);
+      pushSessionDeletion(id);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+      if (session?.id === id) {
+        setSession(createSession(session.inputLanguage, session.outputLanguage));
+      }
+    },
+    [session]
+  );
+
+  return {
+    session,
+    sessions,
+    storageError,
+    addTurn,
+    updateTurn,
+    deleteTurn,
+    renameSession,
+    setSessionLanguages,
+    newSession,
+    importSession,
+    openSession,
+    deleteSession,
+    reloadSessions,
+    switchOwner,
+  };
+}
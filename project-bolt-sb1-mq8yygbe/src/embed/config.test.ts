@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseAllowedOrigins, readEmbedConfig } from './config';
+
+const allowed = ['https://crm.example.com'];
+const paramsFor = (query: string) => new URLSearchParams(query);
+
+describe('parseAllowedOrigins', () => {
+  it('reads comma-separated origins and drops what is not a URL', () => {
+    expect(parseAllowedOrigins(' https://crm.example.com/app , http://localhost:3000,crm,')).toEqual([
+      'https://crm.example.com',
+      'http://localhost:3000',
+    ]);
+    expect(parseAllowedOrigins(undefined)).toEqual([]);
+  });
+});
+
+describe('readEmbedConfig', () => {
+  it('is null without ?embed=1', () => {
+    expect(readEmbedConfig(paramsFor('origin=https://crm.example.com'), allowed)).toBeNull();
+  });
+
+  it('takes the host origin only from the allow-list', () => {
+    expect(readEmbedConfig(paramsFor('embed=1&origin=https://crm.example.com'), allowed)?.hostOrigin).toBe(
+      'https://crm.example.com'
+    );
+    expect(readEmbedConfig(paramsFor('embed=1&origin=https://evil.example'), allowed)?.hostOrigin).toBe('');
+    expect(readEmbedConfig(paramsFor('embed=1&origin=https://crm.example.com'), [])?.hostOrigin).toBe('');
+  });
+
+  it('ignores unknown languages and providers', () => {
+    expect(readEmbedConfig(paramsFor('embed=1&input=th&output=xx&provider=deepl'), allowed)).toMatchObject({
+      inputLanguage: 'th',
+      outputLanguage: undefined,
+      provider: 'deepl',
+    });
+    expect(readEmbedConfig(paramsFor('embed=1&provider=memory'), allowed)?.provider).toBeUndefined();
+    expect(readEmbedConfig(paramsFor('embed=1&provider=toString'), allowed)?.provider).toBeUndefined();
+  });
+});
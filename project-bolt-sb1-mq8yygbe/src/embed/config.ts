@@ -0,0 +1,43 @@
+import { findLanguage } from '../languages';
+import { isProviderSource, ProviderId, TranslationSource, translationSourceNames } from '../translation/types';
+import { EmbedConfig } from './protocol';
+
+const asLanguage = (code: string | null) => (code && findLanguage(code) ? code : undefined);
+
+const asProvider = (id: string | null): ProviderId | undefined =>
+  id &&
+  Object.prototype.hasOwnProperty.call(translationSourceNames, id) &&
+  isProviderSource(id as TranslationSource)
+    ? (id as ProviderId)
+    : undefined;
+
+// Comma-separated origins of the pages allowed to embed the app, e.g.
+// "https://crm.example.com, https://support.example.com". Entries that are not URLs are dropped.
+export const parseAllowedOrigins = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => {
+      try {
+        return new URL(entry.trim()).origin;
+      } catch {
+        return null;
+      }
+    })
+    .filter((origin): origin is string => origin !== null && origin !== 'null');
+
+const allowedOrigins = parseAllowedOrigins(import.meta.env.VITE_EMBED_ALLOWED_ORIGINS);
+
+// An iframe URL with ?embed=1 runs the app inside a host page. Unknown languages and
+// providers are ignored rather than breaking the embed. Any page can claim any origin in the
+// URL, so the bridge to the host only turns on for origins on the allow-list.
+export const readEmbedConfig = (params: URLSearchParams, allowed: string[] = allowedOrigins): EmbedConfig | null => {
+  if (params.get('embed') !== '1') return null;
+  const origin = params.get('origin') ?? '';
+  return {
+    inputLanguage: asLanguage(params.get('input')),
+    outputLanguage: asLanguage(params.get('output')),
+    provider: asProvider(params.get('provider')),
+    theme: params.get('theme') === 'dark' ? 'dark' : 'light',
+    hostOrigin: allowed.includes(origin) ? origin : '',
+  };
+};
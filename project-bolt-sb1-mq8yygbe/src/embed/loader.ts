@@ -0,0 +1,169 @@
+import { EmbedCommand, EmbedEvent, EmbedEventType, EmbedTheme, isEmbedMessage, toEmbedMessage } from './protocol';
+
+// Runs on the host page, built on its own as embed.js (npm run build). Either call
+// VoiceTranslation.mount(element, options) or use the <voice-translator> element.
+
+export interface EmbedOptions {
+  // Where the app is served, e.g. https://translate.example.com/
+  src: string;
+  inputLanguage?: string;
+  outputLanguage?: string;
+  // Provider to try first, e.g. deepl; the app ignores ids it does not know
+  provider?: string;
+  theme?: EmbedTheme;
+  height?: string;
+}
+
+type EventOf<T extends EmbedEventType> = Extract<EmbedEvent, { type: T }>;
+type Listener<T extends EmbedEventType> = (event: EventOf<T>) => void;
+
+export interface EmbedController {
+  // Returns a function that removes the listener
+  on<T extends EmbedEventType>(type: T, listener: Listener<T>): () => void;
+  startRecording(): void;
+  stopRecording(): void;
+  insertReply(text: string, options?: { send?: boolean }): void;
+  clear(): void;
+  destroy(): void;
+}
+
+export const embedUrl = (options: EmbedOptions) => {
+  const url = new URL(options.src, window.location.href);
+  url.searchParams.set('embed', '1');
+  url.searchParams.set('origin', window.location.origin);
+  if (options.inputLanguage) url.searchParams.set('input', options.inputLanguage);
+  if (options.outputLanguage) url.searchParams.set('output', options.outputLanguage);
+  if (options.provider) url.searchParams.set('provider', options.provider);
+  if (options.theme) url.searchParams.set('theme', options.theme);
+  return url;
+};
+
+export const mount = (container: HTMLElement, options: EmbedOptions): EmbedController => {
+  const url = embedUrl(options);
+  const iframe = document.createElement('iframe');
+  iframe.src = url.href;
+  iframe.title = 'Voice translation';
+  // The widget records from the microphone, copies translations and reads them aloud
+  iframe.allow = 'microphone; clipboard-write; autoplay';
+  iframe.style.cssText = `width: 100%; height: ${options.height ?? '720px'}; border: 0;`;
+
+  const listeners = new Map<EmbedEventType, Set<(event: EmbedEvent) => void>>();
+  // Commands sent before the app has loaded are held until it reports ready. The frame can
+  // reload on its own, so each load starts over and asks the app to report ready again, in
+  // case it already did before the load event.
+  let isReady = false;
+  let pending: EmbedCommand[] = [];
+  let readySessionId: string | null = null;
+  iframe.addEventListener('load', () => {
+    isReady = false;
+    iframe.contentWindow?.postMessage(toEmbedMessage({ type: 'connect' }), url.origin);
+  });
+  container.appendChild(iframe);
+
+  const send = (command: EmbedCommand) => {
+    if (!isReady) {
+      pending.push(command);
+      return;
+    }
+    iframe.contentWindow?.postMessage(toEmbedMessage(command), url.origin);
+  };
+
+  const onMessage = (message: MessageEvent) => {
+    if (message.source !== iframe.contentWindow || message.origin !== url.origin || !isEmbedMessage(message.data)) {
+      return;
+    }
+    const event = message.data as EmbedEvent;
+    if (event.type === 'ready') {
+      isReady = true;
+      pending.forEach(send);
+      pending = [];
+      // The answer to connect repeats a ready the host may already have had
+      if (event.sessionId === readySessionId) return;
+      readySessionId = event.sessionId;
+    }
+    listeners.get(event.type)?.forEach((listener) => listener(event));
+  };
+  window.addEventListener('message', onMessage);
+
+  return {
+    on(type, listener) {
+      const set = listeners.get(type) ?? new Set();
+      set.add(listener as (event: EmbedEvent) => void);
+      listeners.set(type, set);
+      return () => set.delete(listener as (event: EmbedEvent) => void);
+    },
+    startRecording: () => send({ type: 'start-recording' }),
+    stopRecording: () => send({ type: 'stop-recording' }),
+    insertReply: (text, { send: sendNow = false } = {}) => send({ type: 'insert-reply', text, send: sendNow }),
+    clear: () => send({ type: 'clear' }),
+    destroy() {
+      window.removeEventListener('message', onMessage);
+      listeners.clear();
+      iframe.remove();
+    },
+  };
+};
+
+const eventTypes: EmbedEventType[] = ['ready', 'turn-finalized', 'translation-ready', 'reply-sent', 'recording-changed'];
+
+// <voice-translator src="..." input-language="th" output-language="en" provider="deepl" theme="dark">.
+// Events are dispatched as DOM events of the same name, with the payload in detail.
+export class VoiceTranslatorElement extends HTMLElement {
+  static observedAttributes = ['src', 'input-language', 'output-language', 'provider', 'theme', 'height'];
+
+  private controller: EmbedController | null = null;
+
+  connectedCallback() {
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.controller?.destroy();
+    this.controller = null;
+  }
+
+  // Any change reloads the app with the new configuration
+  attributeChangedCallback() {
+    if (this.isConnected) this.render();
+  }
+
+  startRecording() {
+    this.controller?.startRecording();
+  }
+
+  stopRecording() {
+    this.controller?.stopRecording();
+  }
+
+  insertReply(text: string, options?: { send?: boolean }) {
+    this.controller?.insertReply(text, options);
+  }
+
+  clear() {
+    this.controller?.clear();
+  }
+
+  private render() {
+    this.controller?.destroy();
+    this.controller = null;
+    const src = this.getAttribute('src');
+    if (!src) return;
+
+    this.style.display = 'block';
+    this.controller = mount(this, {
+      src,
+      inputLanguage: this.getAttribute('input-language') ?? undefined,
+      outputLanguage: this.getAttribute('output-language') ?? undefined,
+      provider: this.getAttribute('provider') ?? undefined,
+      theme: this.getAttribute('theme') === 'dark' ? 'dark' : 'light',
+      height: this.getAttribute('height') ?? undefined,
+    });
+    for (const type of eventTypes) {
+      this.controller.on(type, (event) => this.dispatchEvent(new CustomEvent(type, { detail: event })));
+    }
+  }
+}
+
+if (!customElements.get('voice-translator')) {
+  customElements.define('voice-translator', VoiceTranslatorElement);
+}
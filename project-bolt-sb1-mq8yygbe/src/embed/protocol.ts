@@ -0,0 +1,61 @@
+import { Speaker } from '../conversation/types';
+import { ProviderId, TranslationSource } from '../translation/types';
+
+// Messages between an embedded interpreter and the page that embeds it. Each one is tagged
+// with this source, so other postMessage traffic on either side is ignored.
+export const EMBED_MESSAGE_SOURCE = 'voice-translation-embed';
+
+export type EmbedTheme = 'light' | 'dark';
+
+// What the host page chooses through the iframe URL or the loader's options
+export interface EmbedConfig {
+  inputLanguage?: string;
+  outputLanguage?: string;
+  // Tried before the other enabled providers
+  provider?: ProviderId;
+  theme: EmbedTheme;
+  // Origin of the host page; events go only to it and commands are only taken from it.
+  // Empty when the page is not on the allow-list, which keeps the bridge off.
+  hostOrigin: string;
+}
+
+export interface EmbedTurn {
+  id: string;
+  speaker: Speaker;
+  author?: string;
+  sourceText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  createdAt: number;
+}
+
+export type EmbedEvent =
+  | { type: 'ready'; sessionId: string }
+  // A customer turn was recorded; its translation follows in translation-ready
+  | { type: 'turn-finalized'; turn: EmbedTurn }
+  | { type: 'translation-ready'; turnId: string; translatedText: string; provider?: TranslationSource }
+  // An agent reply was added to the conversation
+  | { type: 'reply-sent'; turn: EmbedTurn }
+  | { type: 'recording-changed'; isRecording: boolean };
+
+export type EmbedCommand =
+  | { type: 'start-recording' }
+  | { type: 'stop-recording' }
+  // Puts text in the reply box, or sends it right away
+  | { type: 'insert-reply'; text: string; send?: boolean }
+  | { type: 'clear' }
+  // Sent by the loader each time the frame loads; the app answers with ready
+  | { type: 'connect' };
+
+export type EmbedEventType = EmbedEvent['type'];
+
+export const toEmbedMessage = <T extends EmbedEvent | EmbedCommand>(message: T) => ({
+  ...message,
+  source: EMBED_MESSAGE_SOURCE,
+});
+
+export const isEmbedMessage = (data: unknown): data is (EmbedEvent | EmbedCommand) & { source: string } =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE &&
+  typeof (data as { type?: unknown }).type === 'string';
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Session, Turn } from '../conversation/types';
+import { masksExports, maskText } from '../privacy/redaction';
+import { RedactionSettings } from '../privacy/settings';
+import { EmbedCommand, EmbedConfig, EmbedEvent, EmbedTurn, isEmbedMessage, toEmbedMessage } from './protocol';
+
+interface EmbedCommandHandlers {
+  startRecording: () => void;
+  stopRecording: () => void;
+  insertReply: (text: string, send: boolean) => void;
+  clear: () => void;
+}
+
+interface UseEmbedBridgeOptions extends EmbedCommandHandlers {
+  // Null when the app is not embedded
+  config: EmbedConfig | null;
+  session: Session | null;
+  isRecording: boolean;
+  // Turns leave the app masked when exports are set to be redacted
+  redaction: RedactionSettings;
+}
+
+const toEmbedTurn = (turn: Turn, mask: (text: string) => string): EmbedTurn => ({
+  id: turn.id,
+  speaker: turn.speaker,
+  author: turn.author,
+  sourceText: mask(turn.sourceText),
+  sourceLanguage: turn.sourceLanguage,
+  targetLanguage: turn.targetLanguage,
+  createdAt: turn.createdAt,
+});
+
+// Reports conversation events to the page embedding the app and carries out its commands.
+// Turns already in the session when it opens are not reported.
+export function useEmbedBridge({ config, session, isRecording, redaction, ...handlers }: UseEmbedBridgeOptions) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const redactionRef = useRef(redaction);
+  redactionRef.current = redaction;
+  // The translation last reported for each turn, by turn id
+  const reportedRef = useRef<{ sessionId: string; translations: Map<string, string> } | null>(null);
+  const wasRecordingRef = useRef(isRecording);
+
+  // Without an allowed host origin there is no safe target for events, so the bridge stays off
+  const hostOrigin = config !== null && config.hostOrigin !== '' && window.parent !== window ? config.hostOrigin : null;
+  const isActive = hostOrigin !== null;
+  const hostOriginRef = useRef(hostOrigin);
+  hostOriginRef.current = hostOrigin;
+
+  // Both read the latest host and redaction settings, so effects need not rerun when they change
+  const post = useCallback((event: EmbedEvent) => {
+    if (hostOriginRef.current === null) return;
+    window.parent.postMessage(toEmbedMessage(event), hostOriginRef.current);
+  }, []);
+
+  const mask = useCallback(
+    (text: string) => (masksExports(redactionRef.current) ? maskText(text, redactionRef.current) : text),
+    []
+  );
+
+  useEffect(() => {
+    if (!session || !isActive) return;
+    const reported = reportedRef.current;
+    if (!reported || reported.sessionId !== session.id) {
+      reportedRef.current = {
+        sessionId: session.id,
+        translations: new Map(session.turns.map((t) => [t.id, t.translatedText])),
+      };
+      post({ type: 'ready', sessionId: session.id });
+      return;
+    }
+
+    for (const turn of session.turns) {
+      const lastTranslation = reported.translations.get(turn.id);
+      if (lastTranslation === undefined) {
+        post(
+          turn.speaker === 'customer'
+            ? { type: 'turn-finalized', turn: toEmbedTurn(turn, mask) }
+            : { type: 'reply-sent', turn: toEmbedTurn(turn, mask) }
+        );
+        reported.translations.set(turn.id, '');
+      }
+      // Corrections made later are reported as a new translation of the same turn
+      if (turn.status === 'translated' && turn.translatedText !== reported.translations.get(turn.id)) {
+        post({ type: 'translation-ready', turnId: turn.id, translatedText: mask(turn.translatedText), provider: turn.provider });
+        reported.translations.set(turn.id, turn.translatedText);
+      }
+    }
+  }, [session, isActive, post, mask]);
+
+  useEffect(() => {
+    if (wasRecordingRef.current === isRecording) return;
+    wasRecordingRef.current = isRecording;
+    post({ type: 'recording-changed', isRecording });
+  }, [isRecording, post]);
+
+  useEffect(() => {
+    if (hostOrigin === null) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== hostOrigin || !isEmbedMessage(event.data)) return;
+      const command = event.data as EmbedCommand;
+      const { startRecording, stopRecording, insertReply, clear } = handlersRef.current;
+      switch (command.type) {
+        case 'start-recording':
+          return startRecording();
+        case 'stop-recording':
+          return stopRecording();
+        case 'insert-reply':
+          if (typeof command.text === 'string') insertReply(command.text, command.send === true);
+          return;
+        case 'clear':
+          return clear();
+        case 'connect':
+          if (reportedRef.current) post({ type: 'ready', sessionId: reportedRef.current.sessionId });
+          return;
+      }
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [hostOrigin, post]);
+}
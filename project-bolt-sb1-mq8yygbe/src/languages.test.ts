@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadLocalePreferences } from './languages';
+
+const storage = new Map<string, string>();
+const storeLocales = (value: string) => storage.set('voice-translation:locales', value);
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', { getItem: (key: string) => storage.get(key) ?? null });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('loadLocalePreferences', () => {
+  it('keeps variants stored for their own language', () => {
+    storeLocales(JSON.stringify({ pt: 'pt-PT', zh: 'zh-TW' }));
+
+    expect(loadLocalePreferences()).toEqual({ pt: 'pt-PT', zh: 'zh-TW' });
+  });
+
+  it('drops entries that are not a variant of their language', () => {
+    storeLocales(JSON.stringify({ pt: 'es-MX', en: 42, xx: 'xx-XX', constructor: 'en-US' }));
+
+    expect(loadLocalePreferences()).toEqual({});
+  });
+
+  it.each(['null', '[]', '7', '"pt-PT"', '{'])('falls back to no preferences for %s', (stored) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storeLocales(stored);
+
+    expect(loadLocalePreferences()).toEqual({});
+  });
+});
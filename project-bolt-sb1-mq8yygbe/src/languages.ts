@@ -0,0 +1,426 @@
+// ISO 15924 script codes for the writing systems we support
+export type Script = 'Latn' | 'Thai' | 'Cyrl' | 'Jpan' | 'Kore' | 'Hans' | 'Hant' | 'Arab' | 'Deva' | 'Hebr' | 'Grek';
+
+export interface LanguageVariant {
+  // BCP 47 tag handed to speech engines, e.g. pt-BR
+  locale: string;
+  region: string;
+  // When the region writes the language differently, e.g. Traditional Chinese in Taiwan
+  script?: Script;
+}
+
+// full: the common engines all offer it. partial: only some browsers, systems or providers do.
+export type Support = 'full' | 'partial' | 'none';
+
+// Speech recognition: Chrome and Edge recognize every language listed here through Google's
+// service; Safari's on-device engine covers fewer. Speech output: Chrome bundles voices for a
+// handful of languages, the rest rely on voices the operating system provides. Translation:
+// MyMemory and LibreTranslate cover every language, DeepL a subset.
+export interface Capabilities {
+  stt: Support;
+  tts: Support;
+  translation: Support;
+}
+
+export interface Language {
+  // ISO 639-1 code, used for translation and everything stored
+  code: string;
+  name: string;
+  nativeName: string;
+  script: Script;
+  direction: 'ltr' | 'rtl';
+  // Scripts like Thai are written without spaces between words or sentences
+  wordSpacing: boolean;
+  // The first variant is the default
+  variants: LanguageVariant[];
+  // What engines commonly offer for the language; speech output also depends on the installed voices
+  supports: Capabilities;
+}
+
+const supportFor = (stt: Support, tts: Support, translation: Support): Capabilities => ({ stt, tts, translation });
+
+export const languages: Language[] = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'en-US', region: 'United States' },
+      { locale: 'en-GB', region: 'United Kingdom' },
+      { locale: 'en-AU', region: 'Australia' },
+      { locale: 'en-IN', region: 'India' },
+      { locale: 'en-SG', region: 'Singapore' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'th',
+    name: 'Thai',
+    nativeName: 'ไทย',
+    script: 'Thai',
+    direction: 'ltr',
+    wordSpacing: false,
+    variants: [{ locale: 'th-TH', region: 'Thailand' }],
+    supports: supportFor('full', 'partial', 'partial'),
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'es-ES', region: 'Spain' },
+      { locale: 'es-MX', region: 'Mexico' },
+      { locale: 'es-US', region: 'United States' },
+      { locale: 'es-AR', region: 'Argentina' },
+      { locale: 'es-CO', region: 'Colombia' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'fr-FR', region: 'France' },
+      { locale: 'fr-CA', region: 'Canada' },
+      { locale: 'fr-BE', region: 'Belgium' },
+      { locale: 'fr-CH', region: 'Switzerland' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'de-DE', region: 'Germany' },
+      { locale: 'de-AT', region: 'Austria' },
+      { locale: 'de-CH', region: 'Switzerland' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'it-IT', region: 'Italy' }],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'pt-BR', region: 'Brazil' },
+      { locale: 'pt-PT', region: 'Portugal' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    script: 'Cyrl',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'ru-RU', region: 'Russia' }],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    script: 'Jpan',
+    direction: 'ltr',
+    wordSpacing: false,
+    variants: [{ locale: 'ja-JP', region: 'Japan' }],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'ko',
+    name: 'Korean',
+    nativeName: '한국어',
+    script: 'Kore',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'ko-KR', region: 'South Korea' }],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    script: 'Hans',
+    direction: 'ltr',
+    wordSpacing: false,
+    variants: [
+      { locale: 'zh-CN', region: 'Mainland China' },
+      { locale: 'zh-TW', region: 'Taiwan', script: 'Hant' },
+      { locale: 'zh-HK', region: 'Hong Kong', script: 'Hant' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    script: 'Arab',
+    direction: 'rtl',
+    wordSpacing: true,
+    variants: [
+      { locale: 'ar-SA', region: 'Saudi Arabia' },
+      { locale: 'ar-EG', region: 'Egypt' },
+      { locale: 'ar-AE', region: 'United Arab Emirates' },
+    ],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    code: 'he',
+    name: 'Hebrew',
+    nativeName: 'עברית',
+    script: 'Hebr',
+    direction: 'rtl',
+    wordSpacing: true,
+    variants: [{ locale: 'he-IL', region: 'Israel' }],
+    supports: supportFor('full', 'partial', 'partial'),
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    script: 'Deva',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'hi-IN', region: 'India' }],
+    supports: supportFor('full', 'full', 'partial'),
+  },
+  {
+    code: 'vi',
+    name: 'Vietnamese',
+    nativeName: 'Tiếng Việt',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'vi-VN', region: 'Vietnam' }],
+    supports: supportFor('full', 'partial', 'partial'),
+  },
+  {
+    code: 'id',
+    name: 'Indonesian',
+    nativeName: 'Bahasa Indonesia',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'id-ID', region: 'Indonesia' }],
+    supports: supportFor('full', 'full', 'partial'),
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'nl-NL', region: 'Netherlands' },
+      { locale: 'nl-BE', region: 'Belgium' },
+    ],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'sv',
+    name: 'Swedish',
+    nativeName: 'Svenska',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'sv-SE', region: 'Sweden' }],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    code: 'da',
+    name: 'Danish',
+    nativeName: 'Dansk',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'da-DK', region: 'Denmark' }],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    // Engines know Norwegian speech as Bokmål (nb) and reject no-NO
+    code: 'no',
+    name: 'Norwegian',
+    nativeName: 'Norsk',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'nb-NO', region: 'Norway' }],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    code: 'fi',
+    name: 'Finnish',
+    nativeName: 'Suomi',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'fi-FI', region: 'Finland' }],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    code: 'pl',
+    name: 'Polish',
+    nativeName: 'Polski',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'pl-PL', region: 'Poland' }],
+    supports: supportFor('full', 'full', 'full'),
+  },
+  {
+    code: 'el',
+    name: 'Greek',
+    nativeName: 'Ελληνικά',
+    script: 'Grek',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'el-GR', region: 'Greece' }],
+    supports: supportFor('full', 'partial', 'partial'),
+  },
+  {
+    code: 'tr',
+    name: 'Turkish',
+    nativeName: 'Türkçe',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [{ locale: 'tr-TR', region: 'Turkey' }],
+    supports: supportFor('full', 'partial', 'full'),
+  },
+  {
+    code: 'sw',
+    name: 'Swahili',
+    nativeName: 'Kiswahili',
+    script: 'Latn',
+    direction: 'ltr',
+    wordSpacing: true,
+    variants: [
+      { locale: 'sw-KE', region: 'Kenya' },
+      { locale: 'sw-TZ', region: 'Tanzania' },
+    ],
+    // Safari does not recognize Swahili, and few platforms ship a Swahili voice
+    supports: supportFor('partial', 'none', 'partial'),
+  },
+];
+
+const byCode = new Map(languages.map((l) => [l.code, l]));
+
+export const findLanguage = (code: string) => byCode.get(code);
+
+export const languageName = (code: string) => findLanguage(code)?.name ?? code;
+
+export const findVariant = (locale: string) =>
+  languages.flatMap((l) => l.variants).find((v) => v.locale.toLowerCase() === locale.toLowerCase());
+
+// The language code behind a language code or variant locale
+export const baseLanguage = (codeOrLocale: string) =>
+  findLanguage(codeOrLocale) ? codeOrLocale : codeOrLocale.split('-')[0];
+
+// Accepts a language code (giving its default variant) or one of its variant locales
+export const speechLocale = (codeOrLocale: string) => {
+  const variant = findVariant(codeOrLocale);
+  if (variant) return variant.locale;
+  return findLanguage(codeOrLocale)?.variants[0].locale ?? codeOrLocale;
+};
+
+export const localeName = (locale: string) => {
+  const language = findLanguage(baseLanguage(locale));
+  const variant = findVariant(locale);
+  if (!language) return locale;
+  return variant && language.variants.length > 1 ? `${language.name} (${variant.region})` : language.name;
+};
+
+export const usesWordSpacing = (code: string) => findLanguage(baseLanguage(code))?.wordSpacing ?? true;
+
+export const textDirection = (code: string) => findLanguage(baseLanguage(code))?.direction ?? 'ltr';
+
+const LOCALE_PREFERENCES_KEY = 'voice-translation:locales';
+
+// The variant picked for each language, keyed by language code
+export type LocalePreferences = Record<string, string>;
+
+export const preferredLocale = (code: string, preferences: LocalePreferences) =>
+  speechLocale(preferences[code] ?? code);
+
+// Keeps only entries that name one of the language's own variants, so a stored value that is not
+// an object, or a variant since removed, falls back to the default
+export const loadLocalePreferences = (): LocalePreferences => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(LOCALE_PREFERENCES_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        ([code, locale]) =>
+          typeof locale === 'string' && (findLanguage(code)?.variants.some((v) => v.locale === locale) ?? false)
+      )
+    );
+  } catch (err) {
+    console.error('Failed to load language variants:', err);
+    return {};
+  }
+};
+
+export const saveLocalePreferences = (preferences: LocalePreferences) => {
+  localStorage.setItem(LOCALE_PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+// Tailwind font stacks (see tailwind.config.js) for scripts the default font renders poorly
+const scriptFonts: Partial<Record<Script, string>> = {
+  Thai: 'font-thai',
+  Jpan: 'font-cjk',
+  Hans: 'font-cjk',
+  Hant: 'font-cjk-tc',
+  Kore: 'font-cjk',
+  Deva: 'font-devanagari',
+  Arab: 'font-arabic',
+  Hebr: 'font-hebrew',
+};
+
+// A regional variant's own script wins over the language's
+export const scriptOf = (codeOrLocale: string) =>
+  findVariant(codeOrLocale)?.script ?? findLanguage(baseLanguage(codeOrLocale))?.script;
+
+export const scriptFontClass = (codeOrLocale: string) => {
+  const script = scriptOf(codeOrLocale);
+  return (script && scriptFonts[script]) ?? '';
+};
+
+// lang and dir attributes for an element holding text in the language
+export const textProps = (codeOrLocale: string) => ({
+  lang: codeOrLocale,
+  dir: textDirection(codeOrLocale),
+});
+
+// Wraps text in Unicode isolate marks so plain-text files show right-to-left text correctly
+// next to left-to-right labels
+export const isolateText = (text: string, code: string) =>
+  textDirection(code) === 'rtl' && text ? `\u2067${text}\u2069` : text;
@@ -1,10 +1,21 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import RoomViewer from './components/RoomViewer.tsx';
 import './index.css';
+import { readEmbedConfig } from './embed/config';
+import { registerServiceWorker } from './offline/serviceWorker';
+
+// A shared room link opens the caption viewer instead of the full app
+const params = new URLSearchParams(window.location.search);
+const room = params.get('room');
+// Other pages embed the app in an iframe with ?embed=1
+const embed = readEmbedConfig(params);
+
+registerServiceWorker();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {room ? <RoomViewer room={room.toUpperCase()} relayUrl={params.get('relay') || undefined} /> : <App embed={embed} />}
   </StrictMode>
 );
@@ -0,0 +1,10 @@
+// The service worker caches the app itself so it opens without a connection. It is left out
+// of development, where it would serve stale modules instead of Vite's.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((err) => console.error('Service worker registration failed:', err));
+  });
+};
@@ -0,0 +1,54 @@
+// Caches the app shell so the installed app opens offline. Translation, speech and sync
+// requests go to other origins and are never cached here; the app queues those itself.
+// Built into dist/sw.js by the service-worker plugin in vite.config.ts, which fills in the files
+// of the build. Paths are relative to this file, which sits at the app's base URL.
+const CACHE_NAME = `voice-translation-${self.__BUILD_ID__}`;
+const APP_SHELL = self.__APP_SHELL__.map((path) => new URL(path, self.location.href).href);
+const INDEX_URL = new URL('index.html', self.location.href).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages come from the network when possible, so a new deploy is picked up on the next visit
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(INDEX_URL, response))
+        .catch(() => caches.match(INDEX_URL))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is never stale
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+  );
+});
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+
+// Not in the DOM typings yet; only Chromium-based browsers fire it
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// The browser's install offer, kept so the app can show its own install button
+export function useInstallPrompt() {
+  const [promptEvent, setPromptEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const capture = (e: Event) => {
+      e.preventDefault();
+      setPromptEvent(e as BeforeInstallPromptEvent);
+    };
+    const clear = () => setPromptEvent(null);
+    window.addEventListener('beforeinstallprompt', capture);
+    window.addEventListener('appinstalled', clear);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', capture);
+      window.removeEventListener('appinstalled', clear);
+    };
+  }, []);
+
+  const install = async () => {
+    if (!promptEvent) return;
+    await promptEvent.prompt();
+    // A prompt can only be shown once
+    await promptEvent.userChoice;
+    setPromptEvent(null);
+  };
+
+  return { canInstall: promptEvent !== null, install };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+
+// How often queued work is tried again while the browser still reports a connection
+const RETRY_INTERVAL_MS = 30_000;
+
+interface UseQueuedRetryOptions {
+  // How many items are waiting for the connection
+  queued: number;
+  // How many items have been translated; a new one means the connection works again
+  translated: number;
+  retry: () => void;
+}
+
+// Tries queued work again when the browser comes back online, after the next translation that
+// succeeds, and on a timer, since flaky connections drop requests without ever going offline
+export function useQueuedRetry({ queued, translated, retry }: UseQueuedRetryOptions) {
+  const retryRef = useRef(retry);
+  retryRef.current = retry;
+  const translatedRef = useRef(translated);
+
+  useEffect(() => {
+    const onOnline = () => retryRef.current();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, []);
+
+  useEffect(() => {
+    const succeeded = translated > translatedRef.current;
+    translatedRef.current = translated;
+    if (succeeded && queued > 0) retryRef.current();
+  }, [translated, queued]);
+
+  useEffect(() => {
+    if (queued === 0) return;
+    const timer = window.setInterval(() => {
+      if (navigator.onLine) retryRef.current();
+    }, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [queued]);
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Translator } from '../translation/translator';
+import {
+  CustomRule,
+  DetectorId,
+  findPii,
+  InvalidRuleError,
+  redactText,
+  restoreValues,
+  ruleError,
+  withRedaction,
+} from './redaction';
+import { defaultRedactionSettings, RedactionSettings } from './settings';
+
+// Only the given detectors, so each test sees what one of them finds
+const settingsWith = (ids: DetectorId[], customRules: CustomRule[] = []): RedactionSettings => ({
+  ...defaultRedactionSettings,
+  detectors: {
+    email: ids.includes('email'),
+    creditCard: ids.includes('creditCard'),
+    thaiNationalId: ids.includes('thaiNationalId'),
+    iban: ids.includes('iban'),
+    phone: ids.includes('phone'),
+  },
+  customRules,
+});
+
+const labels = (text: string, settings: RedactionSettings = defaultRedactionSettings) =>
+  findPii(text, settings).map((m) => [m.label, m.value]);
+
+// Answers with the text it was sent, so tests can see what reached the provider
+const echoTranslator = () => {
+  const translate = vi.fn(async ({ text }: { text: string }) => ({ text: `[th] ${text}`, provider: 'mymemory' as const }));
+  const detect = vi.fn(async () => null);
+  const translator: Translator = { providers: [], translate, detect };
+  return { translator, translate, detect };
+};
+
+describe('card numbers', () => {
+  it('masks numbers that pass the Luhn check', () => {
+    expect(labels('card 4111 1111 1111 1111', settingsWith(['creditCard']))).toEqual([
+      ['CARD NUMBER', '4111 1111 1111 1111'],
+    ]);
+    expect(labels('card 5500-0000-0000-0004', settingsWith(['creditCard']))).toEqual([
+      ['CARD NUMBER', '5500-0000-0000-0004'],
+    ]);
+  });
+
+  it('leaves numbers that fail it', () => {
+    expect(labels('card 4111 1111 1111 1112', settingsWith(['creditCard']))).toEqual([]);
+  });
+});
+
+describe('Thai national IDs', () => {
+  it('masks IDs with a valid check digit, grouped or not', () => {
+    expect(labels('ID 1103700123458', settingsWith(['thaiNationalId']))).toEqual([['NATIONAL ID', '1103700123458']]);
+    expect(labels('ID 1-1037-00123-45-8', settingsWith(['thaiNationalId']))).toEqual([
+      ['NATIONAL ID', '1-1037-00123-45-8'],
+    ]);
+  });
+
+  it('leaves thirteen digits with the wrong check digit', () => {
+    expect(labels('ID 1103700123450', settingsWith(['thaiNationalId']))).toEqual([]);
+  });
+});
+
+describe('IBANs', () => {
+  it('masks IBANs whose check digits are right', () => {
+    expect(labels('pay to GB82 WEST 1234 5698 7654 32 please', settingsWith(['iban']))).toEqual([
+      ['IBAN', 'GB82 WEST 1234 5698 7654 32'],
+    ]);
+    expect(labels('DE89370400440532013000', settingsWith(['iban']))).toEqual([['IBAN', 'DE89370400440532013000']]);
+  });
+
+  it('leaves lookalikes whose check digits are wrong', () => {
+    expect(labels('pay to GB83 WEST 1234 5698 7654 32', settingsWith(['iban']))).toEqual([]);
+  });
+});
+
+describe('phone numbers', () => {
+  it('masks international, national and grouped numbers', () => {
+    const phone = settingsWith(['phone']);
+    expect(labels('call +66 81 234 5678', phone)).toEqual([['PHONE', '+66 81 234 5678']]);
+    expect(labels('call 081-234-5678', phone)).toEqual([['PHONE', '081-234-5678']]);
+    expect(labels('call 0812345678', phone)).toEqual([['PHONE', '0812345678']]);
+    expect(labels('call (02) 123 4567', phone)).toEqual([['PHONE', '(02) 123 4567']]);
+  });
+
+  it('leaves order and reference numbers', () => {
+    const phone = settingsWith(['phone']);
+    expect(labels('Order 12345678 shipped', phone)).toEqual([]);
+    expect(labels('reference 9876543210', phone)).toEqual([]);
+    expect(labels('invoice #20240115', phone)).toEqual([]);
+    expect(labels('invoice 123456789012', phone)).toEqual([]);
+  });
+
+  it('leaves short numbers and dates', () => {
+    const phone = settingsWith(['phone']);
+    expect(labels('it costs 1 299.50', phone)).toEqual([]);
+    expect(labels('delivered 2024-01-15', phone)).toEqual([]);
+  });
+});
+
+describe('all detectors together', () => {
+  it('does not report a card number as a phone number too', () => {
+    expect(labels('somchai@example.com, card 4111 1111 1111 1111, phone +66 81 234 5678')).toEqual([
+      ['EMAIL', 'somchai@example.com'],
+      ['CARD NUMBER', '4111 1111 1111 1111'],
+      ['PHONE', '+66 81 234 5678'],
+    ]);
+  });
+});
+
+describe('placeholders', () => {
+  it('swaps values for placeholders and puts them back', () => {
+    const { text, values } = redactText('mail somchai@example.com or call 081-234-5678', defaultRedactionSettings);
+    expect(text).toBe('mail __PII0__ or call __PII1__');
+    expect(values).toEqual(['somchai@example.com', '081-234-5678']);
+    expect(restoreValues('ส่งเมลถึง __PII0__ หรือโทร __PII1__', values)).toBe(
+      'ส่งเมลถึง somchai@example.com หรือโทร 081-234-5678'
+    );
+  });
+
+  it('restores placeholders that providers spaced out or changed the case of', () => {
+    expect(restoreValues('écrivez à __ pii0 __', ['somchai@example.com'])).toBe('écrivez à somchai@example.com');
+  });
+
+  it('keeps placeholders it has no value for', () => {
+    expect(restoreValues('call __PII3__', ['081-234-5678'])).toBe('call __PII3__');
+  });
+
+  it('only sends placeholders to the provider', async () => {
+    const { translator, translate } = echoTranslator();
+    const result = await withRedaction(translator, defaultRedactionSettings).translate({
+      text: 'call 081-234-5678',
+      from: 'en',
+      to: 'th',
+    });
+    expect(translate).toHaveBeenCalledWith(expect.objectContaining({ text: 'call __PII0__' }));
+    expect(result.text).toBe('[th] call 081-234-5678');
+  });
+});
+
+describe('custom rules', () => {
+  const orderRule: CustomRule = { id: 'order', name: 'Order number', pattern: 'ORD-\\d{6}' };
+  const brokenRule: CustomRule = { id: 'broken', name: 'Broken', pattern: 'ORD-(\\d{6}' };
+
+  it('masks what a rule matches under its name', () => {
+    expect(labels('about ord-123456', settingsWith([], [orderRule]))).toEqual([['ORDER NUMBER', 'ord-123456']]);
+  });
+
+  it('reports why a pattern does not compile', () => {
+    expect(ruleError(orderRule.pattern)).toBeNull();
+    expect(ruleError(brokenRule.pattern)).toMatch(/./);
+    expect(ruleError('')).toMatch(/empty/);
+  });
+
+  it('refuses to translate or detect while a rule does not compile', async () => {
+    const { translator, translate, detect } = echoTranslator();
+    const redacting = withRedaction(translator, settingsWith([], [orderRule, brokenRule]));
+
+    await expect(redacting.translate({ text: 'about ORD-(123456', from: 'en', to: 'th' })).rejects.toBeInstanceOf(
+      InvalidRuleError
+    );
+    await expect(redacting.detect('about ORD-(123456')).rejects.toThrow('"Broken"');
+    expect(translate).not.toHaveBeenCalled();
+    expect(detect).not.toHaveBeenCalled();
+  });
+
+  it('does not check rules while redaction is off', async () => {
+    const { translator, translate } = echoTranslator();
+    const settings = { ...settingsWith([], [brokenRule]), enabled: false };
+    await withRedaction(translator, settings).translate({ text: 'hello', from: 'en', to: 'th' });
+    expect(translate).toHaveBeenCalled();
+  });
+});
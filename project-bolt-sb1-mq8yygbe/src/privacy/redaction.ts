@@ -0,0 +1,243 @@
+import { Session } from '../conversation/types';
+import { Translator } from '../translation/translator';
+import { RedactionSettings } from './settings';
+
+export type DetectorId = 'email' | 'creditCard' | 'thaiNationalId' | 'iban' | 'phone';
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  // Regular expression source, matched case-insensitively
+  pattern: string;
+}
+
+export interface PiiMatch {
+  start: number;
+  end: number;
+  value: string;
+  // Shown in place of the value in exports, e.g. EMAIL or a custom rule's name
+  label: string;
+}
+
+export interface RedactedText {
+  text: string;
+  values: string[];
+}
+
+interface Detector {
+  id: DetectorId;
+  name: string;
+  label: string;
+  pattern: RegExp;
+  isValid?: (match: string) => boolean;
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// The 13th digit is a checksum over the first twelve, weighted 13 down to 2
+const isThaiNationalId = (match: string) => {
+  const digits = digitsOf(match);
+  if (digits.length !== 13) return false;
+  const sum = [...digits.slice(0, 12)].reduce((total, d, i) => total + Number(d) * (13 - i), 0);
+  return (11 - (sum % 11)) % 10 === Number(digits[12]);
+};
+
+// ISO 13616: move the country code and check digits to the end, and the number mod 97 is 1
+const isIban = (match: string) => {
+  const compact = match.replace(/\s/g, '').toUpperCase();
+  if (compact.length < 15 || compact.length > 34) return false;
+  const numeric = (compact.slice(4) + compact.slice(0, 4)).replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// Short runs are more likely prices or order quantities, and ISO dates are not numbers to hide. A
+// bare run of digits only counts when it starts with a trunk prefix 0; order and reference numbers
+// are read out like that, while phone numbers come with a + or 0, or split into groups.
+const isPhoneNumber = (match: string) => {
+  const digits = digitsOf(match);
+  if (digits.length < 8 || digits.length > 15 || /^\d{4}-\d{2}-\d{2}$/.test(match)) return false;
+  return match !== digits || digits.startsWith('0');
+};
+
+// Checked in this order, so an ID or card number is not mistaken for a phone number
+export const detectors: Detector[] = [
+  {
+    id: 'email',
+    label: 'EMAIL',
+    name: 'Email addresses',
+    pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    name: 'IBANs',
+    // Printed IBANs are upper case in groups of four
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    isValid: isIban,
+  },
+  {
+    id: 'thaiNationalId',
+    label: 'NATIONAL ID',
+    name: 'Thai national ID numbers',
+    pattern: /(?<!\d)\d[ -]?\d{4}[ -]?\d{5}[ -]?\d{2}[ -]?\d(?!\d)/g,
+    isValid: isThaiNationalId,
+  },
+  {
+    id: 'creditCard',
+    label: 'CARD NUMBER',
+    name: 'Card numbers (Luhn checked)',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    isValid: (match) => passesLuhn(digitsOf(match)),
+  },
+  {
+    id: 'phone',
+    label: 'PHONE',
+    name: 'Phone numbers',
+    pattern: /(?<![\d+])\+?\(?\d{1,4}\)?(?:[ .-]?\(?\d{1,4}\)?){2,5}(?!\d)/g,
+    isValid: isPhoneNumber,
+  },
+];
+
+export const detectorNames: Record<DetectorId, string> = Object.fromEntries(
+  detectors.map((d) => [d.id, d.name])
+) as Record<DetectorId, string>;
+
+// Why a custom rule's pattern does not compile, or null when it does
+export const ruleError = (pattern: string) => {
+  if (!pattern) return 'The pattern is empty';
+  try {
+    new RegExp(pattern, 'giu');
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+export const compileRule = (rule: CustomRule) => (ruleError(rule.pattern) ? null : new RegExp(rule.pattern, 'giu'));
+
+export const invalidRules = (settings: RedactionSettings) => settings.customRules.filter((rule) => !compileRule(rule));
+
+export class InvalidRuleError extends Error {
+  readonly rules: CustomRule[];
+
+  constructor(rules: CustomRule[]) {
+    super(`Redaction rule ${rules.map((r) => `"${r.name}"`).join(', ')} is not a valid regular expression`);
+    this.name = 'InvalidRuleError';
+    this.rules = rules;
+  }
+}
+
+// Exports are masked whenever redaction is on, unless the agent chose to keep them as spoken
+export const masksExports = (settings: RedactionSettings) => settings.enabled && !settings.unmaskedExports;
+
+// Every value the enabled detectors and rules find, without overlaps, in text order. Rules that
+// do not compile find nothing here; withRedaction refuses to translate while there are any.
+export const findPii = (text: string, settings: RedactionSettings): PiiMatch[] => {
+  if (!text) return [];
+
+  const candidates: { pattern: RegExp; label: string; isValid?: (match: string) => boolean }[] = [
+    ...detectors.filter((d) => settings.detectors[d.id]),
+    ...settings.customRules.flatMap((rule) => {
+      const pattern = compileRule(rule);
+      return pattern ? [{ pattern, label: rule.name.trim().toUpperCase() || 'REDACTED' }] : [];
+    }),
+  ];
+
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some((m) => start < m.end && end > m.start);
+  for (const { pattern, label, isValid } of candidates) {
+    for (const found of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      const value = found[0];
+      const start = found.index ?? 0;
+      const end = start + value.length;
+      if (!value.trim() || overlaps(start, end) || (isValid && !isValid(value))) continue;
+      matches.push({ start, end, value, label });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+// Same shape as the glossary's placeholders, which providers leave alone
+const placeholder = (index: number) => `__PII${index}__`;
+const PLACEHOLDER_PATTERN = /_\s*_\s*PII\s*(\d+)\s*_\s*_/gi;
+
+// Swaps personal data for placeholders before text is sent anywhere
+export const redactText = (text: string, settings: RedactionSettings): RedactedText => {
+  const matches = findPii(text, settings);
+  if (matches.length === 0) return { text, values: [] };
+
+  let redacted = '';
+  let position = 0;
+  matches.forEach((match, i) => {
+    redacted += text.slice(position, match.start) + placeholder(i);
+    position = match.end;
+  });
+  return { text: redacted + text.slice(position), values: matches.map((m) => m.value) };
+};
+
+export const restoreValues = (text: string, values: string[]) =>
+  values.length === 0
+    ? text
+    : text.replace(PLACEHOLDER_PATTERN, (match, index) => values[Number(index)] ?? match);
+
+// For files that leave the app: values are replaced by a label and cannot be restored
+export const maskText = (text: string, settings: RedactionSettings) => {
+  const matches = findPii(text, settings);
+  let masked = '';
+  let position = 0;
+  for (const match of matches) {
+    masked += `${text.slice(position, match.start)}[${match.label}]`;
+    position = match.end;
+  }
+  return masked + text.slice(position);
+};
+
+export const maskSession = (session: Session, settings: RedactionSettings): Session => ({
+  ...session,
+  turns: session.turns.map((turn) => ({
+    ...turn,
+    sourceText: maskText(turn.sourceText, settings),
+    translatedText: maskText(turn.translatedText, settings),
+  })),
+});
+
+// A rule that does not compile would let what it was meant to mask through, so nothing is sent
+const checkRules = (settings: RedactionSettings) => {
+  const invalid = invalidRules(settings);
+  if (invalid.length > 0) throw new InvalidRuleError(invalid);
+};
+
+// Providers only ever see placeholders; the original values are put back into their answers here
+export const withRedaction = (translator: Translator, settings: RedactionSettings): Translator => ({
+  providers: translator.providers,
+  async translate(request) {
+    if (!settings.enabled) return translator.translate(request);
+    checkRules(settings);
+    const { text, values } = redactText(request.text, settings);
+    if (values.length === 0) return translator.translate(request);
+    const result = await translator.translate({ ...request, text });
+    return { ...result, text: restoreValues(result.text, values) };
+  },
+  async detect(text, signal) {
+    if (!settings.enabled) return translator.detect(text, signal);
+    checkRules(settings);
+    return translator.detect(redactText(text, settings).text, signal);
+  },
+});
@@ -0,0 +1,46 @@
+import { CustomRule, DetectorId } from './redaction';
+
+export interface RedactionSettings {
+  // Masks personal data before translation and language detection, in shared captions and in synced sessions
+  enabled: boolean;
+  detectors: Record<DetectorId, boolean>;
+  customRules: CustomRule[];
+  // Exports are masked too while redaction is on, where values cannot be restored; this opts out
+  unmaskedExports: boolean;
+}
+
+const STORAGE_KEY = 'voice-translation:redaction';
+
+export const defaultRedactionSettings: RedactionSettings = {
+  enabled: true,
+  detectors: {
+    email: true,
+    creditCard: true,
+    thaiNationalId: true,
+    iban: true,
+    phone: true,
+  },
+  customRules: [],
+  unmaskedExports: false,
+};
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultRedactionSettings;
+    const parsed = JSON.parse(stored) as Partial<RedactionSettings>;
+    return {
+      ...defaultRedactionSettings,
+      ...parsed,
+      detectors: { ...defaultRedactionSettings.detectors, ...parsed.detectors },
+      customRules: Array.isArray(parsed.customRules) ? parsed.customRules : [],
+    };
+  } catch (err) {
+    console.error('Failed to load redaction settings:', err);
+    return defaultRedactionSettings;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,40 @@
+import { deleteRecord, getAllRecords, putRecord } from '../storage/db';
+import { matchText } from '../translation/memory';
+import { QuickReply } from './types';
+
+export type QuickReplyDraft = Omit<QuickReply, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+export const listQuickReplies = async () => {
+  const replies = await getAllRecords<QuickReply>('quickReplies');
+  return replies.sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title));
+};
+
+export const saveQuickReply = async (draft: QuickReplyDraft, existing?: QuickReply) => {
+  const now = Date.now();
+  // Drop empty translations so they don't shadow machine translation
+  const translations = Object.fromEntries(Object.entries(draft.translations).filter(([, text]) => text.trim()));
+  const reply: QuickReply = {
+    ...draft,
+    id: draft.id ?? crypto.randomUUID(),
+    translations,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putRecord('quickReplies', reply);
+  return reply;
+};
+
+export const deleteQuickReply = (id: string) => deleteRecord('quickReplies', id);
+
+// Quick replies double as a phrasebook: any two of a reply's languages translate each other
+export const findPhrasebookTranslation = async (from: string, to: string, text: string) => {
+  const key = matchText(text);
+  const replies = await getAllRecords<QuickReply>('quickReplies');
+  for (const reply of replies) {
+    const versions: Record<string, string> = { ...reply.translations, [reply.language]: reply.text };
+    if (versions[from] !== undefined && versions[to] && matchText(versions[from]) === key) {
+      return versions[to];
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { extractVariables, fillTemplate } from './template';
+
+describe('extractVariables', () => {
+  it('lists each variable once, in order of first use', () => {
+    expect(extractVariables('Hi {name}, order {order} ships to {name} on {date}.')).toEqual(['name', 'order', 'date']);
+  });
+
+  it('ignores braces that do not hold a variable name', () => {
+    expect(extractVariables('{} { name } {first-name} {{ok}}')).toEqual(['ok']);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills every use of a variable with its trimmed value', () => {
+    expect(fillTemplate('Hi {name}, thanks {name}!', { name: '  Somchai ' })).toBe('Hi Somchai, thanks Somchai!');
+  });
+
+  it('leaves variables without a value in place', () => {
+    expect(fillTemplate('Order {order} ships on {date}.', { order: 'A-17', date: '  ' })).toBe(
+      'Order A-17 ships on {date}.'
+    );
+  });
+
+  it('does not treat Object.prototype members as values', () => {
+    expect(fillTemplate('{constructor} {toString} {__proto__}', {})).toBe('{constructor} {toString} {__proto__}');
+    expect(fillTemplate('{constructor}', { constructor: 'Acme' })).toBe('Acme');
+  });
+});
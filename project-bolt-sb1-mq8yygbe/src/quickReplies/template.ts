@@ -0,0 +1,28 @@
+import { QuickReply } from './types';
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+export const extractVariables = (text: string) => Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (m) => m[1])));
+
+// Unfilled variables are left in place so the agent can see what is missing. Only the values'
+// own keys count, so a variable like {constructor} does not pick up Object.prototype.
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name].trim() || match : match
+  );
+
+export const replyTextFor = (reply: QuickReply, language: string) =>
+  reply.language === language ? reply.text : reply.translations[language] ?? reply.text;
+
+export const approvedTranslationFor = (reply: QuickReply, language: string) =>
+  reply.language === language ? reply.text : reply.translations[language];
+
+export const matchesQuery = (reply: QuickReply, query: string) => {
+  const needle = query.trim().toLocaleLowerCase();
+  return (
+    !needle ||
+    [reply.title, reply.category, reply.text, reply.shortcut ?? ''].some((field) =>
+      field.toLocaleLowerCase().includes(needle)
+    )
+  );
+};
@@ -0,0 +1,14 @@
+export interface QuickReply {
+  id: string;
+  category: string;
+  title: string;
+  // The language `text` is written in
+  language: string;
+  text: string;
+  // Pre-approved human translations, keyed by language code
+  translations: Record<string, string>;
+  // Digit for the Alt+<digit> shortcut
+  shortcut?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,80 @@
+import { BroadcastSegment } from '../translation/useBroadcastTranslation';
+
+// Messages exchanged with the caption relay (server/caption-relay.js)
+
+export const DEFAULT_RELAY_URL = import.meta.env.VITE_ROOM_RELAY_URL || 'ws://localhost:5200';
+
+// How many recent segments a captions snapshot carries
+export const MAX_CAPTION_SEGMENTS = 50;
+
+export type RoomStatus = 'idle' | 'connecting' | 'open' | 'closed' | 'error';
+
+export interface CaptionSegment {
+  id: string;
+  text: string;
+  // Finished translations keyed by language code
+  translations: Record<string, string>;
+}
+
+export interface CaptionsMessage {
+  type: 'captions';
+  sourceLanguage: string;
+  segments: CaptionSegment[];
+  // What the speaker is saying right now, not yet final
+  interim: string;
+}
+
+export interface RoomViewer {
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface RoomReply {
+  viewerId: string;
+  name: string;
+  language: string;
+  text: string;
+}
+
+// Viewers only get finished translations, passed through mask on the way out
+export const toCaptionSegment = (
+  { id, text, translations }: BroadcastSegment,
+  mask: (text: string) => string
+): CaptionSegment => ({
+  id,
+  text: mask(text),
+  translations: Object.fromEntries(
+    Object.entries(translations)
+      .filter(([, t]) => t.status === 'translated')
+      .map(([language, t]) => [language, mask(t.text)])
+  ),
+});
+
+export type RelayMessage =
+  | { type: 'hosted'; room: string }
+  | { type: 'joined'; room: string }
+  | { type: 'viewers'; viewers: RoomViewer[] }
+  | ({ type: 'reply' } & RoomReply)
+  | CaptionsMessage
+  | { type: 'closed' }
+  | { type: 'error'; message: string };
+
+export const parseRelayMessage = (data: unknown): RelayMessage | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn('Ignoring malformed relay message:', data);
+    return null;
+  }
+};
+
+// Link that opens the viewer for a room in this app. The relay goes along, since viewers on
+// other machines cannot reach the host's localhost.
+export const roomLink = (room: string, relayUrl: string) => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ room, relay: relayUrl }).toString();
+  url.hash = '';
+  return url.toString();
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { languages } from '../languages';
+import { CaptionsMessage, parseRelayMessage, RoomReply, RoomStatus, RoomViewer } from './types';
+
+interface UseHostRoomOptions {
+  relayUrl: string;
+  onReply: (reply: RoomReply) => void;
+  onError: (message: string) => void;
+}
+
+// Hosts a live-caption room on the relay and keeps its viewers up to date
+export function useHostRoom({ relayUrl, onReply, onError }: UseHostRoomOptions) {
+  const [status, setStatus] = useState<RoomStatus>('idle');
+  const [room, setRoom] = useState<string | null>(null);
+  const [viewers, setViewers] = useState<RoomViewer[]>([]);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const callbacksRef = useRef({ onReply, onError });
+  callbacksRef.current = { onReply, onError };
+
+  const close = useCallback(() => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setStatus('idle');
+    setRoom(null);
+    setViewers([]);
+  }, []);
+
+  const open = useCallback(() => {
+    if (socketRef.current) return;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(relayUrl);
+    } catch (err) {
+      console.error('Failed to connect to caption relay:', err);
+      setStatus('error');
+      callbacksRef.current.onError('Invalid caption relay URL.');
+      return;
+    }
+    socketRef.current = socket;
+    setStatus('connecting');
+
+    // Events from a socket that has been closed or replaced are ignored
+    const isCurrent = () => socketRef.current === socket;
+
+    // The relay only lets viewers pick languages from this list
+    socket.addEventListener('open', () =>
+      socket.send(JSON.stringify({ type: 'host', languages: languages.map((l) => l.code) }))
+    );
+    socket.addEventListener('message', (event) => {
+      if (!isCurrent()) return;
+      const message = parseRelayMessage(event.data);
+      switch (message?.type) {
+        case 'hosted':
+          setRoom(message.room);
+          setStatus('open');
+          break;
+        case 'viewers':
+          setViewers(message.viewers);
+          break;
+        case 'reply':
+          callbacksRef.current.onReply(message);
+          break;
+        case 'error':
+          callbacksRef.current.onError(`Caption room: ${message.message}`);
+          break;
+      }
+    });
+    socket.addEventListener('error', () => {
+      if (!isCurrent()) return;
+      setStatus('error');
+      callbacksRef.current.onError('Could not reach the caption relay. Is it running?');
+    });
+    socket.addEventListener('close', () => {
+      if (!isCurrent()) return;
+      socketRef.current = null;
+      setStatus((prev) => (prev === 'error' ? prev : 'closed'));
+      setRoom(null);
+      setViewers([]);
+    });
+  }, [relayUrl]);
+
+  // Sends the current captions to every viewer; the relay keeps them for viewers who join later
+  const publish = useCallback((captions: CaptionsMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(captions));
+  }, []);
+
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  return { status, room, viewers, open, close, publish };
+}
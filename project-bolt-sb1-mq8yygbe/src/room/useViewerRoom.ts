@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CaptionsMessage, parseRelayMessage, RoomStatus } from './types';
+
+interface UseViewerRoomOptions {
+  relayUrl: string;
+  room: string;
+  name: string;
+  // The language this viewer wants captions in; the host translates into it
+  language: string;
+}
+
+// Joins a live-caption room as a viewer
+export function useViewerRoom({ relayUrl, room, name, language }: UseViewerRoomOptions) {
+  const [status, setStatus] = useState<RoomStatus>('idle');
+  const [captions, setCaptions] = useState<CaptionsMessage | null>(null);
+  const [error, setError] = useState('');
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  const join = useCallback(() => {
+    if (socketRef.current) return;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(relayUrl);
+    } catch (err) {
+      console.error('Failed to connect to caption relay:', err);
+      setStatus('error');
+      setError('Invalid caption relay URL.');
+      return;
+    }
+    socketRef.current = socket;
+    setStatus('connecting');
+    setError('');
+
+    const isCurrent = () => socketRef.current === socket;
+    let joined = false;
+
+    socket.addEventListener('open', () => {
+      socket.send(JSON.stringify({ type: 'join', room, name, language: languageRef.current }));
+    });
+    socket.addEventListener('message', (event) => {
+      if (!isCurrent()) return;
+      const message = parseRelayMessage(event.data);
+      switch (message?.type) {
+        case 'joined':
+          joined = true;
+          setStatus('open');
+          break;
+        case 'captions':
+          setCaptions(message);
+          break;
+        case 'closed':
+          setError('The host has ended the session.');
+          break;
+        case 'error':
+          setError(message.message);
+          // A room that does not exist is not going to appear, so stop waiting for it
+          if (!joined) {
+            setStatus('error');
+            socket.close();
+          }
+          break;
+      }
+    });
+    socket.addEventListener('error', () => {
+      if (!isCurrent()) return;
+      setStatus('error');
+      setError('Could not reach the caption relay.');
+    });
+    socket.addEventListener('close', () => {
+      if (!isCurrent()) return;
+      socketRef.current = null;
+      setStatus((prev) => (prev === 'error' ? prev : 'closed'));
+    });
+  }, [relayUrl, room, name]);
+
+  const leave = useCallback(() => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setStatus('idle');
+  }, []);
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (status === 'open' && socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'language', language }));
+    }
+  }, [language, status]);
+
+  const sendReply = useCallback((text: string) => {
+    const socket = socketRef.current;
+    if (!text.trim() || socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify({ type: 'reply', text: text.trim() }));
+    return true;
+  }, []);
+
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  return { status, captions, error, join, leave, sendReply };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DecodedAudio, encodeWav, splitOnSilence, TRANSCRIPTION_SAMPLE_RATE } from './audioFile';
+
+// A recording made of stretches of constant level, each [seconds, level]
+const recording = (...stretches: [number, number][]): DecodedAudio => {
+  const samples = new Float32Array(stretches.reduce((n, [seconds]) => n + Math.round(seconds * TRANSCRIPTION_SAMPLE_RATE), 0));
+  let offset = 0;
+  for (const [seconds, level] of stretches) {
+    const length = Math.round(seconds * TRANSCRIPTION_SAMPLE_RATE);
+    samples.fill(level, offset, offset + length);
+    offset += length;
+  }
+  return { samples, sampleRate: TRANSCRIPTION_SAMPLE_RATE, duration: samples.length / TRANSCRIPTION_SAMPLE_RATE };
+};
+
+const rounded = (chunks: { start: number; end: number }[]) =>
+  chunks.map(({ start, end }) => ({ start: Number(start.toFixed(2)), end: Number(end.toFixed(2)) }));
+
+describe('splitOnSilence', () => {
+  it('cuts in the middle of pauses, keeping a little of the pause on each side', () => {
+    const audio = recording([1, 0.5], [1, 0], [1, 0.5]);
+    expect(rounded(splitOnSilence(audio))).toEqual([
+      { start: 0, end: 1.24 },
+      { start: 1.76, end: 3 },
+    ]);
+  });
+
+  it('does not cut at pauses shorter than half a second', () => {
+    const audio = recording([1, 0.5], [0.3, 0], [1, 0.5], [2, 0]);
+    expect(rounded(splitOnSilence(audio))).toEqual([{ start: 0, end: 2.54 }]);
+  });
+
+  it('cuts speech without pauses at its quietest point, at most 30 seconds in', () => {
+    // A dip at 30 s in, then steady speech that has to be cut at the limit
+    const audio = recording([10, 0], [20, 0.5], [0.1, 0.05], [39.9, 0.5]);
+    expect(rounded(splitOnSilence(audio))).toEqual([
+      { start: 9.76, end: 30 },
+      { start: 30, end: 60 },
+      { start: 60, end: 70 },
+    ]);
+  });
+
+  it('judges silence against the noise floor of the recording', () => {
+    // Hum at 0.05 is louder than the fixed minimum, but three times it still counts as silence
+    const audio = recording([1, 0.5], [1, 0.05], [1, 0.5], [1, 0.05]);
+    expect(rounded(splitOnSilence(audio))).toEqual([
+      { start: 0, end: 1.24 },
+      { start: 1.76, end: 3.24 },
+    ]);
+  });
+
+  it('finds nothing in an empty or silent recording', () => {
+    expect(splitOnSilence(recording())).toEqual([]);
+    expect(splitOnSilence(recording([2, 0]))).toEqual([]);
+  });
+});
+
+describe('encodeWav', () => {
+  const header = async (wav: Blob) => {
+    const view = new DataView(await wav.arrayBuffer());
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+    return {
+      riff: text(0),
+      riffSize: view.getUint32(4, true),
+      wave: text(8),
+      fmt: text(12),
+      fmtSize: view.getUint32(16, true),
+      format: view.getUint16(20, true),
+      channels: view.getUint16(22, true),
+      sampleRate: view.getUint32(24, true),
+      byteRate: view.getUint32(28, true),
+      blockAlign: view.getUint16(32, true),
+      bitsPerSample: view.getUint16(34, true),
+      data: text(36),
+      dataSize: view.getUint32(40, true),
+    };
+  };
+
+  it('writes a 16-bit mono PCM header for the chunk', async () => {
+    const wav = encodeWav(recording([2, 0.5]), { start: 0.5, end: 1 });
+    expect(wav.type).toBe('audio/wav');
+    expect(wav.size).toBe(44 + 16000);
+    expect(await header(wav)).toEqual({
+      riff: 'RIFF',
+      riffSize: 36 + 16000,
+      wave: 'WAVE',
+      fmt: 'fmt ',
+      fmtSize: 16,
+      format: 1,
+      channels: 1,
+      sampleRate: 16000,
+      byteRate: 32000,
+      blockAlign: 2,
+      bitsPerSample: 16,
+      data: 'data',
+      dataSize: 16000,
+    });
+  });
+
+  it('clamps samples outside -1 to 1 to the loudest 16-bit values', async () => {
+    const audio = { samples: Float32Array.of(2, -2, 1, -1, 0.5, 0), sampleRate: 16000, duration: 6 / 16000 };
+    const wav = encodeWav(audio, { start: 0, end: audio.duration });
+    expect(Array.from(new Int16Array((await wav.arrayBuffer()).slice(44)))).toEqual([
+      32767, -32768, 32767, -32768, 16383, 0,
+    ]);
+  });
+
+  it('writes an empty data chunk when the chunk ends before it starts', async () => {
+    const wav = encodeWav(recording([1, 0.5]), { start: 0.5, end: 0.25 });
+    expect((await header(wav)).dataSize).toBe(0);
+    expect(wav.size).toBe(44);
+  });
+});
@@ -0,0 +1,127 @@
+// Recordings are converted to 16 kHz mono, the rate speech models are trained on, which also
+// keeps uploads small whatever the original format
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+// Pieces sent for recognition are cut at pauses, and never run longer than this
+const MAX_CHUNK_SECONDS = 30;
+const MIN_PAUSE_SECONDS = 0.5;
+const FRAME_SECONDS = 0.02;
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+// Seconds from the start of the recording
+export interface AudioChunk {
+  start: number;
+  end: number;
+}
+
+// Decodes WAV, MP3, WebM or anything else the browser can play
+export const decodeAudioFile = async (file: Blob): Promise<DecodedAudio> => {
+  const data = await file.arrayBuffer();
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(data);
+  } finally {
+    context.close();
+  }
+
+  // Rendering through a mono context at the target rate downmixes and resamples in one go
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * TRANSCRIPTION_SAMPLE_RATE), TRANSCRIPTION_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return { samples: rendered.getChannelData(0), sampleRate: TRANSCRIPTION_SAMPLE_RATE, duration: decoded.duration };
+};
+
+const frameLevels = (audio: DecodedAudio) => {
+  const frameLength = Math.round(audio.sampleRate * FRAME_SECONDS);
+  const levels = new Float32Array(Math.ceil(audio.samples.length / frameLength));
+  for (let f = 0; f < levels.length; f++) {
+    let sum = 0;
+    const end = Math.min(audio.samples.length, (f + 1) * frameLength);
+    for (let i = f * frameLength; i < end; i++) sum += audio.samples[i] * audio.samples[i];
+    levels[f] = Math.sqrt(sum / Math.max(1, end - f * frameLength));
+  }
+  return levels;
+};
+
+// Splits a recording into spoken passages at its pauses. Silence is judged against the
+// recording's own noise floor, so quiet and loud recordings split alike.
+export const splitOnSilence = (audio: DecodedAudio): AudioChunk[] => {
+  const levels = frameLevels(audio);
+  if (levels.length === 0) return [];
+  const noiseFloor = [...levels].sort((a, b) => a - b)[Math.floor(levels.length * 0.1)];
+  const threshold = Math.max(0.01, noiseFloor * 3);
+  const isSilent = (f: number) => levels[f] < threshold;
+
+  const minPauseFrames = Math.round(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+  const maxChunkFrames = Math.round(MAX_CHUNK_SECONDS / FRAME_SECONDS);
+  const chunks: [number, number][] = [];
+  let start = -1;
+  let silentRun = 0;
+  for (let f = 0; f < levels.length; f++) {
+    if (isSilent(f)) {
+      silentRun++;
+      // A long enough pause ends the passage in its middle
+      if (start >= 0 && silentRun === minPauseFrames) {
+        chunks.push([start, f - Math.floor(minPauseFrames / 2)]);
+        start = -1;
+      }
+      continue;
+    }
+    silentRun = 0;
+    if (start < 0) start = Math.max(0, f - Math.floor(minPauseFrames / 2));
+    // Without a pause, cut at the quietest frame of the passage's second half
+    if (f - start >= maxChunkFrames) {
+      let cut = f;
+      for (let g = start + Math.floor(maxChunkFrames / 2); g < f; g++) {
+        if (levels[g] < levels[cut]) cut = g;
+      }
+      chunks.push([start, cut]);
+      start = cut;
+    }
+  }
+  if (start >= 0) chunks.push([start, levels.length]);
+
+  return chunks.map(([from, to]) => ({
+    start: from * FRAME_SECONDS,
+    end: Math.min(audio.duration, to * FRAME_SECONDS),
+  }));
+};
+
+// 16-bit PCM WAV, which every speech service accepts
+export const encodeWav = (audio: DecodedAudio, chunk: AudioChunk): Blob => {
+  const from = Math.floor(chunk.start * audio.sampleRate);
+  const samples = audio.samples.subarray(from, Math.max(from, Math.ceil(chunk.end * audio.sampleRate)));
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,88 @@
+import { RecognitionAlternative, RecognitionResult, RecognizerEvents, RecognizerOptions, SpeechRecognizer } from './types';
+
+export interface SpeechRecognitionEvent extends Event {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+export interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+export interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  addEventListener(type: 'result', listener: (event: SpeechRecognitionEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: SpeechRecognitionErrorEvent) => void): void;
+  addEventListener(type: 'start' | 'end', listener: () => void): void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+export const isBrowserRecognitionSupported = () =>
+  'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
+
+export const createBrowserRecognition = (): SpeechRecognition | null => {
+  if (!isBrowserRecognitionSupported()) return null;
+  const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
+  return new SpeechRecognitionAPI();
+};
+
+// Some engines report 0 when they have no score at all
+const toAlternative = (alternative: SpeechRecognitionAlternative): RecognitionAlternative => ({
+  transcript: alternative.transcript,
+  confidence: alternative.confidence > 0 ? alternative.confidence : undefined,
+});
+
+const toResult = (result: SpeechRecognitionResult): RecognitionResult => {
+  const [best, ...others] = Array.from(result, toAlternative);
+  const alternatives = others.filter((a) => a.transcript.trim() && a.transcript.trim() !== best.transcript.trim());
+  return { ...best, alternatives };
+};
+
+export const createBrowserRecognizer = (
+  options: RecognizerOptions,
+  events: RecognizerEvents
+): SpeechRecognizer | null => {
+  const recognition = createBrowserRecognition();
+  if (!recognition) return null;
+
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = options.locale;
+  recognition.maxAlternatives = options.maxAlternatives;
+
+  recognition.addEventListener('result', (event: SpeechRecognitionEvent) => {
+    let interimTranscript = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      if (event.results[i].isFinal) {
+        events.onFinal(toResult(event.results[i]));
+      } else {
+        interimTranscript += event.results[i][0].transcript;
+      }
+    }
+    if (interimTranscript) {
+      events.onInterim(interimTranscript);
+    }
+  });
+  recognition.addEventListener('start', () => events.onStart());
+  recognition.addEventListener('error', (event) => events.onError(event.error));
+  recognition.addEventListener('end', () => events.onEnd());
+
+  return {
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+    abort: () => recognition.abort(),
+  };
+};
@@ -0,0 +1,46 @@
+import { findLanguage, languageName } from '../languages';
+import { voicesForLanguage } from './synthesisSettings';
+
+// Speech output needs the language to be supported and, once voices have loaded, a voice for it
+export const canSpeakLanguage = (code: string, voices: SpeechSynthesisVoice[]) =>
+  (findLanguage(code)?.supports.tts ?? 'none') !== 'none' && (voices.length === 0 || voicesForLanguage(voices, code).length > 0);
+
+export const canRecognizeLanguage = (code: string) => (findLanguage(code)?.supports.stt ?? 'none') !== 'none';
+
+// Recognized by Chrome and Edge but not by every browser
+const isRecognitionLimited = (code: string) => findLanguage(code)?.supports.stt === 'partial';
+
+export const canTranslateLanguage = (code: string) => (findLanguage(code)?.supports.translation ?? 'none') !== 'none';
+
+// Translated by MyMemory and LibreTranslate but not by every provider, e.g. DeepL
+const isTranslationLimited = (code: string) => findLanguage(code)?.supports.translation === 'partial';
+
+// What a customer (input) / agent (output) language pair cannot do, as user-facing notes
+export const languagePairGaps = (input: string, output: string, voices: SpeechSynthesisVoice[]) => {
+  const gaps: string[] = [];
+  for (const code of new Set([input, output])) {
+    if (!canTranslateLanguage(code)) {
+      gaps.push(`${languageName(code)} cannot be translated by any provider.`);
+    } else if (isTranslationLimited(code)) {
+      gaps.push(`${languageName(code)} is only translated by some providers, such as MyMemory and LibreTranslate.`);
+    }
+  }
+  if (!canRecognizeLanguage(input)) {
+    gaps.push(`${languageName(input)} speech cannot be recognized, so the customer's side has to be typed.`);
+  }
+  if (!canRecognizeLanguage(output)) {
+    gaps.push(`${languageName(output)} speech cannot be recognized, so agent replies have to be typed.`);
+  }
+  for (const code of new Set([input, output])) {
+    if (isRecognitionLimited(code)) {
+      gaps.push(`${languageName(code)} speech is only recognized in some browsers, such as Chrome and Edge.`);
+    }
+  }
+  if (!canSpeakLanguage(output, voices)) {
+    gaps.push(`No ${languageName(output)} voice is available to read translations to the agent.`);
+  }
+  if (!canSpeakLanguage(input, voices)) {
+    gaps.push(`No ${languageName(input)} voice is available to read replies to the customer.`);
+  }
+  return gaps;
+};
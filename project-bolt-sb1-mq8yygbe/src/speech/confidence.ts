@@ -0,0 +1,35 @@
+import { RecognitionAlternative } from './types';
+
+// Below this a segment is shown as uncertain
+export const LOW_CONFIDENCE = 0.7;
+
+export interface TranscriptToken {
+  text: string;
+  uncertain: boolean;
+}
+
+const normalizeWord = (word: string) => word.toLocaleLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+export const isLowConfidence = (confidence?: number) => confidence !== undefined && confidence < LOW_CONFIDENCE;
+
+// The engine only scores whole results, so in a low-confidence result the words the
+// alternatives disagree on are the ones flagged. Without alternatives every word is flagged.
+export const tokenizeByConfidence = (
+  text: string,
+  confidence: number | undefined,
+  alternatives: RecognitionAlternative[] = []
+): TranscriptToken[] => {
+  if (!isLowConfidence(confidence)) {
+    return [{ text, uncertain: false }];
+  }
+
+  const alternativeWords = alternatives.map(
+    (a) => new Set(a.transcript.split(/\s+/).map(normalizeWord).filter(Boolean))
+  );
+  return text.split(/(\s+)/).filter(Boolean).map((part) => {
+    const word = normalizeWord(part);
+    const uncertain =
+      word !== '' && (alternativeWords.length === 0 || alternativeWords.some((words) => !words.has(word)));
+    return { text: part, uncertain };
+  });
+};
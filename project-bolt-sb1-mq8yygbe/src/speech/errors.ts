@@ -0,0 +1,16 @@
+// Errors the user has to fix; restarting would only fail again
+const fatalErrors = new Set(['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported']);
+
+const errorMessages: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied. Allow it in the browser’s site settings and try again.',
+  'service-not-allowed': 'The speech recognition service is not allowed on this page.',
+  'audio-capture': 'No microphone was found, or it is in use by another application.',
+  'language-not-supported': 'Speech recognition does not support this language.',
+  network: 'Speech recognition lost its network connection.',
+  'no-speech': 'No speech was detected.',
+};
+
+export const isFatalRecognitionError = (code: string) => fatalErrors.has(code);
+
+export const recognitionErrorMessage = (code: string) =>
+  errorMessages[code] ?? `Speech recognition error: ${code}`;
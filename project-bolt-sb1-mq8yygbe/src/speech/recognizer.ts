@@ -0,0 +1,25 @@
+import { createBrowserRecognizer, isBrowserRecognitionSupported } from './browserRecognition';
+import { SpeechSettings } from './settings';
+import { RecognizerEvents, RecognizerOptions, SpeechRecognizer } from './types';
+import { createWebSocketRecognizer, isWebSocketRecognitionSupported } from './websocketRecognizer';
+
+type EngineSettings = Pick<SpeechSettings, 'engine' | 'websocket'>;
+
+export const isEngineAvailable = (settings: EngineSettings) =>
+  settings.engine === 'browser'
+    ? isBrowserRecognitionSupported()
+    : isWebSocketRecognitionSupported() && Boolean(settings.websocket.url);
+
+// Returns null when the selected engine cannot run here
+export const createRecognizer = (
+  settings: EngineSettings,
+  options: RecognizerOptions,
+  events: RecognizerEvents
+): SpeechRecognizer | null => {
+  switch (settings.engine) {
+    case 'browser':
+      return createBrowserRecognizer(options, events);
+    case 'websocket':
+      return createWebSocketRecognizer(settings.websocket, options, events);
+  }
+};
@@ -0,0 +1,63 @@
+import { isBrowserRecognitionSupported } from './browserRecognition';
+import { HttpTranscriberConfig, TranscriberId } from './transcription';
+import { SpeechEngineId } from './types';
+import { WebSocketRecognizerConfig } from './websocketRecognizer';
+
+export interface SpeechSettings {
+  engine: SpeechEngineId;
+  websocket: WebSocketRecognizerConfig;
+  // Seconds without a new recognition result after which the customer's turn is finished; 0 turns it off
+  silenceTimeoutSeconds: number;
+  // Where uploaded recordings are sent to be transcribed
+  fileTranscription: {
+    engine: TranscriberId;
+    http: HttpTranscriberConfig;
+  };
+}
+
+const STORAGE_KEY = 'voice-translation:speech';
+
+const env = import.meta.env;
+
+export const defaultSpeechSettings: SpeechSettings = {
+  // Browsers without the Web Speech API fall back to the speech server when one is configured
+  engine: !isBrowserRecognitionSupported() && env.VITE_STT_WEBSOCKET_URL ? 'websocket' : 'browser',
+  websocket: {
+    url: env.VITE_STT_WEBSOCKET_URL || '',
+    apiKey: env.VITE_STT_API_KEY || '',
+  },
+  silenceTimeoutSeconds: 0,
+  fileTranscription: {
+    engine: env.VITE_TRANSCRIPTION_URL || !env.VITE_STT_WEBSOCKET_URL ? 'http' : 'websocket',
+    http: {
+      url: env.VITE_TRANSCRIPTION_URL || '',
+      apiKey: env.VITE_TRANSCRIPTION_API_KEY || '',
+      model: env.VITE_TRANSCRIPTION_MODEL || 'whisper-1',
+    },
+  },
+};
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultSpeechSettings;
+    const parsed = JSON.parse(stored) as Partial<SpeechSettings>;
+    return {
+      ...defaultSpeechSettings,
+      ...parsed,
+      websocket: { ...defaultSpeechSettings.websocket, ...parsed.websocket },
+      fileTranscription: {
+        ...defaultSpeechSettings.fileTranscription,
+        ...parsed.fileTranscription,
+        http: { ...defaultSpeechSettings.fileTranscription.http, ...parsed.fileTranscription?.http },
+      },
+    };
+  } catch (err) {
+    console.error('Failed to load speech settings:', err);
+    return defaultSpeechSettings;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,54 @@
+import { speechLocale } from '../languages';
+
+export interface VoiceSettings {
+  // Empty for the browser's default voice for the language
+  voiceURI: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface SynthesisSettings {
+  // Keyed by language code
+  voices: Record<string, VoiceSettings>;
+  // Read every new translation aloud in the listener's language
+  autoSpeak: boolean;
+}
+
+const STORAGE_KEY = 'voice-translation:tts';
+
+export const defaultVoiceSettings: VoiceSettings = { voiceURI: '', rate: 0.9, pitch: 1, volume: 1 };
+
+export const defaultSynthesisSettings: SynthesisSettings = { voices: {}, autoSpeak: false };
+
+export const voiceSettingsFor = (settings: SynthesisSettings, language: string): VoiceSettings => ({
+  ...defaultVoiceSettings,
+  ...settings.voices[language],
+});
+
+const normalizeLocale = (locale: string) => locale.replace('_', '-').toLowerCase();
+
+// Voices for the language's speech locale first, then other regional variants of the language
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], language: string) => {
+  const locale = normalizeLocale(speechLocale(language));
+  const base = locale.split('-')[0];
+  const exact = voices.filter((v) => normalizeLocale(v.lang) === locale);
+  const related = voices.filter((v) => normalizeLocale(v.lang) !== locale && normalizeLocale(v.lang).split('-')[0] === base);
+  return [...exact, ...related];
+};
+
+export const loadSynthesisSettings = (): SynthesisSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultSynthesisSettings;
+    const parsed = JSON.parse(stored) as Partial<SynthesisSettings>;
+    return { ...defaultSynthesisSettings, ...parsed, voices: { ...parsed.voices } };
+  } catch (err) {
+    console.error('Failed to load text-to-speech settings:', err);
+    return defaultSynthesisSettings;
+  }
+};
+
+export const saveSynthesisSettings = (settings: SynthesisSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,152 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { encodeWav, TRANSCRIPTION_SAMPLE_RATE } from './audioFile';
+import { createHttpTranscriber, createWebSocketTranscriber } from './transcription';
+
+const servers: ChildProcess[] = [];
+
+// Starts one of the mock servers on a free port and resolves with its address
+const startServer = (script: string, env: Record<string, string> = {}) =>
+  new Promise<string>((resolve, reject) => {
+    const server = spawn(process.execPath, [fileURLToPath(new URL(`../../server/${script}`, import.meta.url)), '0'], {
+      env: { ...process.env, ...env },
+    });
+    servers.push(server);
+    server.stdout?.on('data', (chunk: Buffer) => {
+      const url = /listening on (\S+)/.exec(chunk.toString())?.[1];
+      if (url) resolve(url);
+    });
+    server.on('error', reject);
+    server.on('exit', (code) => reject(new Error(`${script} exited with ${code}`)));
+  });
+
+// A passage of the given length as the app sends it, 16 kHz mono WAV
+const passage = (seconds: number) => {
+  const samples = new Float32Array(seconds * TRANSCRIPTION_SAMPLE_RATE).fill(0.5);
+  return encodeWav({ samples, sampleRate: TRANSCRIPTION_SAMPLE_RATE, duration: seconds }, { start: 0, end: seconds });
+};
+
+let transcribeUrl: string;
+let sttUrl: string;
+
+beforeAll(async () => {
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('WebSocket', WebSocket);
+  // One second of audio is four slices, so two slices make a phrase
+  [transcribeUrl, sttUrl] = await Promise.all([
+    startServer('mock-transcribe.js'),
+    startServer('mock-stt.js', { MOCK_STT_CHUNKS_PER_PHRASE: '2', MOCK_STT_API_KEY: 'secret' }),
+  ]);
+});
+
+afterAll(() => {
+  servers.forEach((server) => server.kill());
+  vi.unstubAllGlobals();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.stubGlobal('WebSocket', WebSocket);
+});
+
+describe('createHttpTranscriber', () => {
+  it('returns the timed segments of the server, with confidence from their log probability', async () => {
+    const segments = await createHttpTranscriber({ url: `${transcribeUrl}/`, apiKey: 'key', model: '' }).transcribe(
+      passage(6),
+      { locale: 'es-MX', duration: 6 }
+    );
+
+    // The server times the whole upload, form fields included, so its timings run a little long
+    expect(segments.map(({ start, end, text }) => ({ start: Math.round(start), end: Math.round(end), text }))).toEqual([
+      { start: 0, end: 3, text: 'Hola.' },
+      { start: 3, end: 6, text: 'Tengo un problema con mi pedido.' },
+    ]);
+    // Timings never run past the passage
+    expect(segments[1].end).toBe(6);
+    for (const { confidence } of segments) {
+      expect(confidence).toBeGreaterThan(0.4);
+      expect(confidence).toBeLessThan(0.9);
+    }
+  });
+
+  it('throws on error responses', async () => {
+    // The speech server answers plain HTTP requests with 426 Upgrade Required
+    const wrong = createHttpTranscriber({ url: sttUrl.replace('ws:', 'http:'), apiKey: '', model: '' });
+    await expect(wrong.transcribe(passage(1), { locale: 'en-US', duration: 1 })).rejects.toThrow('HTTP 426');
+  });
+
+  it('needs an endpoint', async () => {
+    const unset = createHttpTranscriber({ url: '', apiKey: '', model: '' });
+    await expect(unset.transcribe(passage(1), { locale: 'en-US', duration: 1 })).rejects.toThrow(
+      'No transcription endpoint configured'
+    );
+  });
+});
+
+describe('createWebSocketTranscriber', () => {
+  it('streams the passage and joins every final result into one segment', async () => {
+    const transcriber = createWebSocketTranscriber({ url: sttUrl, apiKey: 'secret' });
+    const segments = await transcriber.transcribe(passage(1), { locale: 'en-US', duration: 1 });
+
+    expect(segments).toEqual([
+      {
+        start: 0,
+        end: 1,
+        text: 'Hello there. I have a problem with my order. The package has not arrived yet.',
+        confidence: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('rejects with the message of an error frame', async () => {
+    const transcriber = createWebSocketTranscriber({ url: sttUrl, apiKey: 'wrong' });
+    await expect(transcriber.transcribe(passage(1), { locale: 'en-US', duration: 1 })).rejects.toThrow('Invalid API key');
+  });
+
+  it('rejects addresses that are not ws:// or wss:// URLs', async () => {
+    const transcriber = createWebSocketTranscriber({ url: sttUrl.replace('ws:', 'http:'), apiKey: 'secret' });
+    await expect(transcriber.transcribe(passage(1), { locale: 'en-US', duration: 1 })).rejects.toThrow(
+      'must start with ws:// or wss://'
+    );
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const transcriber = createWebSocketTranscriber({ url: sttUrl, apiKey: 'secret' });
+    const pending = transcriber.transcribe(passage(1), { locale: 'en-US', duration: 1, signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('waits for results longer the longer the passage is', async () => {
+    // A server that accepts the connection and never answers
+    vi.stubGlobal(
+      'WebSocket',
+      class extends EventTarget {
+        static OPEN = 1;
+        readyState = 0;
+        close() {}
+      }
+    );
+    vi.useFakeTimers();
+    const transcriber = createWebSocketTranscriber({ url: sttUrl, apiKey: 'secret' });
+
+    const wait = async (seconds: number) => {
+      const result = transcriber.transcribe(passage(1), { locale: 'en-US', duration: seconds }).then(
+        () => 'answered',
+        () => 'gave up'
+      );
+      let waited = 0;
+      while ((await Promise.race([result, Promise.resolve('waiting')])) === 'waiting') {
+        await vi.advanceTimersByTimeAsync(1000);
+        waited += 1000;
+      }
+      return waited;
+    };
+
+    expect(await wait(0)).toBe(10_000);
+    expect(await wait(30)).toBe(70_000);
+  });
+});
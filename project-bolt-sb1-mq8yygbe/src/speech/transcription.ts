@@ -0,0 +1,163 @@
+import { SpeechSettings } from './settings';
+import { RecognitionResult } from './types';
+import { isWebSocketUrl, WebSocketRecognizerConfig } from './websocketRecognizer';
+
+export type TranscriberId = 'websocket' | 'http';
+
+export const transcriberNames: Record<TranscriberId, string> = {
+  websocket: 'Speech server (WebSocket)',
+  http: 'Whisper-compatible HTTP API',
+};
+
+export interface HttpTranscriberConfig {
+  url: string;
+  apiKey: string;
+  model: string;
+}
+
+// Times in seconds from the start of the audio that was sent
+export interface TranscribedSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+}
+
+export interface TranscribeOptions {
+  // BCP 47 locale, e.g. th-TH
+  locale: string;
+  // Length of the audio in seconds, for backends that do not report timings
+  duration: number;
+  signal?: AbortSignal;
+}
+
+// Turns one recorded passage (16 kHz mono WAV) into text
+export interface Transcriber {
+  transcribe(audio: Blob, options: TranscribeOptions): Promise<TranscribedSegment[]>;
+}
+
+// Speech servers expect audio in small pieces, as the live recognizer sends it
+const WEBSOCKET_SLICE_BYTES = 8000;
+// A server may recognize no faster than real time, so the wait for results grows with the passage
+const WEBSOCKET_TIMEOUT_BASE_MS = 10_000;
+const WEBSOCKET_TIMEOUT_PER_SECOND_MS = 2000;
+
+// Streams the passage to the same speech server that live recognition uses. Its results carry
+// no timings, so the passage becomes one segment.
+export const createWebSocketTranscriber = (config: WebSocketRecognizerConfig): Transcriber => ({
+  async transcribe(audio, { locale, duration, signal }) {
+    if (!config.url) throw new Error('No speech server configured');
+    if (!isWebSocketUrl(config.url)) throw new Error('The speech server URL must start with ws:// or wss://');
+    const data = await audio.arrayBuffer();
+    // The abort listener below would never hear an abort that happened while reading the audio
+    if (signal?.aborted) throw new DOMException('Transcription aborted', 'AbortError');
+
+    const results = await new Promise<Pick<RecognitionResult, 'transcript' | 'confidence'>[]>((resolve, reject) => {
+      const url = new URL(config.url);
+      if (config.apiKey) url.searchParams.set('api_key', config.apiKey);
+      const socket = new WebSocket(url);
+      const finals: Pick<RecognitionResult, 'transcript' | 'confidence'>[] = [];
+      const timer = window.setTimeout(
+        () => fail(new Error('The speech server did not answer in time')),
+        WEBSOCKET_TIMEOUT_BASE_MS + duration * WEBSOCKET_TIMEOUT_PER_SECOND_MS
+      );
+
+      const done = () => {
+        window.clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        if (socket.readyState <= WebSocket.OPEN) socket.close();
+      };
+      const fail = (err: Error) => {
+        done();
+        reject(err);
+      };
+      const abort = () => fail(new DOMException('Transcription aborted', 'AbortError'));
+      signal?.addEventListener('abort', abort);
+
+      socket.addEventListener('open', () => {
+        socket.send(JSON.stringify({ type: 'start', language: locale, maxAlternatives: 1, mimeType: 'audio/wav' }));
+        for (let offset = 0; offset < data.byteLength; offset += WEBSOCKET_SLICE_BYTES) {
+          socket.send(data.slice(offset, offset + WEBSOCKET_SLICE_BYTES));
+        }
+        socket.send(JSON.stringify({ type: 'stop' }));
+      });
+      socket.addEventListener('message', (event) => {
+        if (typeof event.data !== 'string') return;
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type === 'final') finals.push({ transcript: message.transcript, confidence: message.confidence });
+          if (message.type === 'error') fail(new Error(message.message || 'Speech server error'));
+          if (message.type === 'end') {
+            done();
+            resolve(finals);
+          }
+        } catch {
+          console.warn('Ignoring malformed speech server message:', event.data);
+        }
+      });
+      socket.addEventListener('error', () => fail(new Error('Could not reach the speech server')));
+      socket.addEventListener('close', () => {
+        done();
+        resolve(finals);
+      });
+    });
+
+    const text = results.map((r) => r.transcript.trim()).filter(Boolean).join(' ');
+    const confidences = results.map((r) => r.confidence).filter((c): c is number => c !== undefined);
+    return text
+      ? [
+          {
+            start: 0,
+            end: duration,
+            text,
+            confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : undefined,
+          },
+        ]
+      : [];
+  },
+});
+
+// Works with any server exposing an OpenAI-style /audio/transcriptions endpoint, such as Whisper
+export const createHttpTranscriber = (config: HttpTranscriberConfig): Transcriber => ({
+  async transcribe(audio, { locale, duration, signal }) {
+    if (!config.url) throw new Error('No transcription endpoint configured');
+
+    const form = new FormData();
+    form.append('file', audio, 'audio.wav');
+    form.append('model', config.model || 'whisper-1');
+    form.append('language', locale.split('-')[0]);
+    form.append('response_format', 'verbose_json');
+    const response = await fetch(`${config.url.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      body: form,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Transcription failed (HTTP ${response.status})`);
+    }
+
+    const data = await response.json();
+    if (Array.isArray(data.segments)) {
+      return data.segments
+        .filter((s: { text?: unknown }) => typeof s.text === 'string' && s.text.trim())
+        .map((s: { start?: number; end?: number; text: string; avg_logprob?: number }) => ({
+          start: Math.max(0, Number(s.start) || 0),
+          end: Math.min(duration, Number(s.end) || duration),
+          text: s.text.trim(),
+          confidence: s.avg_logprob !== undefined ? Math.exp(s.avg_logprob) : undefined,
+        }));
+    }
+    // Servers answering with plain { text } give the whole passage as one segment
+    return typeof data.text === 'string' && data.text.trim() ? [{ start: 0, end: duration, text: data.text.trim() }] : [];
+  },
+});
+
+export const createTranscriber = (settings: Pick<SpeechSettings, 'websocket' | 'fileTranscription'>): Transcriber => {
+  switch (settings.fileTranscription.engine) {
+    case 'websocket':
+      return createWebSocketTranscriber(settings.websocket);
+    case 'http':
+      return createHttpTranscriber(settings.fileTranscription.http);
+  }
+};
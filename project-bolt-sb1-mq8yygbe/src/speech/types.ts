@@ -0,0 +1,45 @@
+export interface RecognitionAlternative {
+  transcript: string;
+  // 0–1, or undefined when the engine did not report one
+  confidence?: number;
+}
+
+// A finalized recognition result: the best guess plus the engine's other candidates
+export interface RecognitionResult extends RecognitionAlternative {
+  alternatives: RecognitionAlternative[];
+}
+
+export type SpeechEngineId = 'browser' | 'websocket';
+
+export const speechEngineNames: Record<SpeechEngineId, string> = {
+  browser: 'Browser (Web Speech API)',
+  websocket: 'Speech server (WebSocket)',
+};
+
+export interface RecognizerOptions {
+  // BCP 47 locale, e.g. th-TH
+  locale: string;
+  maxAlternatives: number;
+}
+
+// Receives everything an engine reports while it runs. Errors use the Web Speech API codes
+// ('not-allowed', 'network', 'audio-capture', 'aborted', ...) whatever the engine.
+export interface RecognizerEvents {
+  // The engine is capturing audio
+  onStart: () => void;
+  onInterim: (transcript: string) => void;
+  onFinal: (result: RecognitionResult) => void;
+  onError: (code: string) => void;
+  onEnd: () => void;
+  // The microphone stream the engine records from, and null once it is released. Engines that
+  // capture audio out of reach of the page, like the browser's, never call this.
+  onStream?: (stream: MediaStream | null) => void;
+}
+
+export interface SpeechRecognizer {
+  start(): void;
+  // Finishes the current utterance, then ends
+  stop(): void;
+  // Ends right away, dropping anything not yet finalized
+  abort(): void;
+}
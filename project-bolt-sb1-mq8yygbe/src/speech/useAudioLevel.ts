@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Smallest change worth a re-render
+const LEVEL_STEP = 0.02;
+
+// Input level from 0 to 1 of a microphone stream the recognizer already holds. One audio context
+// serves every stream the hook is given.
+export function useAudioLevel(stream: MediaStream | null) {
+  const [level, setLevel] = useState(0);
+  const contextRef = useRef<AudioContext | null>(null);
+
+  useEffect(
+    () => () => {
+      contextRef.current?.close();
+      contextRef.current = null;
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!stream) return;
+
+    contextRef.current ??= new AudioContext();
+    const analyser = contextRef.current.createAnalyser();
+    analyser.fftSize = 512;
+    const source = contextRef.current.createMediaStreamSource(stream);
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let frame = 0;
+    let last = 0;
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      // Speech rarely goes above 0.25 RMS, so scale it up to use the whole meter
+      const next = Math.min(1, rms * 4);
+      if (Math.abs(next - last) >= LEVEL_STEP) {
+        last = next;
+        setLevel(next);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      setLevel(0);
+    };
+  }, [stream]);
+
+  return level;
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueuedRetry } from '../offline/useQueuedRetry';
+import { Translator } from '../translation/translator';
+import { isAbortError, isConnectionError, TranslationSource } from '../translation/types';
+import { SegmentStatus } from '../translation/useIncrementalTranslation';
+import { decodeAudioFile, encodeWav, splitOnSilence } from './audioFile';
+import { SpeechSettings } from './settings';
+import { createTranscriber } from './transcription';
+
+export type FileTranscriptionStatus = 'idle' | 'decoding' | 'transcribing' | 'done' | 'failed';
+
+export interface FileSegment {
+  id: string;
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  translation: string;
+  status: SegmentStatus;
+  provider?: TranslationSource;
+}
+
+interface UseFileTranscriptionOptions {
+  translator: Translator;
+  settings: SpeechSettings;
+  // Language of the recording and the regional variant the recognizer is told
+  from: string;
+  locale: string;
+  to: string;
+  onError?: (message: string) => void;
+}
+
+// Transcribes an uploaded recording passage by passage and translates each segment as it arrives
+export function useFileTranscription({ translator, settings, from, locale, to, onError }: UseFileTranscriptionOptions) {
+  const [status, setStatus] = useState<FileTranscriptionStatus>('idle');
+  // Seconds of the recording transcribed so far, and its length
+  const [progress, setProgress] = useState({ done: 0, duration: 0 });
+  const [segments, setSegments] = useState<FileSegment[]>([]);
+
+  const segmentsRef = useRef<FileSegment[]>([]);
+  const runRef = useRef<AbortController | null>(null);
+  const configRef = useRef({ translator, settings, from, locale, to, onError });
+  configRef.current = { translator, settings, from, locale, to, onError };
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  const patchSegment = (id: string, patch: Partial<FileSegment>) => {
+    setSegments((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const translateSegment = useCallback(async (segment: FileSegment, signal: AbortSignal) => {
+    const { translator, from, to } = configRef.current;
+    patchSegment(segment.id, { status: 'translating' });
+    try {
+      const result = await translator.translate({ text: segment.text, from, to, signal });
+      patchSegment(segment.id, { translation: result.text, provider: result.provider, status: 'translated' });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Translation error:', err);
+      patchSegment(segment.id, { status: isConnectionError(err) ? 'queued' : 'failed' });
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setStatus((current) => (current === 'decoding' || current === 'transcribing' ? 'done' : current));
+  }, []);
+
+  const reset = useCallback(() => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setStatus('idle');
+    setProgress({ done: 0, duration: 0 });
+    setSegments([]);
+  }, []);
+
+  const transcribe = useCallback(
+    async (file: File) => {
+      reset();
+      const controller = new AbortController();
+      runRef.current = controller;
+      const { signal } = controller;
+      const { settings, locale } = configRef.current;
+
+      try {
+        setStatus('decoding');
+        const audio = await decodeAudioFile(file);
+        if (signal.aborted) return;
+        setProgress({ done: 0, duration: audio.duration });
+
+        setStatus('transcribing');
+        const transcriber = createTranscriber(settings);
+        for (const chunk of splitOnSilence(audio)) {
+          const results = await transcriber.transcribe(encodeWav(audio, chunk), {
+            locale,
+            duration: chunk.end - chunk.start,
+            signal,
+          });
+          if (signal.aborted) return;
+          const added: FileSegment[] = results.map((result) => ({
+            id: crypto.randomUUID(),
+            start: chunk.start + result.start,
+            end: chunk.start + result.end,
+            text: result.text,
+            confidence: result.confidence,
+            translation: '',
+            status: 'pending',
+          }));
+          setSegments((prev) => [...prev, ...added]);
+          setProgress({ done: chunk.end, duration: audio.duration });
+          added.forEach((segment) => translateSegment(segment, signal));
+        }
+        setStatus('done');
+      } catch (err) {
+        if (isAbortError(err) || signal.aborted) return;
+        console.error('File transcription error:', err);
+        setStatus('failed');
+        configRef.current.onError?.(
+          err instanceof DOMException && err.name === 'EncodingError'
+            ? 'This file could not be decoded. Use a WAV, MP3 or WebM recording.'
+            : 'Transcription failed. Check the transcription settings and try again.'
+        );
+      } finally {
+        if (runRef.current === controller) runRef.current = null;
+      }
+    },
+    [reset, translateSegment]
+  );
+
+  // A different target language or provider setup invalidates every translation
+  useEffect(() => {
+    const controller = new AbortController();
+    for (const segment of segmentsRef.current) {
+      translateSegment(segment, controller.signal);
+    }
+    return () => controller.abort();
+  }, [translator, to, translateSegment]);
+
+  // Segments that could not be translated for lack of a connection are retried
+  const retryControllerRef = useRef<AbortController | null>(null);
+  useQueuedRetry({
+    queued: segments.filter((s) => s.status === 'queued').length,
+    translated: segments.filter((s) => s.status === 'translated').length,
+    retry: () => {
+      retryControllerRef.current ??= new AbortController();
+      for (const segment of segmentsRef.current) {
+        if (segment.status === 'queued') translateSegment(segment, retryControllerRef.current.signal);
+      }
+    },
+  });
+
+  useEffect(
+    () => () => {
+      runRef.current?.abort();
+      retryControllerRef.current?.abort();
+    },
+    []
+  );
+
+  return { status, progress, segments, transcribe, cancel, reset };
+}
@@ -0,0 +1,322 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { recordMetric } from '../analytics/store';
+import { Speaker, SpokenRange } from '../conversation/types';
+import { speechLocale } from '../languages';
+import { isFatalRecognitionError, recognitionErrorMessage } from './errors';
+import { createRecognizer } from './recognizer';
+import { SpeechSettings } from './settings';
+import { RecognitionResult, SpeechRecognizer } from './types';
+
+// idle → starting → listening, with paused (by the user) and restarting (after the engine
+// ended on its own) in between. error is reached only through problems a restart cannot fix.
+export type RecordingState = 'idle' | 'starting' | 'listening' | 'paused' | 'restarting' | 'error';
+
+interface UseSpeechRecognitionOptions {
+  language: string;
+  // Whose speech this is, for the analytics dashboard
+  speaker: Speaker;
+  settings: SpeechSettings;
+  onFinalResult: (result: RecognitionResult) => void;
+  onError: (message: string) => void;
+  // Called once nothing new has been recognized for silenceTimeoutMs after the speaker said something
+  onSilence?: () => void;
+  silenceTimeoutMs?: number;
+  // Results are dropped while muted, e.g. while our own text-to-speech is playing
+  muted?: boolean;
+  // How many candidates to ask the engine for, including the best one
+  maxAlternatives?: number;
+}
+
+// Restarts after errors back off and give up after this many attempts without a result
+const MAX_ERROR_RESTARTS = 5;
+const restartDelay = (attempt: number) => Math.min(250 * 2 ** attempt, 4000);
+
+const activeStates: RecordingState[] = ['starting', 'listening', 'paused', 'restarting'];
+
+// The browser's engine records the microphone out of reach of the page, so the level meter needs
+// its own capture; other engines hand over the stream they record from
+const engineSharesStream = (engine: SpeechSettings['engine']) => engine !== 'browser';
+
+export function useSpeechRecognition({
+  language,
+  speaker,
+  settings,
+  onFinalResult,
+  onError,
+  onSilence,
+  silenceTimeoutMs = 0,
+  muted = false,
+  maxAlternatives = 3,
+}: UseSpeechRecognitionOptions) {
+  const [state, setState] = useState<RecordingState>('idle');
+  const [interimText, setInterimText] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+  const [engineStream, setEngineStream] = useState<MediaStream | null>(null);
+  const [meterStream, setMeterStream] = useState<MediaStream | null>(null);
+
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const spokenRangeRef = useRef<SpokenRange | null>(null);
+  // When the first word of the utterance being recognized was heard
+  const utteranceStartRef = useRef<number | null>(null);
+  const stateRef = useRef<RecordingState>('idle');
+  // What the user asked for last; an engine ending while this is still 'listen' was unexpected
+  const intentRef = useRef<'listen' | 'pause' | 'stop'>('stop');
+  const lastErrorRef = useRef<string | null>(null);
+  const errorRestartsRef = useRef(0);
+  const restartTimerRef = useRef(0);
+  const silenceTimerRef = useRef(0);
+  // Only the engine settings need a new recognizer
+  const { engine, websocket } = settings;
+  const callbacksRef = useRef({ onFinalResult, onError, onSilence, silenceTimeoutMs, muted });
+  callbacksRef.current = { onFinalResult, onError, onSilence, silenceTimeoutMs, muted };
+  const metricsRef = useRef({ speaker, language });
+  metricsRef.current = { speaker, language };
+
+  const recordError = (code: string, retried: boolean) =>
+    recordMetric({ kind: 'recognition', ...metricsRef.current, chars: 0, durationMs: 0, ok: false, error: code, retried });
+
+  const transition = useCallback((next: RecordingState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const clearTimers = () => {
+    window.clearTimeout(restartTimerRef.current);
+    window.clearTimeout(silenceTimerRef.current);
+  };
+
+  const startEngine = useCallback(
+    (recognizer: SpeechRecognizer) => {
+      lastErrorRef.current = null;
+      try {
+        recognizer.start();
+      } catch (err) {
+        // start() throws if the engine is still shutting down from a previous session
+        console.error('Failed to start speech recognition:', err);
+        intentRef.current = 'stop';
+        transition('idle');
+      }
+    },
+    [transition]
+  );
+
+  useEffect(() => {
+    // Events from a recognizer that has been replaced are ignored
+    let disposed = false;
+
+    // Remember when speech started and when the last final result arrived, for subtitle timing
+    const markSpoken = (final: boolean) => {
+      const now = Date.now();
+      utteranceStartRef.current ??= now;
+      if (!spokenRangeRef.current) {
+        spokenRangeRef.current = { start: now, end: now };
+      }
+      if (final) {
+        spokenRangeRef.current.end = now;
+      }
+      errorRestartsRef.current = 0;
+
+      window.clearTimeout(silenceTimerRef.current);
+      const { silenceTimeoutMs } = callbacksRef.current;
+      if (silenceTimeoutMs > 0) {
+        silenceTimerRef.current = window.setTimeout(() => {
+          if (!disposed && stateRef.current === 'listening') callbacksRef.current.onSilence?.();
+        }, silenceTimeoutMs);
+      }
+    };
+
+    const restart = () => {
+      const code = lastErrorRef.current;
+      // Silence and plain timeouts take seconds each, so only real errors count towards giving up
+      const isError = code !== null && code !== 'no-speech';
+      if (isError) recordError(code, errorRestartsRef.current < MAX_ERROR_RESTARTS);
+      if (isError && errorRestartsRef.current >= MAX_ERROR_RESTARTS) {
+        intentRef.current = 'stop';
+        transition('error');
+        callbacksRef.current.onError(recognitionErrorMessage(code));
+        return;
+      }
+      const delay = isError ? restartDelay(errorRestartsRef.current++) : 250;
+      transition('restarting');
+      restartTimerRef.current = window.setTimeout(() => {
+        if (!disposed && intentRef.current === 'listen' && recognizerRef.current) {
+          startEngine(recognizerRef.current);
+        }
+      }, delay);
+    };
+
+    const recognizer = createRecognizer(
+      { engine, websocket },
+      { locale: speechLocale(language), maxAlternatives },
+      {
+        onStart: () => {
+          if (disposed || intentRef.current !== 'listen') return;
+          transition('listening');
+        },
+        onInterim: (transcript) => {
+          if (disposed || callbacksRef.current.muted) return;
+          markSpoken(false);
+          setInterimText(transcript);
+        },
+        onFinal: (result) => {
+          if (disposed || callbacksRef.current.muted) return;
+          markSpoken(true);
+          recordMetric({
+            kind: 'recognition',
+            ...metricsRef.current,
+            chars: result.transcript.trim().length,
+            durationMs: Date.now() - (utteranceStartRef.current ?? Date.now()),
+            ok: true,
+          });
+          utteranceStartRef.current = null;
+          callbacksRef.current.onFinalResult(result);
+          setInterimText('');
+        },
+        onError: (code) => {
+          if (disposed || code === 'aborted') return;
+          lastErrorRef.current = code;
+          if (isFatalRecognitionError(code)) {
+            recordError(code, false);
+            intentRef.current = 'stop';
+            transition('error');
+            callbacksRef.current.onError(recognitionErrorMessage(code));
+          }
+        },
+        onStream: (stream) => {
+          if (!disposed) setEngineStream(stream);
+        },
+        onEnd: () => {
+          if (disposed) return;
+          setInterimText('');
+          if (stateRef.current === 'error') return;
+          if (intentRef.current === 'listen') {
+            restart();
+          } else {
+            transition(intentRef.current === 'pause' ? 'paused' : 'idle');
+          }
+        },
+      }
+    );
+    recognizerRef.current = recognizer;
+    setIsSupported(Boolean(recognizer));
+
+    // A new language or engine mid-recording carries on where the old recognizer stopped
+    if (intentRef.current === 'listen') {
+      if (recognizer) {
+        transition('starting');
+        startEngine(recognizer);
+      } else {
+        intentRef.current = 'stop';
+        transition('idle');
+      }
+    }
+
+    return () => {
+      disposed = true;
+      clearTimers();
+      utteranceStartRef.current = null;
+      setInterimText('');
+      recognizer?.abort();
+      recognizerRef.current = null;
+      setEngineStream(null);
+    };
+  }, [language, engine, websocket, maxAlternatives, startEngine, transition]);
+
+  // Held from listening through restarts, so an engine that restarts often does not reopen the microphone
+  const needsMeterStream = (state === 'listening' || state === 'restarting') && !engineSharesStream(engine);
+  useEffect(() => {
+    if (!needsMeterStream || !navigator.mediaDevices?.getUserMedia) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    navigator.mediaDevices.getUserMedia({ audio: true }).then(
+      (captured) => {
+        stream = captured;
+        if (cancelled) {
+          captured.getTracks().forEach((track) => track.stop());
+        } else {
+          setMeterStream(captured);
+        }
+      },
+      (err) => console.warn('Input level meter unavailable:', err)
+    );
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      setMeterStream(null);
+    };
+  }, [needsMeterStream]);
+
+  const start = useCallback(() => {
+    const recognizer = recognizerRef.current;
+    if (!recognizer || activeStates.includes(stateRef.current)) return;
+    intentRef.current = 'listen';
+    errorRestartsRef.current = 0;
+    transition('starting');
+    startEngine(recognizer);
+  }, [startEngine, transition]);
+
+  // Finishes listening; a paused or restarting engine is not running, so there is nothing to wait for
+  const stop = useCallback(() => {
+    intentRef.current = 'stop';
+    clearTimers();
+    if (stateRef.current === 'paused' || stateRef.current === 'restarting') {
+      transition('idle');
+    } else {
+      recognizerRef.current?.stop();
+    }
+  }, [transition]);
+
+  const abort = useCallback(() => {
+    intentRef.current = 'stop';
+    clearTimers();
+    if (stateRef.current === 'paused' || stateRef.current === 'restarting') {
+      transition('idle');
+    } else {
+      recognizerRef.current?.abort();
+    }
+  }, [transition]);
+
+  // Stops listening without ending the recording, so the turn stays open
+  const pause = useCallback(() => {
+    if (stateRef.current === 'restarting') {
+      clearTimers();
+      intentRef.current = 'pause';
+      transition('paused');
+    } else if (stateRef.current === 'starting' || stateRef.current === 'listening') {
+      window.clearTimeout(silenceTimerRef.current);
+      intentRef.current = 'pause';
+      recognizerRef.current?.stop();
+    }
+  }, [transition]);
+
+  const resume = useCallback(() => {
+    if (stateRef.current !== 'paused' || !recognizerRef.current) return;
+    intentRef.current = 'listen';
+    errorRestartsRef.current = 0;
+    transition('starting');
+    startEngine(recognizerRef.current);
+  }, [startEngine, transition]);
+
+  // Hands over the timing of everything recognized since the last call
+  const takeSpokenRange = useCallback(() => {
+    const range = spokenRangeRef.current;
+    spokenRangeRef.current = null;
+    return range;
+  }, []);
+
+  return {
+    isSupported,
+    state,
+    // True from start until stopped, including while paused or restarting
+    isRecording: activeStates.includes(state),
+    interimText,
+    // The microphone stream to show the input level of, while there is one
+    stream: engineSharesStream(engine) ? engineStream : meterStream,
+    start,
+    stop,
+    abort,
+    pause,
+    resume,
+    takeSpokenRange,
+  };
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { recordMetric } from '../analytics/store';
+import { speechLocale } from '../languages';
+import { SynthesisSettings, voiceSettingsFor } from './synthesisSettings';
+
+export interface SpeechItem {
+  // Identifies what is being read, e.g. a turn's translation, so the UI can mark it
+  key: string;
+  text: string;
+  language: string;
+  // Regional variant to speak in, e.g. pt-BR; defaults to the language's first variant
+  locale?: string;
+}
+
+// Character range of the word being spoken
+export interface SpokenWord {
+  start: number;
+  end: number;
+}
+
+interface UseSpeechSynthesisOptions {
+  settings: SynthesisSettings;
+  onError: (message: string) => void;
+}
+
+// Not every engine reports charLength, so fall back to the end of the word
+const wordEnd = (text: string, start: number) => {
+  const match = /^\S+/.exec(text.slice(start));
+  return start + (match ? match[0].length : 0);
+};
+
+export const isSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Reads queued texts one after another with the voice, rate, pitch and volume chosen for each language
+export function useSpeechSynthesis({ settings, onError }: UseSpeechSynthesisOptions) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [queue, setQueue] = useState<SpeechItem[]>([]);
+  const [current, setCurrent] = useState<SpeechItem | null>(null);
+  const [spokenWord, setSpokenWord] = useState<SpokenWord | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const configRef = useRef({ settings, onError });
+  configRef.current = { settings, onError };
+
+  // Voices load asynchronously in Chrome and can change when system voices are installed
+  useEffect(() => {
+    if (!isSynthesisSupported()) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  // Starts the next item whenever nothing is playing
+  useEffect(() => {
+    if (!isSynthesisSupported() || current || isPaused || queue.length === 0) return;
+    const [next, ...rest] = queue;
+    setQueue(rest);
+    setCurrent(next);
+
+    const voiceSettings = voiceSettingsFor(configRef.current.settings, next.language);
+    const utterance = new SpeechSynthesisUtterance(next.text);
+    utterance.lang = speechLocale(next.locale ?? next.language);
+    const voice = voices.find((v) => v.voiceURI === voiceSettings.voiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.rate = voiceSettings.rate;
+    utterance.pitch = voiceSettings.pitch;
+    utterance.volume = voiceSettings.volume;
+
+    utterance.onboundary = (event) => {
+      if (event.name !== 'word') return;
+      const end = event.charLength ? event.charIndex + event.charLength : wordEnd(next.text, event.charIndex);
+      setSpokenWord({ start: event.charIndex, end });
+    };
+    const finish = () => {
+      setCurrent((playing) => (playing === next ? null : playing));
+      setSpokenWord(null);
+    };
+    const queuedAt = Date.now();
+    const metric = { kind: 'synthesis', language: utterance.lang, chars: next.text.length } as const;
+    let started = false;
+    utterance.onstart = () => {
+      started = true;
+      recordMetric({ ...metric, latencyMs: Date.now() - queuedAt, ok: true });
+    };
+    utterance.onend = finish;
+    utterance.onerror = (event) => {
+      finish();
+      // Cancelling on purpose is reported as an error too
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        if (!started) recordMetric({ ...metric, latencyMs: Date.now() - queuedAt, ok: false, error: event.error });
+        console.error('Text-to-speech error:', event.error);
+        configRef.current.onError('Text-to-speech failed. Please try again.');
+      }
+    };
+
+    window.speechSynthesis.speak(utterance);
+  }, [queue, current, isPaused, voices]);
+
+  useEffect(() => {
+    return () => {
+      if (isSynthesisSupported()) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  // Adds text to the queue unless the same item is already playing or waiting
+  const enqueue = useCallback(
+    (item: SpeechItem) => {
+      if (!isSynthesisSupported()) {
+        configRef.current.onError('Text-to-speech is not supported in this browser.');
+        return;
+      }
+      setQueue((prev) => (current?.key === item.key || prev.some((q) => q.key === item.key) ? prev : [...prev, item]));
+    },
+    [current]
+  );
+
+  // Only something playing can be paused; a pause with nothing playing would hold the whole queue
+  const pause = useCallback(() => {
+    if (!isSynthesisSupported() || !current) return;
+    window.speechSynthesis.pause();
+    setIsPaused(true);
+  }, [current]);
+
+  const resume = useCallback(() => {
+    if (!isSynthesisSupported()) return;
+    window.speechSynthesis.resume();
+    setIsPaused(false);
+  }, []);
+
+  // Ends the current item; the queue carries on with the next one, even if it was paused
+  const skip = useCallback(() => {
+    if (!isSynthesisSupported()) return;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.resume();
+    setIsPaused(false);
+    setCurrent(null);
+    setSpokenWord(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (!isSynthesisSupported()) return;
+    setQueue([]);
+    window.speechSynthesis.cancel();
+    // A paused engine stays paused after cancel() in Chrome
+    window.speechSynthesis.resume();
+    setIsPaused(false);
+    setCurrent(null);
+    setSpokenWord(null);
+  }, []);
+
+  return {
+    voices,
+    queue,
+    current,
+    spokenWord,
+    isPaused,
+    isSpeaking: current !== null,
+    enqueue,
+    pause,
+    resume,
+    skip,
+    stop,
+  };
+}
@@ -0,0 +1,161 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { RecognizerEvents } from './types';
+import { createWebSocketRecognizer } from './websocketRecognizer';
+
+// Stands in for the browser's recorder; tests hand it audio chunks themselves
+class FakeRecorder extends EventTarget {
+  static latest: FakeRecorder | null = null;
+  static isTypeSupported = (type: string) => type === 'audio/webm';
+  state: RecordingState = 'inactive';
+
+  constructor() {
+    super();
+    FakeRecorder.latest = this;
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.dispatchEvent(new Event('stop'));
+  }
+
+  record() {
+    this.dispatchEvent(Object.assign(new Event('dataavailable'), { data: new Blob([new Uint8Array(64)]) }));
+  }
+}
+
+let server: ChildProcess;
+let serverUrl: string;
+const track = { stop: vi.fn() };
+
+// Two chunks make a phrase, and sessions must bring the key "secret"
+const startServer = () =>
+  new Promise<string>((resolve, reject) => {
+    server = spawn(process.execPath, [fileURLToPath(new URL('../../server/mock-stt.js', import.meta.url)), '0'], {
+      env: { ...process.env, MOCK_STT_CHUNKS_PER_PHRASE: '2', MOCK_STT_API_KEY: 'secret' },
+    });
+    server.stdout?.on('data', (chunk: Buffer) => {
+      const url = /listening on (\S+)/.exec(chunk.toString())?.[1];
+      if (url) resolve(url);
+    });
+    server.on('error', reject);
+    server.on('exit', (code) => reject(new Error(`Mock speech server exited with ${code}`)));
+  });
+
+const recognizerEvents = () => ({
+  onStart: vi.fn(),
+  onInterim: vi.fn(),
+  onFinal: vi.fn(),
+  onError: vi.fn(),
+  onEnd: vi.fn(),
+  onStream: vi.fn(),
+});
+
+const listen = (url: string, apiKey = 'secret') => {
+  const events = recognizerEvents();
+  const recognizer = createWebSocketRecognizer({ url, apiKey }, { locale: 'en-US', maxAlternatives: 2 }, events);
+  recognizer!.start();
+  return { recognizer: recognizer!, events };
+};
+
+// The recorder the recognizer created once the server accepted the connection
+const connectedRecorder = async (events: RecognizerEvents) => {
+  await vi.waitFor(() => expect(events.onStart).toHaveBeenCalled());
+  return FakeRecorder.latest!;
+};
+
+beforeAll(async () => {
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('WebSocket', WebSocket);
+  vi.stubGlobal('MediaRecorder', FakeRecorder);
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => ({ getTracks: () => [track] }) } });
+  serverUrl = await startServer();
+});
+
+afterAll(() => {
+  server?.kill();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  track.stop.mockClear();
+  vi.restoreAllMocks();
+});
+
+describe('createWebSocketRecognizer', () => {
+  it('reports interim results as audio arrives and final results with their alternatives', async () => {
+    const { recognizer, events } = listen(serverUrl);
+    const recorder = await connectedRecorder(events);
+
+    recorder.record();
+    await vi.waitFor(() => expect(events.onInterim).toHaveBeenCalledWith('Hello '));
+    recorder.record();
+    await vi.waitFor(() => expect(events.onFinal).toHaveBeenCalledOnce());
+    expect(events.onFinal.mock.calls[0][0]).toMatchObject({
+      transcript: 'Hello there.',
+      alternatives: [{ transcript: 'hello there', confidence: 0.3 }],
+    });
+
+    recognizer.abort();
+    expect(events.onEnd).toHaveBeenCalledOnce();
+    expect(events.onError).not.toHaveBeenCalled();
+  });
+
+  it('shares the microphone stream it records from until it ends', async () => {
+    const { recognizer, events } = listen(serverUrl);
+    await connectedRecorder(events);
+    expect(events.onStream).toHaveBeenCalledWith(expect.objectContaining({ getTracks: expect.any(Function) }));
+
+    recognizer.abort();
+    expect(events.onStream).toHaveBeenLastCalledWith(null);
+    expect(events.onStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('finalizes what was heard so far when stopped, then ends', async () => {
+    const { recognizer, events } = listen(serverUrl);
+    const recorder = await connectedRecorder(events);
+
+    recorder.record();
+    await vi.waitFor(() => expect(events.onInterim).toHaveBeenCalled());
+    recognizer.stop();
+    expect(track.stop).toHaveBeenCalled();
+    expect(events.onEnd).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(events.onEnd).toHaveBeenCalledOnce());
+    expect(events.onFinal).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'Hello there.' }));
+    expect(events.onFinal.mock.invocationCallOrder[0]).toBeLessThan(events.onEnd.mock.invocationCallOrder[0]);
+  });
+
+  it('passes on error frames from the server and ends', async () => {
+    const { events } = listen(serverUrl, 'wrong');
+
+    await vi.waitFor(() => expect(events.onEnd).toHaveBeenCalledOnce());
+    expect(events.onError).toHaveBeenCalledWith('service-not-allowed');
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('fails without connecting when the address is not a ws:// or wss:// URL', async () => {
+    for (const url of ['localhost:5100', serverUrl.replace('ws:', 'http:'), 'not a url']) {
+      const { events } = listen(url);
+      await vi.waitFor(() => expect(events.onEnd).toHaveBeenCalledOnce());
+      expect(events.onError).toHaveBeenCalledWith('network');
+      expect(events.onStart).not.toHaveBeenCalled();
+    }
+    expect(track.stop).toHaveBeenCalledTimes(3);
+  });
+
+  it('is not created without an address', () => {
+    const options = { locale: 'en-US', maxAlternatives: 1 };
+    expect(createWebSocketRecognizer({ url: '', apiKey: '' }, options, recognizerEvents())).toBeNull();
+  });
+});
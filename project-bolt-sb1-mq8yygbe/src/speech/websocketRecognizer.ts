@@ -0,0 +1,194 @@
+import { RecognitionResult, RecognizerEvents, RecognizerOptions, SpeechRecognizer } from './types';
+
+export interface WebSocketRecognizerConfig {
+  url: string;
+  apiKey: string;
+}
+
+// Messages from the speech server. Audio goes the other way as binary frames.
+type ServerMessage =
+  | { type: 'interim'; transcript: string }
+  | ({ type: 'final' } & Partial<RecognitionResult> & { transcript: string })
+  | { type: 'error'; code?: string; message?: string }
+  | { type: 'end' };
+
+// How often recorded audio is flushed to the server
+const CHUNK_MS = 250;
+// How long to wait for the last results after stopping
+const STOP_TIMEOUT_MS = 5000;
+
+const preferredMimeType = () =>
+  ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'].find(
+    (type) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)
+  ) ?? '';
+
+export const isWebSocketRecognitionSupported = () =>
+  typeof WebSocket !== 'undefined' &&
+  typeof MediaRecorder !== 'undefined' &&
+  Boolean(navigator.mediaDevices?.getUserMedia);
+
+// Only ws: and wss: addresses can be opened. Without a scheme, "localhost:5100" parses as a URL
+// with the scheme "localhost:", so parsing alone is not enough.
+export const isWebSocketUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'ws:' || protocol === 'wss:';
+  } catch {
+    return false;
+  }
+};
+
+const captureErrorCode = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  return name === 'NotAllowedError' || name === 'SecurityError' ? 'not-allowed' : 'audio-capture';
+};
+
+// Streams microphone audio to a speech-to-text server. After a JSON "start" message with the
+// locale and audio format, audio is sent as binary chunks; "stop" asks for the last results.
+export const createWebSocketRecognizer = (
+  config: WebSocketRecognizerConfig,
+  options: RecognizerOptions,
+  events: RecognizerEvents
+): SpeechRecognizer | null => {
+  if (!config.url || !isWebSocketRecognitionSupported()) return null;
+
+  let socket: WebSocket | null = null;
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  let stopTimer = 0;
+  let running = false;
+
+  const finish = () => {
+    if (!running) return;
+    running = false;
+    window.clearTimeout(stopTimer);
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    if (stream) {
+      stream.getTracks().forEach((track) => track.stop());
+      events.onStream?.(null);
+    }
+    if (socket && socket.readyState <= WebSocket.OPEN) socket.close();
+    recorder = null;
+    stream = null;
+    socket = null;
+    events.onEnd();
+  };
+
+  const fail = (code: string) => {
+    if (!running) return;
+    events.onError(code);
+    finish();
+  };
+
+  const handleMessage = (data: unknown) => {
+    if (typeof data !== 'string') return;
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn('Ignoring malformed speech server message:', data);
+      return;
+    }
+
+    switch (message.type) {
+      case 'interim':
+        events.onInterim(message.transcript);
+        break;
+      case 'final':
+        events.onFinal({
+          transcript: message.transcript,
+          confidence: message.confidence,
+          alternatives: (message.alternatives ?? [])
+            .filter((a) => a.transcript.trim() && a.transcript.trim() !== message.transcript.trim())
+            .slice(0, options.maxAlternatives - 1),
+        });
+        break;
+      case 'error':
+        console.error('Speech server error:', message.message);
+        fail(message.code || 'network');
+        break;
+      case 'end':
+        finish();
+        break;
+    }
+  };
+
+  const open = async () => {
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (err) {
+      console.error('Failed to capture microphone:', err);
+      fail(captureErrorCode(err));
+      return;
+    }
+    // abort() may have been called while the permission prompt was open
+    if (!running) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    events.onStream?.(stream);
+
+    const mimeType = preferredMimeType();
+    try {
+      if (!isWebSocketUrl(config.url)) throw new Error(`Not a ws:// or wss:// URL: ${config.url}`);
+      const url = new URL(config.url);
+      if (config.apiKey) url.searchParams.set('api_key', config.apiKey);
+      socket = new WebSocket(url);
+    } catch (err) {
+      console.error('Failed to connect to the speech server:', err);
+      // fail() also releases the microphone
+      fail('network');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    socket.addEventListener('open', () => {
+      if (!socket || !stream) return;
+      socket.send(
+        JSON.stringify({ type: 'start', language: options.locale, maxAlternatives: options.maxAlternatives, mimeType })
+      );
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.addEventListener('dataavailable', (event) => {
+        if (event.data.size > 0 && socket?.readyState === WebSocket.OPEN) socket.send(event.data);
+      });
+      recorder.start(CHUNK_MS);
+      events.onStart();
+    });
+    socket.addEventListener('message', (event) => handleMessage(event.data));
+    socket.addEventListener('error', () => fail('network'));
+    socket.addEventListener('close', () => finish());
+  };
+
+  return {
+    start() {
+      if (running) throw new Error('Recognition has already started');
+      running = true;
+      open().catch((err) => {
+        console.error('Speech recognition failed to start:', err);
+        fail('network');
+      });
+    },
+    stop() {
+      if (!running) return;
+      const requestFinalResults = () => {
+        if (socket?.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'stop' }));
+          stopTimer = window.setTimeout(finish, STOP_TIMEOUT_MS);
+        } else {
+          finish();
+        }
+      };
+      // The recorder flushes its last chunk before it fires "stop"
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.addEventListener('stop', requestFinalResults, { once: true });
+        recorder.stop();
+      } else {
+        requestFinalResults();
+      }
+      stream?.getTracks().forEach((track) => track.stop());
+    },
+    abort() {
+      finish();
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { countRecords, openDatabase } from './db';
+
+// What another tab does: opens the same database at some version and keeps it open
+const openInOtherTab = (version: number) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('voice-translation', version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openDatabase', () => {
+  it('gives up instead of hanging while a tab on an older version keeps the database open', async () => {
+    const older = await openInOtherTab(1);
+
+    await expect(openDatabase()).rejects.toThrow(/Close or reload other tabs/);
+
+    older.close();
+    await expect(countRecords('sessions')).resolves.toBe(0);
+  });
+
+  it('closes its connection when a newer version in another tab upgrades', async () => {
+    await openDatabase();
+
+    const newer = await openInOtherTab(100);
+    expect(newer.version).toBe(100);
+    newer.close();
+
+    // This tab is now the older version and cannot open the database again
+    await expect(openDatabase()).rejects.toMatchObject({ name: 'VersionError' });
+  });
+});
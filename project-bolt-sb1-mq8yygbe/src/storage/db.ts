@@ -0,0 +1,127 @@
+const DB_NAME = 'voice-translation';
+const DB_VERSION = 5;
+
+export type StoreName = 'sessions' | 'translationCache' | 'translationMemory' | 'glossary' | 'quickReplies' | 'metrics';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains('sessions')) {
+    const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+    sessions.createIndex('updatedAt', 'updatedAt');
+  }
+  if (!db.objectStoreNames.contains('translationCache')) {
+    const cache = db.createObjectStore('translationCache', { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+  if (!db.objectStoreNames.contains('translationMemory')) {
+    const memory = db.createObjectStore('translationMemory', { keyPath: 'id' });
+    memory.createIndex('key', 'key', { unique: true });
+  }
+  if (!db.objectStoreNames.contains('glossary')) {
+    db.createObjectStore('glossary', { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains('quickReplies')) {
+    db.createObjectStore('quickReplies', { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains('metrics')) {
+    const metrics = db.createObjectStore('metrics', { keyPath: 'id' });
+    metrics.createIndex('at', 'at');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // The other tab let go after this open was given up on; a later call opens it again
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Another tab with a newer version of the app wants to upgrade; this tab reopens on its next call
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // A tab still running an older version holds the database open, so the upgrade cannot start
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error('Storage is being updated. Close or reload other tabs of this app, then try again.'));
+      };
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const getRecord = <T>(storeName: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const getAllRecords = <T>(storeName: StoreName) =>
+  withStore<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const putRecord = <T>(storeName: StoreName, value: T) =>
+  withStore<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value));
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey) =>
+  withStore<undefined>(storeName, 'readwrite', (store) => store.delete(key));
+
+export const getRecordByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, 'readonly', (store) => store.index(indexName).get(key));
+
+export const countRecords = (storeName: StoreName) =>
+  withStore<number>(storeName, 'readonly', (store) => store.count());
+
+export const clearRecords = (storeName: StoreName) =>
+  withStore<undefined>(storeName, 'readwrite', (store) => store.clear());
+
+// Deletes the first `count` records in index order, e.g. the least recently used
+export const deleteFirstByIndex = async (storeName: StoreName, indexName: string, count: number) => {
+  if (count <= 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor();
+    let remaining = count;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && remaining > 0) {
+        cursor.delete();
+        remaining--;
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,42 @@
+// Sessions and glossary entries stored in this browser belong to the agent who was signed in
+// when they were created, or to no one. Only the current owner's records are listed, so agents
+// sharing a browser do not see each other's history.
+
+const STORAGE_KEY = 'voice-translation:agent';
+
+// Remembered across reloads, so the right history shows before sign-in has been restored
+let currentOwner: string | null | undefined;
+
+export interface Owned {
+  agentId?: string;
+}
+
+export const getLocalOwner = (): string | null => {
+  if (currentOwner === undefined) {
+    try {
+      currentOwner = localStorage.getItem(STORAGE_KEY);
+    } catch (err) {
+      console.error('Failed to load the signed-in agent:', err);
+      currentOwner = null;
+    }
+  }
+  return currentOwner;
+};
+
+export const setLocalOwner = (agentId: string | null) => {
+  currentOwner = agentId;
+  try {
+    if (agentId) localStorage.setItem(STORAGE_KEY, agentId);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.error('Failed to save the signed-in agent:', err);
+  }
+};
+
+// Records without an agent are the signed-out history
+export const isOwnedByCurrentAgent = (record: Owned) => (record.agentId ?? null) === getLocalOwner();
+
+export const currentOwnerFields = (): Owned => {
+  const agentId = getLocalOwner();
+  return agentId ? { agentId } : {};
+};
@@ -0,0 +1,95 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Session } from '../conversation/types';
+import { GlossaryEntry } from '../translation/glossary';
+import {
+  GlossaryRow,
+  glossaryToRow,
+  rowToGlossary,
+  rowToSession,
+  SessionRow,
+  sessionToRow,
+  TurnRow,
+  turnToRow,
+} from './rows';
+
+// Every query filters on agent_id even though row-level security already does, so the
+// intent is explicit and the agent_id indexes are used
+
+const PAGE_SIZE = 500;
+
+const failure = (action: string, error: { message: string }) => new Error(`${action}: ${error.message}`);
+
+// PostgREST caps how many rows one response may hold, so read in pages
+const fetchPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  action: string
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw failure(action, error);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const fetchSessions = async (client: SupabaseClient, agentId: string): Promise<Session[]> => {
+  const rows = await fetchPages<SessionRow & { turns: TurnRow[] }>(
+    (from, to) =>
+      client
+        .from('sessions')
+        .select('*, turns(*)')
+        .eq('agent_id', agentId)
+        .order('updated_at', { ascending: false })
+        .range(from, to),
+    'Failed to load sessions'
+  );
+  return rows.map(({ turns, ...row }) => rowToSession(row, turns ?? []));
+};
+
+export const upsertSession = async (client: SupabaseClient, agentId: string, session: Session) => {
+  const { error } = await client.from('sessions').upsert(sessionToRow(session));
+  if (error) throw failure('Failed to save session', error);
+
+  // Every turn written now carries this push's id, so turns deleted locally are the ones left
+  // with another id. Listing the kept ids instead would not fit in the URL of a long session.
+  const syncId = crypto.randomUUID();
+  const turns = session.turns.map((turn, position) => ({ ...turnToRow(turn, session.id, position), sync_id: syncId }));
+  if (turns.length > 0) {
+    const { error: turnsError } = await client.from('turns').upsert(turns);
+    if (turnsError) throw failure('Failed to save turns', turnsError);
+  }
+
+  const { error: deleteError } = await client
+    .from('turns')
+    .delete()
+    .eq('agent_id', agentId)
+    .eq('session_id', session.id)
+    .neq('sync_id', syncId);
+  if (deleteError) throw failure('Failed to remove deleted turns', deleteError);
+};
+
+// Turns go with their session through the foreign key
+export const deleteRemoteSession = async (client: SupabaseClient, agentId: string, id: string) => {
+  const { error } = await client.from('sessions').delete().eq('agent_id', agentId).eq('id', id);
+  if (error) throw failure('Failed to delete session', error);
+};
+
+export const fetchGlossary = async (client: SupabaseClient, agentId: string): Promise<GlossaryEntry[]> => {
+  const rows = await fetchPages<GlossaryRow>(
+    (from, to) => client.from('glossary_entries').select('*').eq('agent_id', agentId).order('id').range(from, to),
+    'Failed to load glossary'
+  );
+  return rows.map(rowToGlossary);
+};
+
+export const upsertGlossaryEntries = async (client: SupabaseClient, entries: GlossaryEntry[]) => {
+  if (entries.length === 0) return;
+  const { error } = await client.from('glossary_entries').upsert(entries.map(glossaryToRow));
+  if (error) throw failure('Failed to save glossary', error);
+};
+
+export const deleteRemoteGlossaryEntry = async (client: SupabaseClient, agentId: string, id: string) => {
+  const { error } = await client.from('glossary_entries').delete().eq('agent_id', agentId).eq('id', id);
+  if (error) throw failure('Failed to delete glossary entry', error);
+};
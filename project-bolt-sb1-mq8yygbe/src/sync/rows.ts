@@ -0,0 +1,125 @@
+import { Session, SpokenRange, Turn, TurnStatus, Speaker } from '../conversation/types';
+import { GlossaryEntry } from '../translation/glossary';
+import { DetectedLanguage, TranslationSource } from '../translation/types';
+
+// Column layout of the tables in supabase/migrations. agent_id is filled in by the database.
+
+export interface SessionRow {
+  id: string;
+  name: string;
+  input_language: string;
+  output_language: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TurnRow {
+  id: string;
+  session_id: string;
+  position: number;
+  speaker: Speaker;
+  author: string | null;
+  source_text: string;
+  translated_text: string;
+  status: TurnStatus;
+  source_language: string;
+  target_language: string;
+  provider: TranslationSource | null;
+  spoken_at: SpokenRange | null;
+  detected_language: DetectedLanguage | null;
+  created_at: string;
+  updated_at: string;
+  // Which push last wrote the row; rows a push did not write were deleted locally
+  sync_id?: string;
+}
+
+export interface GlossaryRow {
+  id: string;
+  from_language: string;
+  to_language: string;
+  term: string;
+  translation: string;
+  do_not_translate: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+const toTimestamp = (ms: number) => new Date(ms).toISOString();
+const fromTimestamp = (value: string) => Date.parse(value);
+
+export const sessionToRow = (session: Session): SessionRow => ({
+  id: session.id,
+  name: session.name,
+  input_language: session.inputLanguage,
+  output_language: session.outputLanguage,
+  created_at: toTimestamp(session.createdAt),
+  updated_at: toTimestamp(session.updatedAt),
+});
+
+export const turnToRow = (turn: Turn, sessionId: string, position: number): TurnRow => ({
+  id: turn.id,
+  session_id: sessionId,
+  position,
+  speaker: turn.speaker,
+  author: turn.author ?? null,
+  source_text: turn.sourceText,
+  translated_text: turn.translatedText,
+  status: turn.status,
+  source_language: turn.sourceLanguage,
+  target_language: turn.targetLanguage,
+  provider: turn.provider ?? null,
+  spoken_at: turn.spokenAt ?? null,
+  detected_language: turn.detectedLanguage ?? null,
+  created_at: toTimestamp(turn.createdAt),
+  updated_at: toTimestamp(turn.updatedAt),
+});
+
+const rowToTurn = (row: TurnRow): Turn => ({
+  id: row.id,
+  speaker: row.speaker,
+  author: row.author ?? undefined,
+  sourceText: row.source_text,
+  translatedText: row.translated_text,
+  // A turn saved mid-translation will not finish on another device
+  status: row.status === 'translating' ? 'failed' : row.status,
+  sourceLanguage: row.source_language,
+  targetLanguage: row.target_language,
+  provider: row.provider ?? undefined,
+  spokenAt: row.spoken_at ?? undefined,
+  detectedLanguage: row.detected_language ?? undefined,
+  createdAt: fromTimestamp(row.created_at),
+  updatedAt: fromTimestamp(row.updated_at),
+});
+
+export const rowToSession = (row: SessionRow, turns: TurnRow[]): Session => ({
+  id: row.id,
+  name: row.name,
+  inputLanguage: row.input_language,
+  outputLanguage: row.output_language,
+  turns: [...turns].sort((a, b) => a.position - b.position).map(rowToTurn),
+  createdAt: fromTimestamp(row.created_at),
+  updatedAt: fromTimestamp(row.updated_at),
+});
+
+export const glossaryToRow = (entry: GlossaryEntry): GlossaryRow => ({
+  id: entry.id,
+  from_language: entry.from,
+  to_language: entry.to,
+  term: entry.term,
+  translation: entry.translation,
+  do_not_translate: entry.doNotTranslate,
+  created_at: toTimestamp(entry.createdAt),
+  // Entries saved before updatedAt was tracked only have createdAt
+  updated_at: toTimestamp(entry.updatedAt ?? entry.createdAt),
+});
+
+export const rowToGlossary = (row: GlossaryRow): GlossaryEntry => ({
+  id: row.id,
+  from: row.from_language,
+  to: row.to_language,
+  term: row.term,
+  translation: row.translation,
+  doNotTranslate: row.do_not_translate,
+  createdAt: fromTimestamp(row.created_at),
+  updatedAt: fromTimestamp(row.updated_at),
+});
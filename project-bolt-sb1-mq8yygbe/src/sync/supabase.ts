@@ -0,0 +1,7 @@
+import { createClient } from '@supabase/supabase-js';
+
+const url = import.meta.env.VITE_SUPABASE_URL;
+const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Accounts and sync are optional; without a project everything stays in this browser
+export const supabase = url && anonKey ? createClient(url, anonKey) : null;
@@ -0,0 +1,280 @@
+import 'fake-indexeddb/auto';
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSession, listSessions, loadSession, saveSession } from '../conversation/sessionStore';
+import { Session, Turn } from '../conversation/types';
+import { clearRecords, getRecord, putRecord } from '../storage/db';
+import { GlossaryEntry } from '../translation/glossary';
+import { fetchGlossary, fetchSessions, upsertGlossaryEntries, upsertSession } from './remote';
+import { claimUnownedRecords, countUnownedRecords, setSyncAgent, syncAll } from './sync';
+
+// Sync talks to server/mock-supabase.js as whichever agent signed in last
+const current = vi.hoisted(() => ({ client: null as SupabaseClient | null }));
+vi.mock('./supabase', () => ({
+  get supabase() {
+    return current.client;
+  },
+}));
+
+interface Agent {
+  id: string;
+  client: SupabaseClient;
+}
+
+let server: ChildProcess;
+let serverUrl: string;
+
+const startServer = () =>
+  new Promise<string>((resolve, reject) => {
+    server = spawn(process.execPath, [fileURLToPath(new URL('../../server/mock-supabase.js', import.meta.url)), '0']);
+    server.stdout?.on('data', (chunk: Buffer) => {
+      const url = /listening on (\S+)/.exec(chunk.toString())?.[1];
+      if (url) resolve(url);
+    });
+    server.on('error', reject);
+    server.on('exit', (code) => reject(new Error(`Mock Supabase exited with ${code}`)));
+  });
+
+const createAgent = async (): Promise<Agent> => {
+  const client = createClient(serverUrl, 'anon-key', { auth: { persistSession: false, autoRefreshToken: false } });
+  const { data, error } = await client.auth.signUp({ email: `${crypto.randomUUID()}@example.com`, password: 'secret' });
+  if (error || !data.user) throw error ?? new Error('Sign-up returned no user');
+  return { id: data.user.id, client };
+};
+
+const signIn = (agent: Agent | null) => {
+  current.client = agent?.client ?? null;
+  setSyncAgent(agent?.id ?? null);
+};
+
+const turn = (sourceText: string, at: number): Turn => ({
+  id: crypto.randomUUID(),
+  speaker: 'customer',
+  sourceText,
+  translatedText: `[en] ${sourceText}`,
+  status: 'translated',
+  sourceLanguage: 'th',
+  targetLanguage: 'en',
+  createdAt: at,
+  updatedAt: at,
+});
+
+// Owned by whoever is signed in, like a session the app creates
+const sessionWith = (texts: string[], updatedAt: number, id: string = crypto.randomUUID()): Session => ({
+  ...createSession('th', 'en'),
+  id,
+  turns: texts.map((text) => turn(text, updatedAt)),
+  createdAt: 1000,
+  updatedAt,
+});
+
+const glossaryEntry = (translation: string, updatedAt: number, id: string = crypto.randomUUID()): GlossaryEntry => ({
+  id,
+  from: 'th',
+  to: 'en',
+  term: 'ใบแจ้งหนี้',
+  translation,
+  doNotTranslate: false,
+  createdAt: 1000,
+  updatedAt,
+});
+
+const remoteTexts = async (agent: Agent, sessionId: string) =>
+  (await fetchSessions(agent.client, agent.id)).find((s) => s.id === sessionId)?.turns.map((t) => t.sourceText);
+
+beforeAll(async () => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  serverUrl = await startServer();
+});
+
+afterAll(() => {
+  server?.kill();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(async () => {
+  signIn(null);
+  await clearRecords('sessions');
+  await clearRecords('glossary');
+});
+
+describe('syncAll', () => {
+  it('pushes sessions only this browser has and pulls those only the account has', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const local = sessionWith(['สวัสดี'], 2000);
+    await saveSession(local);
+    const remote = sessionWith(['ขอบคุณ'], 3000);
+    await upsertSession(agent.client, agent.id, remote);
+
+    expect(await syncAll()).toEqual([remote.id]);
+
+    expect(await remoteTexts(agent, local.id)).toEqual(['สวัสดี']);
+    const pulled = await loadSession(remote.id);
+    expect(pulled?.agentId).toBe(agent.id);
+    expect(pulled?.turns.map((t) => t.sourceText)).toEqual(['ขอบคุณ']);
+  });
+
+  it('keeps whichever side of a session changed last', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const changedRemotely = sessionWith(['local'], 2000);
+    const changedLocally = sessionWith(['local'], 4000);
+    await saveSession(changedRemotely);
+    await saveSession(changedLocally);
+    await upsertSession(agent.client, agent.id, sessionWith(['remote'], 3000, changedRemotely.id));
+    await upsertSession(agent.client, agent.id, sessionWith(['remote'], 3000, changedLocally.id));
+
+    expect(await syncAll()).toEqual([changedRemotely.id]);
+
+    expect((await loadSession(changedRemotely.id))?.turns[0].sourceText).toBe('remote');
+    expect(await remoteTexts(agent, changedRemotely.id)).toEqual(['remote']);
+    expect((await loadSession(changedLocally.id))?.turns[0].sourceText).toBe('local');
+    expect(await remoteTexts(agent, changedLocally.id)).toEqual(['local']);
+  });
+
+  it('leaves a session alone when both sides changed at the same time', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const session = sessionWith(['local'], 2000);
+    await saveSession(session);
+    await upsertSession(agent.client, agent.id, sessionWith(['remote'], 2000, session.id));
+
+    expect(await syncAll()).toEqual([]);
+
+    expect((await loadSession(session.id))?.turns[0].sourceText).toBe('local');
+    expect(await remoteTexts(agent, session.id)).toEqual(['remote']);
+  });
+
+  it('removes turns deleted on this browser from the account', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const session = sessionWith(['first', 'second', 'third'], 2000);
+    await upsertSession(agent.client, agent.id, session);
+    await saveSession({ ...session, turns: [session.turns[0], session.turns[2]], updatedAt: 3000 });
+
+    await syncAll();
+
+    expect(await remoteTexts(agent, session.id)).toEqual(['first', 'third']);
+  });
+
+  it('masks personal data in pushed turns while keeping it on this browser', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const session = sessionWith(['Mail me at somchai@example.com'], 2000);
+    await saveSession(session);
+
+    await syncAll();
+
+    expect(await remoteTexts(agent, session.id)).toEqual(['Mail me at [EMAIL]']);
+    expect((await loadSession(session.id))?.turns[0].sourceText).toBe('Mail me at somchai@example.com');
+  });
+
+  it('keeps whichever side of a glossary entry was edited last', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const editedRemotely = glossaryEntry('invoice', 2000);
+    const editedLocally = glossaryEntry('bill', 4000);
+    await putRecord('glossary', { ...editedRemotely, agentId: agent.id });
+    await putRecord('glossary', { ...editedLocally, agentId: agent.id });
+    await upsertGlossaryEntries(agent.client, [
+      glossaryEntry('statement', 3000, editedRemotely.id),
+      glossaryEntry('statement', 3000, editedLocally.id),
+    ]);
+
+    await syncAll();
+
+    expect((await getRecord<GlossaryEntry>('glossary', editedRemotely.id))?.translation).toBe('statement');
+    const remote = await fetchGlossary(agent.client, agent.id);
+    expect(remote.find((e) => e.id === editedLocally.id)?.translation).toBe('bill');
+    // An edit moves updatedAt forward without touching when the entry was first saved
+    expect(remote.find((e) => e.id === editedLocally.id)?.createdAt).toBe(1000);
+  });
+
+  it('pushes glossary entries saved before updatedAt was tracked', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    const legacy = glossaryEntry('invoice', 2000);
+    delete legacy.updatedAt;
+    await putRecord('glossary', { ...legacy, agentId: agent.id });
+
+    await syncAll();
+
+    const remote = await fetchGlossary(agent.client, agent.id);
+    expect(remote.find((e) => e.id === legacy.id)).toMatchObject({ translation: 'invoice', updatedAt: 1000 });
+  });
+});
+
+describe('agents sharing a browser', () => {
+  it("syncs and lists only the signed-in agent's sessions", async () => {
+    const first = await createAgent();
+    const second = await createAgent();
+    signIn(first);
+    const firstSession = sessionWith(['first agent'], 2000);
+    await saveSession(firstSession);
+    await syncAll();
+
+    signIn(second);
+    const secondSession = sessionWith(['second agent'], 2000);
+    await saveSession(secondSession);
+    expect((await listSessions()).map((s) => s.id)).toEqual([secondSession.id]);
+
+    expect(await syncAll()).toEqual([]);
+
+    expect((await fetchSessions(second.client, second.id)).map((s) => s.id)).toEqual([secondSession.id]);
+    expect((await fetchSessions(first.client, first.id)).map((s) => s.id)).toEqual([firstSession.id]);
+    expect((await loadSession(firstSession.id))?.agentId).toBe(first.id);
+  });
+
+  it('hides the signed-in history after signing out', async () => {
+    const agent = await createAgent();
+    signIn(agent);
+    await saveSession(sessionWith(['signed in'], 2000));
+
+    signIn(null);
+
+    expect(await listSessions()).toEqual([]);
+  });
+
+  it('uploads history saved while signed out only once the agent claims it', async () => {
+    const agent = await createAgent();
+    const unowned = sessionWith(['signed out'], 2000);
+    await saveSession(unowned);
+    // Empty sessions are not worth asking about
+    await saveSession(sessionWith([], 2000));
+    await putRecord('glossary', glossaryEntry('invoice', 2000));
+
+    signIn(agent);
+    await syncAll();
+    expect(await fetchSessions(agent.client, agent.id)).toEqual([]);
+    expect(await countUnownedRecords()).toEqual({ sessions: 1, glossary: 1 });
+
+    expect(await claimUnownedRecords()).toEqual([unowned.id]);
+    await syncAll();
+
+    expect(await remoteTexts(agent, unowned.id)).toEqual(['signed out']);
+    expect(await fetchGlossary(agent.client, agent.id)).toHaveLength(1);
+    expect(await countUnownedRecords()).toEqual({ sessions: 0, glossary: 0 });
+  });
+
+  it("cannot read or overwrite another agent's rows", async () => {
+    const owner = await createAgent();
+    const other = await createAgent();
+    const session = sessionWith(['private'], 2000);
+    await upsertSession(owner.client, owner.id, session);
+
+    expect(await fetchSessions(other.client, owner.id)).toEqual([]);
+    await expect(upsertSession(other.client, other.id, sessionWith(['taken'], 3000, session.id))).rejects.toThrow(
+      /row-level security/
+    );
+    expect(await remoteTexts(owner, session.id)).toEqual(['private']);
+  });
+});
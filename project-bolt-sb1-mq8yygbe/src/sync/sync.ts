@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Session } from '../conversation/types';
+import { maskSession } from '../privacy/redaction';
+import { loadRedactionSettings } from '../privacy/settings';
+import { getAllRecords, putRecord } from '../storage/db';
+import { setLocalOwner } from '../storage/owner';
+import { GlossaryEntry } from '../translation/glossary';
+import {
+  deleteRemoteGlossaryEntry,
+  deleteRemoteSession,
+  fetchGlossary,
+  fetchSessions,
+  upsertGlossaryEntries,
+  upsertSession,
+} from './remote';
+import { supabase } from './supabase';
+
+// Saves of the same session within this window are pushed once
+const PUSH_DEBOUNCE_MS = 2000;
+
+let agent: { client: SupabaseClient; id: string } | null = null;
+const pendingPushes = new Map<string, number>();
+
+// Local changes are only pushed while an agent is signed in, and only the records they own.
+// Signing out leaves their records in place but hidden until they sign in again.
+export const setSyncAgent = (agentId: string | null) => {
+  agent = agentId && supabase ? { client: supabase, id: agentId } : null;
+  setLocalOwner(agentId);
+  if (!agent) {
+    pendingPushes.forEach((timer) => window.clearTimeout(timer));
+    pendingPushes.clear();
+  }
+};
+
+// Personal data in turns is masked on the way to the account while redaction is on. Only this
+// browser keeps the original values, so other devices see the masked version.
+const outgoing = (session: Session) => {
+  const redaction = loadRedactionSettings();
+  return redaction.enabled ? maskSession(session, redaction) : session;
+};
+
+const inBackground = (action: string, run: (current: NonNullable<typeof agent>) => Promise<void>) => {
+  const current = agent;
+  if (!current) return;
+  run(current).catch((err) => console.error(`Failed to sync ${action}:`, err));
+};
+
+export const queueSessionPush = (session: Session) => {
+  if (!agent || session.agentId !== agent.id) return;
+  window.clearTimeout(pendingPushes.get(session.id));
+  pendingPushes.set(
+    session.id,
+    window.setTimeout(() => {
+      pendingPushes.delete(session.id);
+      inBackground('session', ({ client, id }) => upsertSession(client, id, outgoing(session)));
+    }, PUSH_DEBOUNCE_MS)
+  );
+};
+
+export const pushSessionDeletion = (sessionId: string) => {
+  window.clearTimeout(pendingPushes.get(sessionId));
+  pendingPushes.delete(sessionId);
+  inBackground('session deletion', ({ client, id }) => deleteRemoteSession(client, id, sessionId));
+};
+
+export const pushGlossaryEntries = (entries: GlossaryEntry[]) =>
+  inBackground('glossary', ({ client, id }) =>
+    upsertGlossaryEntries(client, entries.filter((e) => e.agentId === id))
+  );
+
+export const pushGlossaryDeletion = (entryId: string) =>
+  inBackground('glossary deletion', ({ client, id }) => deleteRemoteGlossaryEntry(client, id, entryId));
+
+// Newer of each pair wins, so the side that changed last keeps its version
+const newerOnly = <T extends { id: string }>(items: T[], others: T[], timeOf: (item: T) => number) => {
+  const otherTimes = new Map(others.map((o) => [o.id, timeOf(o)]));
+  return items.filter((item) => timeOf(item) > (otherTimes.get(item.id) ?? -Infinity));
+};
+
+// Two-way merge of the signed-in agent's sessions and glossary entries with their account.
+// Resolves with the ids of local sessions that were replaced by a newer remote version. Things
+// deleted on another device are not known here as deleted, so they come back.
+export const syncAll = async () => {
+  if (!agent) throw new Error('Sign in to sync');
+  const { client, id } = agent;
+  const isOwn = (record: { agentId?: string }) => record.agentId === id;
+
+  const [remoteSessions, localSessions, remoteGlossary, localGlossary] = await Promise.all([
+    fetchSessions(client, id),
+    getAllRecords<Session>('sessions').then((sessions) => sessions.filter(isOwn)),
+    fetchGlossary(client, id),
+    getAllRecords<GlossaryEntry>('glossary').then((entries) => entries.filter(isOwn)),
+  ]);
+
+  const pulledSessions = newerOnly(remoteSessions, localSessions, (s) => s.updatedAt);
+  for (const session of pulledSessions) {
+    await putRecord('sessions', { ...session, agentId: id });
+  }
+  for (const session of newerOnly(localSessions, remoteSessions, (s) => s.updatedAt)) {
+    await upsertSession(client, id, outgoing(session));
+  }
+
+  // Entries saved before updatedAt was tracked fall back to createdAt, which edits used to rewrite
+  const glossaryTime = (e: GlossaryEntry) => e.updatedAt ?? e.createdAt;
+  for (const entry of newerOnly(remoteGlossary, localGlossary, glossaryTime)) {
+    await putRecord('glossary', { ...entry, agentId: id });
+  }
+  await upsertGlossaryEntries(client, newerOnly(localGlossary, remoteGlossary, glossaryTime));
+
+  return pulledSessions.map((s) => s.id);
+};
+
+// Sessions with turns and glossary entries saved while nobody was signed in
+const unownedRecords = async () => {
+  const [sessions, glossary] = await Promise.all([
+    getAllRecords<Session>('sessions'),
+    getAllRecords<GlossaryEntry>('glossary'),
+  ]);
+  return {
+    sessions: sessions.filter((s) => !s.agentId && s.turns.length > 0),
+    glossary: glossary.filter((e) => !e.agentId),
+  };
+};
+
+export const countUnownedRecords = async () => {
+  const { sessions, glossary } = await unownedRecords();
+  return { sessions: sessions.length, glossary: glossary.length };
+};
+
+// Gives the signed-out history to the signed-in agent, so the next sync uploads it. Only done
+// when the agent agrees, since whoever used the browser before may have been someone else.
+// Resolves with the ids of the sessions claimed.
+export const claimUnownedRecords = async () => {
+  if (!agent) throw new Error('Sign in to sync');
+  const { id } = agent;
+  const { sessions, glossary } = await unownedRecords();
+  for (const session of sessions) {
+    await putRecord('sessions', { ...session, agentId: id });
+  }
+  for (const entry of glossary) {
+    await putRecord('glossary', { ...entry, agentId: id });
+  }
+  return sessions.map((s) => s.id);
+};
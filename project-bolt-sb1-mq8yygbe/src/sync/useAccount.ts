@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getLocalOwner } from '../storage/owner';
+import { claimUnownedRecords, countUnownedRecords, setSyncAgent, syncAll } from './sync';
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+// History saved on this browser while signed out, offered to the agent who signs in
+export interface UnownedRecords {
+  sessions: number;
+  glossary: number;
+}
+
+interface UseAccountOptions {
+  // Called after a sync with the ids of local sessions that were replaced by newer remote ones
+  onSynced: (pulledSessionIds: string[]) => void;
+  // Called when the history shown should switch to another agent's, or to the signed-out one
+  onAgentChanged: () => void;
+}
+
+// The signed-in agent, if Supabase is configured, and the sync of their local history
+export function useAccount({ onSynced, onAgentChanged }: UseAccountOptions) {
+  // Undefined until Supabase has restored the session from storage
+  const [user, setUser] = useState<User | null | undefined>(supabase ? undefined : null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [unowned, setUnowned] = useState<UnownedRecords | null>(null);
+
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const onAgentChangedRef = useRef(onAgentChanged);
+  onAgentChangedRef.current = onAgentChanged;
+
+  useEffect(() => {
+    if (!supabase) return;
+    // Also fires once with the session restored from storage
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => setUser(session?.user ?? null));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setSyncStatus('syncing');
+    setError('');
+    try {
+      const pulled = await syncAll();
+      setSyncStatus('synced');
+      setLastSyncedAt(Date.now());
+      onSyncedRef.current(pulled);
+    } catch (err) {
+      console.error('Sync failed:', err);
+      setSyncStatus('error');
+      setError(err instanceof Error ? err.message : 'Sync failed.');
+    }
+  }, []);
+
+  // The agent's own history is merged with their account as soon as they sign in. History saved
+  // while signed out is only added once they agree.
+  const userId = user === undefined ? undefined : (user?.id ?? null);
+  useEffect(() => {
+    if (userId === undefined) return;
+    const previousAgent = getLocalOwner();
+    setSyncAgent(userId);
+    setUnowned(null);
+    if (previousAgent !== userId) onAgentChangedRef.current();
+    if (!userId) {
+      setSyncStatus('idle');
+      setLastSyncedAt(null);
+      return;
+    }
+    syncNow();
+    if (previousAgent !== userId) {
+      countUnownedRecords()
+        .then((counts) => setUnowned(counts.sessions + counts.glossary > 0 ? counts : null))
+        .catch((err) => console.error('Failed to check for signed-out history:', err));
+    }
+  }, [userId, syncNow]);
+
+  const claimUnowned = async () => {
+    setUnowned(null);
+    try {
+      const claimed = await claimUnownedRecords();
+      onSyncedRef.current(claimed);
+    } catch (err) {
+      console.error('Failed to add signed-out history:', err);
+      setError('Failed to add the history on this browser to your account.');
+      return;
+    }
+    await syncNow();
+  };
+
+  const dismissUnowned = () => setUnowned(null);
+
+  const authenticate = async (action: () => Promise<{ error: { message: string } | null }>) => {
+    setError('');
+    setNotice('');
+    const { error } = await action();
+    if (error) setError(error.message);
+    return !error;
+  };
+
+  const signIn = (email: string, password: string) =>
+    authenticate(() => supabase!.auth.signInWithPassword({ email, password }));
+
+  const signUp = (email: string, password: string) =>
+    authenticate(async () => {
+      const result = await supabase!.auth.signUp({ email, password });
+      // Projects that confirm email addresses only sign the agent in after the link is followed
+      if (!result.error && !result.data.session) setNotice('Check your email to confirm your account, then sign in.');
+      return result;
+    });
+
+  const signOut = () => authenticate(() => supabase!.auth.signOut());
+
+  return {
+    isConfigured: supabase !== null,
+    user: user ?? null,
+    syncStatus,
+    lastSyncedAt,
+    error,
+    notice,
+    unowned,
+    claimUnowned,
+    dismissUnowned,
+    signIn,
+    signUp,
+    signOut,
+    syncNow,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { commonWords, compareRoundTrip, ComparedToken } from './backTranslation';
+
+// The tokens flagged as divergent, joined into the runs shown to the agent
+const divergentRuns = (tokens: ComparedToken[]) =>
+  tokens
+    .map((t) => (t.matched ? '|' : t.text))
+    .join('')
+    .split('|')
+    .filter(Boolean);
+
+describe('commonWords', () => {
+  it('finds the longest run of words both texts have in order', () => {
+    expect(commonWords(['a', 'b', 'c', 'd'], ['b', 'x', 'd'])).toEqual({ inA: new Set([1, 3]), inB: new Set([0, 2]) });
+  });
+
+  it('matches each word at most once', () => {
+    expect(commonWords(['a', 'a'], ['a'])).toEqual({ inA: new Set([0]), inB: new Set([0]) });
+    expect(commonWords([], ['a'])).toEqual({ inA: new Set(), inB: new Set() });
+  });
+});
+
+describe('compareRoundTrip', () => {
+  it('scores the share of words the texts have in common', () => {
+    expect(compareRoundTrip('I will send a refund today', 'I will send the refund tomorrow', 'en').score).toBeCloseTo(8 / 12);
+    expect(compareRoundTrip('Your order has shipped.', 'your ORDER has shipped', 'en').score).toBe(1);
+    expect(compareRoundTrip('Thanks', 'Merci', 'en').score).toBe(0);
+    expect(compareRoundTrip('', '', 'en').score).toBe(1);
+  });
+
+  it('compares Thai word by word although it is written without spaces', () => {
+    const { score, original } = compareRoundTrip('เราจะคืนเงินให้คุณวันนี้', 'เราจะคืนเงินให้คุณพรุ่งนี้', 'th');
+    expect(score).toBeCloseTo(14 / 16);
+    expect(divergentRuns(original)).toEqual(['วัน']);
+  });
+
+  it('compares Japanese word by word although it is written without spaces', () => {
+    const { score, roundTrip } = compareRoundTrip('明日返金します。', '今日返金します。', 'ja');
+    expect(score).toBeCloseTo(6 / 8);
+    expect(divergentRuns(roundTrip)).toEqual(['今日']);
+  });
+
+  it('highlights consecutive divergent words as one run, spaces included', () => {
+    const { original, roundTrip } = compareRoundTrip('Please call us today.', 'Please phone them today.', 'en');
+    expect(divergentRuns(original)).toEqual(['call us']);
+    expect(divergentRuns(roundTrip)).toEqual(['phone them']);
+    expect(original.map((t) => t.text).join('')).toBe('Please call us today.');
+  });
+
+  it('keeps separate divergent words apart', () => {
+    const { original } = compareRoundTrip('We can refund or replace it', 'We will refund and replace it', 'en');
+    expect(divergentRuns(original)).toEqual(['can', 'or']);
+  });
+});
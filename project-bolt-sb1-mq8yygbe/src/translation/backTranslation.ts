@@ -0,0 +1,101 @@
+// Round trips scoring below this are flagged for the agent to check
+export const LOW_SIMILARITY = 0.7;
+
+// Texts are compared word by word; longer replies are compared on their first words only
+const MAX_COMPARED_WORDS = 300;
+
+export interface ComparedToken {
+  text: string;
+  // False for words missing from the other text, and the spaces between two such words
+  matched: boolean;
+}
+
+export interface BackTranslationComparison {
+  // 0 to 1, the share of words the two texts have in common, in order
+  score: number;
+  original: ComparedToken[];
+  roundTrip: ComparedToken[];
+}
+
+interface Token {
+  text: string;
+  isWord: boolean;
+}
+
+// Word segmentation also splits languages written without spaces, such as Thai or Japanese
+const tokenize = (text: string, language: string): Token[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+    return Array.from(segmenter.segment(text), (s) => ({ text: s.segment, isWord: Boolean(s.isWordLike) }));
+  }
+  return (text.match(/[\p{L}\p{N}]+|[^\p{L}\p{N}]+/gu) ?? []).map((t) => ({
+    text: t,
+    isWord: /[\p{L}\p{N}]/u.test(t),
+  }));
+};
+
+const wordKey = (word: string) => word.normalize('NFC').toLocaleLowerCase();
+
+// Indexes of the words in a and b that belong to their longest common subsequence
+export const commonWords = (a: string[], b: string[]) => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const inA = new Set<number>();
+  const inB = new Set<number>();
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      inA.add(i++);
+      inB.add(j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return { inA, inB };
+};
+
+// Marks unmatched words, and whatever lies between two of them, so divergent phrases read as one
+const markTokens = (tokens: Token[], matchedWords: Set<number>) => {
+  let wordIndex = 0;
+  const marked = tokens.map((token) => {
+    // Words past the compared ones count as matched rather than flagging the whole tail
+    const index = token.isWord ? wordIndex++ : -1;
+    const matched = index < 0 || index >= MAX_COMPARED_WORDS || matchedWords.has(index);
+    return { text: token.text, matched, isWord: token.isWord };
+  });
+  let lastWord: (typeof marked)[number] | null = null;
+  let between: typeof marked = [];
+  for (const token of marked) {
+    if (!token.isWord) {
+      between.push(token);
+      continue;
+    }
+    if (lastWord && !lastWord.matched && !token.matched) {
+      between.forEach((t) => (t.matched = false));
+    }
+    lastWord = token;
+    between = [];
+  }
+  return marked.map(({ text, matched }) => ({ text, matched }));
+};
+
+// Compares a reply with its translation translated back into the reply's language
+export const compareRoundTrip = (original: string, roundTrip: string, language: string): BackTranslationComparison => {
+  const originalTokens = tokenize(original, language);
+  const roundTripTokens = tokenize(roundTrip, language);
+  const originalWords = originalTokens.filter((t) => t.isWord).slice(0, MAX_COMPARED_WORDS).map((t) => wordKey(t.text));
+  const roundTripWords = roundTripTokens.filter((t) => t.isWord).slice(0, MAX_COMPARED_WORDS).map((t) => wordKey(t.text));
+
+  const { inA, inB } = commonWords(originalWords, roundTripWords);
+  const total = originalWords.length + roundTripWords.length;
+  return {
+    score: total === 0 ? 1 : (2 * inA.size) / total,
+    original: markTokens(originalTokens, inA),
+    roundTrip: markTokens(roundTripTokens, inB),
+  };
+};
@@ -0,0 +1,55 @@
+import { clearRecords, countRecords, deleteFirstByIndex, getRecord, putRecord } from '../storage/db';
+import { ProviderId } from './types';
+
+interface CacheEntry {
+  key: string;
+  provider: ProviderId;
+  from: string;
+  to: string;
+  text: string;
+  translation: string;
+  lastUsedAt: number;
+}
+
+export const MAX_CACHE_ENTRIES = 5000;
+
+export const normalizeText = (text: string) => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const cacheKey = (provider: ProviderId, from: string, to: string, text: string) =>
+  `${provider}|${from}|${to}|${normalizeText(text)}`;
+
+export const getCachedTranslation = async (provider: ProviderId, from: string, to: string, text: string) => {
+  const entry = await getRecord<CacheEntry>('translationCache', cacheKey(provider, from, to, text));
+  if (!entry) return undefined;
+  // Refresh the entry's position in the LRU order without holding up the caller
+  putRecord('translationCache', { ...entry, lastUsedAt: Date.now() }).catch((err) =>
+    console.error('Failed to update translation cache:', err)
+  );
+  return entry.translation;
+};
+
+export const putCachedTranslation = async (
+  provider: ProviderId,
+  from: string,
+  to: string,
+  text: string,
+  translation: string
+) => {
+  const entry: CacheEntry = {
+    key: cacheKey(provider, from, to, text),
+    provider,
+    from,
+    to,
+    text: normalizeText(text),
+    translation,
+    lastUsedAt: Date.now(),
+  };
+  await putRecord('translationCache', entry);
+
+  const count = await countRecords('translationCache');
+  await deleteFirstByIndex('translationCache', 'lastUsedAt', count - MAX_CACHE_ENTRIES);
+};
+
+export const countCachedTranslations = () => countRecords('translationCache');
+
+export const clearTranslationCache = () => clearRecords('translationCache');
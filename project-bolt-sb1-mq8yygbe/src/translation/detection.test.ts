@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectLanguage, detectLocally } from './detection';
+import { Translator } from './translator';
+import { DetectedLanguage } from './types';
+
+const translatorDetecting = (detected: DetectedLanguage | null): Translator => ({
+  providers: [],
+  translate: vi.fn(),
+  detect: vi.fn(async () => detected),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('detectLocally', () => {
+  it('is confident about scripts only one language uses', () => {
+    expect(detectLocally('สวัสดีครับ')).toEqual({ language: 'th', confidence: 0.99, source: 'local' });
+    expect(detectLocally('안녕하세요')).toMatchObject({ language: 'ko' });
+    expect(detectLocally('Здравствуйте')).toMatchObject({ language: 'ru' });
+  });
+
+  it('takes text with any kana as Japanese, even when most of it is Han', () => {
+    expect(detectLocally('日本語学校東京駅前です')).toMatchObject({ language: 'ja', confidence: 0.99 });
+    expect(detectLocally('我想退款')).toMatchObject({ language: 'zh' });
+  });
+
+  it('gives up on samples shorter than three letters', () => {
+    expect(detectLocally('ok')).toBeNull();
+    expect(detectLocally('12345 !?')).toBeNull();
+  });
+
+  it('guesses Latin-script languages from common words and letters', () => {
+    expect(detectLocally('¿Dónde está mi pedido? No tengo el número')).toMatchObject({ language: 'es' });
+    expect(detectLocally('Ich habe das Paket nicht bekommen, danke')).toMatchObject({ language: 'de' });
+  });
+
+  it('returns a tentative guess when Spanish and Portuguese score the same', () => {
+    const tie = detectLocally('que de');
+
+    expect(tie).toEqual({ language: 'es', confidence: 0.6, source: 'local' });
+  });
+
+  it('returns nothing for Latin text without any known word or letter', () => {
+    expect(detectLocally('xyzzy plugh')).toBeNull();
+  });
+});
+
+describe('detectLanguage', () => {
+  it('trusts a confident local guess without asking a provider', async () => {
+    const translator = translatorDetecting({ language: 'lo', confidence: 1, source: 'mymemory' });
+
+    expect(await detectLanguage('สวัสดีครับ', translator)).toMatchObject({ language: 'th', source: 'local' });
+    expect(translator.detect).not.toHaveBeenCalled();
+  });
+
+  it('asks a provider when the local guess is below the threshold and keeps the surer answer', async () => {
+    const translator = translatorDetecting({ language: 'pt', confidence: 0.8, source: 'mymemory' });
+
+    expect(await detectLanguage('que de', translator)).toEqual({ language: 'pt', confidence: 0.8, source: 'mymemory' });
+    expect(translator.detect).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the local guess when the provider is less sure', async () => {
+    const translator = translatorDetecting({ language: 'pt', confidence: 0.4, source: 'mymemory' });
+
+    expect(await detectLanguage('que de', translator)).toMatchObject({ language: 'es', source: 'local' });
+  });
+
+  it('ignores languages outside the catalog and falls back to the local guess when detection fails', async () => {
+    expect(
+      await detectLanguage('que de', translatorDetecting({ language: 'xx', confidence: 1, source: 'mymemory' }))
+    ).toMatchObject({ language: 'es' });
+
+    const failing = translatorDetecting(null);
+    vi.mocked(failing.detect).mockRejectedValue(new Error('offline'));
+    expect(await detectLanguage('que de', failing)).toMatchObject({ language: 'es' });
+  });
+
+  it('passes an abort through instead of returning a guess', async () => {
+    const translator = translatorDetecting(null);
+    vi.mocked(translator.detect).mockRejectedValue(new DOMException('Aborted', 'AbortError'));
+
+    await expect(detectLanguage('que de', translator)).rejects.toThrow('Aborted');
+  });
+});
@@ -0,0 +1,88 @@
+import { languages } from '../languages';
+import { Translator } from './translator';
+import { DetectedLanguage, isAbortError } from './types';
+
+// Scripts used by exactly one of our languages settle detection on their own
+const scriptLanguages: [RegExp, string][] = [
+  [/\p{Script=Thai}/gu, 'th'],
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'],
+  [/\p{Script=Han}/gu, 'zh'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+];
+
+// Frequent short words and telltale letters for the Latin-script languages
+const latinProfiles: Record<string, { words: string[]; letters?: RegExp }> = {
+  en: { words: ['the', 'and', 'is', 'you', 'to', 'of', 'it', 'my', 'can', 'what', 'have', 'this', 'i', 'please'] },
+  es: { words: ['el', 'la', 'que', 'de', 'y', 'es', 'en', 'por', 'para', 'mi', 'no', 'tengo', 'gracias'], letters: /[ñ¿¡]/g },
+  fr: { words: ['le', 'la', 'les', 'et', 'est', 'je', 'vous', 'de', 'pas', 'une', 'merci', 'mon'], letters: /[çœ]|[àâèêëîïôùû]/g },
+  de: { words: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'sie', 'mit', 'ein', 'danke', 'mein'], letters: /[ßäöü]/g },
+  it: { words: ['il', 'che', 'di', 'e', 'non', 'sono', 'per', 'una', 'grazie', 'mio', 'ho', 'gli'], letters: /[àèìòù]/g },
+  pt: { words: ['o', 'que', 'de', 'não', 'é', 'um', 'uma', 'para', 'obrigado', 'meu', 'eu', 'você'], letters: /[ãõç]/g },
+  nl: { words: ['de', 'het', 'een', 'en', 'is', 'ik', 'niet', 'van', 'dat', 'mijn', 'bedankt', 'je'], letters: /ij/g },
+  sv: { words: ['och', 'är', 'jag', 'det', 'inte', 'att', 'en', 'min', 'tack', 'på', 'du'], letters: /[åäö]/g },
+  da: { words: ['og', 'er', 'jeg', 'det', 'ikke', 'at', 'en', 'min', 'tak', 'på', 'du'], letters: /[æøå]/g },
+  no: { words: ['og', 'er', 'jeg', 'det', 'ikke', 'å', 'en', 'min', 'takk', 'på', 'du'], letters: /[æøå]/g },
+  fi: { words: ['ja', 'on', 'minä', 'ei', 'se', 'että', 'kiitos', 'minun', 'olen', 'sinä'], letters: /[äö]/g },
+  pl: { words: ['i', 'nie', 'jest', 'to', 'się', 'na', 'że', 'mam', 'dziękuję', 'mój'], letters: /[ąćęłńśźż]/g },
+  tr: { words: ['ve', 'bir', 'bu', 'ben', 'değil', 'için', 'teşekkürler', 'benim', 'var', 'ne'], letters: /[ğışİ]/g },
+  vi: { words: ['và', 'là', 'tôi', 'không', 'có', 'của', 'cảm', 'ơn', 'bạn', 'được'], letters: /[ăđơư]|[ạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/g },
+};
+
+const MIN_SAMPLE_LETTERS = 3;
+
+// Offline best guess from script and common words; confident for unique scripts, tentative for Latin text
+export const detectLocally = (text: string): DetectedLanguage | null => {
+  const letters = (text.match(/\p{L}/gu) ?? []).length;
+  if (letters < MIN_SAMPLE_LETTERS) return null;
+
+  // Kana marks Japanese even when most characters are Han
+  const counts = scriptLanguages.map(([pattern, language]) => ({ language, count: (text.match(pattern) ?? []).length }));
+  const kana = counts.find((c) => c.language === 'ja')!;
+  const han = counts.find((c) => c.language === 'zh')!;
+  const best =
+    kana.count > 0 ? { language: 'ja', count: kana.count + han.count } : counts.reduce((a, b) => (b.count > a.count ? b : a));
+  if (best.count / letters > 0.5) {
+    return { language: best.language, confidence: Math.min(0.99, 0.6 + best.count / letters / 2.5), source: 'local' };
+  }
+
+  const words = text.toLocaleLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(latinProfiles).map(([language, profile]) => {
+    const wordHits = words.filter((w) => profile.words.includes(w)).length;
+    const letterHits = profile.letters ? (text.toLocaleLowerCase().match(profile.letters) ?? []).length : 0;
+    return { language, score: wordHits * 2 + letterHits };
+  });
+  scores.sort((a, b) => b.score - a.score);
+  const [first, second] = scores;
+  if (!first || first.score === 0) return null;
+
+  const margin = (first.score - (second?.score ?? 0)) / first.score;
+  const coverage = Math.min(1, first.score / Math.max(words.length, 1));
+  return { language: first.language, confidence: Math.min(0.9, 0.3 + margin * 0.3 + coverage * 0.3), source: 'local' };
+};
+
+// Above this the local guess is trusted without asking a provider
+const LOCAL_CONFIDENCE_THRESHOLD = 0.85;
+
+const supported = (detected: DetectedLanguage | null) =>
+  detected && languages.some((l) => l.code === detected.language) ? detected : null;
+
+export const detectLanguage = async (text: string, translator: Translator, signal?: AbortSignal) => {
+  const local = supported(detectLocally(text));
+  if (local && local.confidence >= LOCAL_CONFIDENCE_THRESHOLD) return local;
+
+  try {
+    const remote = supported(await translator.detect(text, signal));
+    if (remote && (!local || remote.confidence >= local.confidence)) return remote;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Language detection failed:', err);
+  }
+  return local;
+};
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
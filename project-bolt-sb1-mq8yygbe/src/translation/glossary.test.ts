@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearRecords } from '../storage/db';
+import { GlossaryEntry, protectTerms, restoreTerms, termsForDirection, withGlossary } from './glossary';
+import { saveGlossaryEntry } from './glossaryStore';
+import { Translator } from './translator';
+
+const entry = (fields: Partial<GlossaryEntry> & Pick<GlossaryEntry, 'from' | 'to' | 'term'>): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  translation: '',
+  doNotTranslate: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+const entries = [
+  entry({ from: 'en', to: 'th', term: 'Pro', translation: 'โปร' }),
+  entry({ from: 'en', to: 'th', term: 'Pro Max', translation: 'โปรแมกซ์' }),
+  entry({ from: 'en', to: 'th', term: 'Acme', doNotTranslate: true }),
+  entry({ from: 'en', to: 'ja', term: 'refund', translation: '返金' }),
+];
+
+describe('termsForDirection', () => {
+  it('uses forced translations both ways and do-not-translate terms as they are, longest first', () => {
+    expect(termsForDirection(entries, 'en', 'th')).toEqual([
+      { term: 'Pro Max', replacement: 'โปรแมกซ์' },
+      { term: 'Acme', replacement: null },
+      { term: 'Pro', replacement: 'โปร' },
+    ]);
+    expect(termsForDirection(entries, 'th', 'en')).toEqual([
+      { term: 'โปรแมกซ์', replacement: 'Pro Max' },
+      { term: 'Acme', replacement: null },
+      { term: 'โปร', replacement: 'Pro' },
+    ]);
+  });
+
+  it('leaves out other language pairs', () => {
+    expect(termsForDirection(entries, 'en', 'fr')).toEqual([]);
+  });
+});
+
+describe('protectTerms', () => {
+  it('swaps terms for placeholders and restores their replacements', () => {
+    const protectedText = protectTerms('The acme Pro Max beats the Pro', termsForDirection(entries, 'en', 'th'), 'en');
+    expect(protectedText).toEqual({
+      text: 'The __GT0__ __GT1__ beats the __GT2__',
+      replacements: ['acme', 'โปรแมกซ์', 'โปร'],
+    });
+    expect(restoreTerms('__GT0__ __GT1__ ดีกว่า __GT2__', protectedText.replacements)).toBe('acme โปรแมกซ์ ดีกว่า โปร');
+  });
+
+  it('only matches whole words in languages written with spaces', () => {
+    expect(protectTerms('Professional', termsForDirection(entries, 'en', 'th'), 'en').replacements).toEqual([]);
+  });
+
+  it('matches inside running text in languages written without spaces', () => {
+    const { text } = protectTerms('ซื้อโปรแมกซ์แล้ว', termsForDirection(entries, 'th', 'en'), 'th');
+    expect(text).toBe('ซื้อ__GT0__แล้ว');
+  });
+
+  it('restores placeholders that providers spaced out or changed the case of', () => {
+    expect(restoreTerms('Kaufen Sie __ gt0 __ heute', ['Acme'])).toBe('Kaufen Sie Acme heute');
+  });
+});
+
+describe('withGlossary', () => {
+  const translate = vi.fn(async ({ text }: { text: string }) => ({ text: `[th] ${text}`, provider: 'mymemory' as const }));
+  const translator: Translator = { providers: [], translate, detect: async () => null };
+
+  beforeAll(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(async () => {
+    await clearRecords('glossary');
+    translate.mockClear();
+    await saveGlossaryEntry({ from: 'en', to: 'th', term: 'Acme', translation: '', doNotTranslate: true });
+    await saveGlossaryEntry({ from: 'en', to: 'th', term: 'refund', translation: 'คืนเงิน', doNotTranslate: false });
+  });
+
+  it('sends placeholders to the provider and puts the terms back into its answer', async () => {
+    const result = await withGlossary(translator).translate({ text: 'Acme will refund you', from: 'en', to: 'th' });
+    expect(translate).toHaveBeenCalledWith(expect.objectContaining({ text: '__GT0__ will __GT1__ you' }));
+    expect(result).toEqual({ text: '[th] Acme will คืนเงิน you', provider: 'mymemory' });
+  });
+
+  it('answers text made up only of glossary terms itself', async () => {
+    const result = await withGlossary(translator).translate({ text: 'Acme refund', from: 'en', to: 'th' });
+    expect(translate).not.toHaveBeenCalled();
+    expect(result).toEqual({ text: 'Acme คืนเงิน', provider: 'glossary' });
+  });
+});
@@ -0,0 +1,103 @@
+import { usesWordSpacing } from '../languages';
+import { listGlossaryEntries } from './glossaryStore';
+import { Translator } from './translator';
+
+export interface GlossaryEntry {
+  id: string;
+  // The signed-in agent who owns the entry in this browser, if any
+  agentId?: string;
+  from: string;
+  to: string;
+  term: string;
+  // Empty for do-not-translate terms
+  translation: string;
+  doNotTranslate: boolean;
+  createdAt: number;
+  // Entries saved before this was tracked only have createdAt, which was rewritten on every edit
+  updatedAt?: number;
+}
+
+export interface ProtectedText {
+  text: string;
+  replacements: string[];
+}
+
+interface DirectedTerm {
+  term: string;
+  replacement: string | null;
+}
+
+// Letters, digits and underscores survive every provider we have tried unchanged
+const placeholder = (index: number) => `__GT${index}__`;
+const PLACEHOLDER_PATTERN = /_\s*_\s*GT\s*(\d+)\s*_\s*_/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Forced translations apply in their own direction and reversed; do-not-translate terms apply both ways
+export const termsForDirection = (entries: GlossaryEntry[], from: string, to: string): DirectedTerm[] => {
+  const terms: DirectedTerm[] = [];
+  for (const entry of entries) {
+    const forward = entry.from === from && entry.to === to;
+    const backward = entry.from === to && entry.to === from;
+    if (!forward && !backward) continue;
+
+    if (entry.doNotTranslate) {
+      terms.push({ term: entry.term, replacement: null });
+    } else if (forward) {
+      terms.push({ term: entry.term, replacement: entry.translation });
+    } else if (entry.translation) {
+      terms.push({ term: entry.translation, replacement: entry.term });
+    }
+  }
+  // Longer terms first, so "Pro Max" wins over "Pro"
+  return terms.filter((t) => t.term.trim()).sort((a, b) => b.term.length - a.term.length);
+};
+
+// Swaps glossary terms for placeholders the provider will leave alone
+export const protectTerms = (text: string, terms: DirectedTerm[], language: string): ProtectedText => {
+  if (terms.length === 0) return { text, replacements: [] };
+
+  const alternatives = terms.map((t) => escapeRegExp(t.term)).join('|');
+  // Only match whole words in languages that separate words with spaces
+  const pattern = usesWordSpacing(language)
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu')
+    : new RegExp(`(?:${alternatives})`, 'giu');
+
+  const replacements: string[] = [];
+  const protectedText = text.replace(pattern, (match) => {
+    const found = terms.find((t) => t.term.toLocaleLowerCase() === match.toLocaleLowerCase());
+    replacements.push(found?.replacement ?? match);
+    return placeholder(replacements.length - 1);
+  });
+  return { text: protectedText, replacements };
+};
+
+export const restoreTerms = (text: string, replacements: string[]) =>
+  replacements.length === 0
+    ? text
+    : text.replace(PLACEHOLDER_PATTERN, (match, index) => replacements[Number(index)] ?? match);
+
+export const withGlossary = (translator: Translator): Translator => ({
+  providers: translator.providers,
+  detect: translator.detect,
+  async translate(request) {
+    const { text, from, to } = request;
+    if (from === to) return translator.translate(request);
+
+    let entries: GlossaryEntry[] = [];
+    try {
+      entries = await listGlossaryEntries();
+    } catch (err) {
+      console.error('Failed to load glossary:', err);
+    }
+
+    const { text: protectedText, replacements } = protectTerms(text, termsForDirection(entries, from, to), from);
+    // Text made up only of glossary terms needs no provider at all
+    if (replacements.length > 0 && !protectedText.replace(PLACEHOLDER_PATTERN, '').trim()) {
+      return { text: restoreTerms(protectedText, replacements), provider: 'glossary' };
+    }
+
+    const result = await translator.translate({ ...request, text: protectedText });
+    return { ...result, text: restoreTerms(result.text, replacements) };
+  },
+});
@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { GlossaryEntry } from './glossary';
+import { glossaryFromCsv, glossaryFromTbx, glossaryToCsv, glossaryToTbx } from './glossaryFormats';
+import { NewGlossaryEntry } from './glossaryStore';
+
+const newEntries: NewGlossaryEntry[] = [
+  { from: 'en', to: 'th', term: 'Pro Max', translation: 'โปรแมกซ์', doNotTranslate: false },
+  { from: 'en', to: 'th', term: 'Acme, Inc.', translation: '', doNotTranslate: true },
+  { from: 'en', to: 'ar', term: '"Gold" plan', translation: 'الخطة "الذهبية"', doNotTranslate: false },
+  { from: 'en', to: 'ja', term: '=SUM(A1)', translation: '-10% & <more>', doNotTranslate: false },
+];
+
+const saved: GlossaryEntry[] = newEntries.map((e, i) => ({ ...e, id: `g${i}`, createdAt: i, updatedAt: i }));
+
+describe('glossary CSV', () => {
+  it('reads back what it wrote', () => {
+    expect(glossaryFromCsv(glossaryToCsv(saved))).toEqual(newEntries);
+  });
+
+  it('accepts yes, true and 1 for do-not-translate and skips rows without a term', () => {
+    const csv = [
+      'Source_Language,target_language,term,translation,do_not_translate',
+      'en,th,Acme,,TRUE',
+      'en,th,refund,คืนเงิน,no',
+      'en,th,,ignored,no',
+      'en,th,Pro,,1',
+    ].join('\n');
+    expect(glossaryFromCsv(csv)).toEqual([
+      { from: 'en', to: 'th', term: 'Acme', translation: '', doNotTranslate: true },
+      { from: 'en', to: 'th', term: 'refund', translation: 'คืนเงิน', doNotTranslate: false },
+      { from: 'en', to: 'th', term: 'Pro', translation: '', doNotTranslate: true },
+    ]);
+  });
+
+  it('rejects files without the expected columns', () => {
+    expect(() => glossaryFromCsv('term,translation\nPro,โปร')).toThrow(/must start with the columns/);
+  });
+});
+
+describe('glossary TBX', () => {
+  it('reads back what it wrote', () => {
+    expect(glossaryFromTbx(glossaryToTbx(saved))).toEqual(newEntries);
+  });
+
+  it('reads the older martif layout, one entry per target language', () => {
+    const xml = `<?xml version="1.0"?>
+      <martif type="TBX"><text><body>
+        <termEntry>
+          <langSet xml:lang="en-US"><tig><term>refund</term></tig></langSet>
+          <langSet xml:lang="th"><tig><term>คืนเงิน</term></tig></langSet>
+          <langSet xml:lang="ja"><tig><term>返金</term></tig></langSet>
+        </termEntry>
+        <termEntry>
+          <langSet xml:lang="en"><tig><term>lonely</term></tig></langSet>
+        </termEntry>
+      </body></text></martif>`;
+    expect(glossaryFromTbx(xml)).toEqual([
+      { from: 'en', to: 'th', term: 'refund', translation: 'คืนเงิน', doNotTranslate: false },
+      { from: 'en', to: 'ja', term: 'refund', translation: '返金', doNotTranslate: false },
+    ]);
+  });
+
+  it('rejects files that are not XML', () => {
+    expect(() => glossaryFromTbx('<tbx><text>')).toThrow('Glossary file is not valid XML');
+  });
+});
@@ -0,0 +1,103 @@
+import { parseCsv, toCsv } from '../utils/csv';
+import { GlossaryEntry } from './glossary';
+import { NewGlossaryEntry } from './glossaryStore';
+
+const CSV_HEADER = ['source_language', 'target_language', 'term', 'translation', 'do_not_translate'];
+const DO_NOT_TRANSLATE_NOTE = 'do-not-translate';
+
+export const glossaryToCsv = (entries: GlossaryEntry[]) =>
+  toCsv([
+    CSV_HEADER,
+    ...entries.map((e) => [e.from, e.to, e.term, e.translation, e.doNotTranslate ? 'yes' : 'no']),
+  ]);
+
+export const glossaryFromCsv = (csv: string): NewGlossaryEntry[] => {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header || CSV_HEADER.some((column, i) => header[i]?.trim().toLowerCase() !== column)) {
+    throw new Error(`Glossary CSV must start with the columns: ${CSV_HEADER.join(', ')}`);
+  }
+  return rows
+    .filter((row) => row[2]?.trim())
+    .map(([from, to, term, translation = '', doNotTranslate = '']) => ({
+      from: from.trim(),
+      to: to.trim(),
+      term: term.trim(),
+      translation: translation.trim(),
+      doNotTranslate: /^(yes|true|1)$/i.test(doNotTranslate.trim()),
+    }));
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TBX-Basic (ISO 30042:2019); do-not-translate terms carry a note and a single language section
+export const glossaryToTbx = (entries: GlossaryEntry[]) => {
+  const concepts = entries.map((e, i) => {
+    const sections = [`    <langSec xml:lang="${escapeXml(e.from)}"><termSec><term>${escapeXml(e.term)}</term></termSec></langSec>`];
+    if (!e.doNotTranslate) {
+      sections.push(
+        `    <langSec xml:lang="${escapeXml(e.to)}"><termSec><term>${escapeXml(e.translation)}</term></termSec></langSec>`
+      );
+    }
+    return [
+      `  <conceptEntry id="c${i + 1}">`,
+      e.doNotTranslate ? `    <note>${DO_NOT_TRANSLATE_NOTE}:${escapeXml(e.to)}</note>` : '',
+      ...sections,
+      '  </conceptEntry>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">',
+    '<tbxHeader><fileDesc><sourceDesc><p>Voice Translation glossary</p></sourceDesc></fileDesc></tbxHeader>',
+    '<text><body>',
+    ...concepts,
+    '</body></text>',
+    '</tbx>',
+    '',
+  ].join('\n');
+};
+
+const childrenByTag = (parent: Element, ...tags: string[]) =>
+  Array.from(parent.children).filter((c) => tags.includes(c.localName));
+
+// Reads TBX-Basic, and the older martif/termEntry/langSet layout
+export const glossaryFromTbx = (xml: string): NewGlossaryEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Glossary file is not valid XML');
+  }
+
+  const concepts = [
+    ...Array.from(doc.getElementsByTagNameNS('*', 'conceptEntry')),
+    ...Array.from(doc.getElementsByTagNameNS('*', 'termEntry')),
+  ];
+  const entries: NewGlossaryEntry[] = [];
+
+  for (const concept of concepts) {
+    const languages = childrenByTag(concept, 'langSec', 'langSet').map((section) => ({
+      lang: (section.getAttribute('xml:lang') || section.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') || '').split('-')[0],
+      term: section.getElementsByTagNameNS('*', 'term')[0]?.textContent?.trim() ?? '',
+    }));
+    const note = childrenByTag(concept, 'note')[0]?.textContent ?? '';
+
+    if (note.startsWith(`${DO_NOT_TRANSLATE_NOTE}:`) && languages[0]) {
+      entries.push({
+        from: languages[0].lang,
+        to: note.slice(DO_NOT_TRANSLATE_NOTE.length + 1),
+        term: languages[0].term,
+        translation: '',
+        doNotTranslate: true,
+      });
+    } else if (languages.length >= 2) {
+      const [source, ...targets] = languages;
+      for (const target of targets) {
+        entries.push({ from: source.lang, to: target.lang, term: source.term, translation: target.term, doNotTranslate: false });
+      }
+    }
+  }
+  return entries.filter((e) => e.from && e.to && e.term);
+};
@@ -0,0 +1,41 @@
+import { deleteRecord, getAllRecords, getRecord, putRecord } from '../storage/db';
+import { currentOwnerFields, isOwnedByCurrentAgent } from '../storage/owner';
+import { pushGlossaryDeletion, pushGlossaryEntries } from '../sync/sync';
+import { GlossaryEntry } from './glossary';
+
+export type NewGlossaryEntry = Omit<GlossaryEntry, 'id' | 'agentId' | 'createdAt' | 'updatedAt'>;
+
+export const listGlossaryEntries = async () =>
+  (await getAllRecords<GlossaryEntry>('glossary')).filter(isOwnedByCurrentAgent);
+
+export const saveGlossaryEntry = async (entry: NewGlossaryEntry & { id?: string }) => {
+  const now = Date.now();
+  const existing = entry.id ? await getRecord<GlossaryEntry>('glossary', entry.id) : undefined;
+  const saved: GlossaryEntry = {
+    ...entry,
+    ...(existing ? { agentId: existing.agentId } : currentOwnerFields()),
+    id: entry.id ?? crypto.randomUUID(),
+    translation: entry.doNotTranslate ? '' : entry.translation,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putRecord('glossary', saved);
+  pushGlossaryEntries([saved]);
+  return saved;
+};
+
+// Imported entries replace existing ones with the same pair and term
+export const importGlossaryEntries = async (entries: NewGlossaryEntry[]) => {
+  const existing = await listGlossaryEntries();
+  const keyOf = (e: NewGlossaryEntry) => `${e.from}|${e.to}|${e.term.toLocaleLowerCase()}`;
+  const ids = new Map(existing.map((e) => [keyOf(e), e.id]));
+  for (const entry of entries) {
+    await saveGlossaryEntry({ ...entry, id: ids.get(keyOf(entry)) });
+  }
+  return entries.length;
+};
+
+export const deleteGlossaryEntry = async (id: string) => {
+  await deleteRecord('glossary', id);
+  pushGlossaryDeletion(id);
+};
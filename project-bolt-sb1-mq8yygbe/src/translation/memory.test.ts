@@ -0,0 +1,41 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearRecords } from '../storage/db';
+import { findMemoryEntry, saveMemoryEntry } from './memory';
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+beforeEach(async () => {
+  await clearRecords('translationMemory');
+});
+
+describe('translation memory', () => {
+  it('matches regardless of case and trailing punctuation', async () => {
+    await saveMemoryEntry('en', 'th', 'How can I help you?', 'มีอะไรให้ช่วยไหมคะ');
+
+    expect((await findMemoryEntry('en', 'th', 'how can I help you'))?.target).toBe('มีอะไรให้ช่วยไหมคะ');
+  });
+
+  it('keeps corrections for one regional variant away from the others', async () => {
+    await saveMemoryEntry('en', 'zh', 'Thank you', '謝謝', 'zh-TW');
+
+    expect((await findMemoryEntry('en', 'zh', 'Thank you', 'zh-TW'))?.target).toBe('謝謝');
+    expect(await findMemoryEntry('en', 'zh', 'Thank you', 'zh-CN')).toBeUndefined();
+    expect(await findMemoryEntry('en', 'zh', 'Thank you')).toBeUndefined();
+  });
+
+  it('treats an entry without a variant as the language default', async () => {
+    await saveMemoryEntry('en', 'zh', 'Thank you', '谢谢');
+    await saveMemoryEntry('en', 'zh', 'Thank you', '謝謝', 'zh-TW');
+
+    expect((await findMemoryEntry('en', 'zh', 'Thank you', 'zh-CN'))?.target).toBe('谢谢');
+    expect((await findMemoryEntry('en', 'zh', 'Thank you'))?.toLocale).toBeUndefined();
+    expect((await findMemoryEntry('en', 'zh', 'Thank you', 'zh-TW'))?.toLocale).toBe('zh-TW');
+  });
+});
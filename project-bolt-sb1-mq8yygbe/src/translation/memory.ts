@@ -0,0 +1,67 @@
+import { speechLocale } from '../languages';
+import { deleteRecord, getAllRecords, getRecordByIndex, putRecord } from '../storage/db';
+import { normalizeText } from './cache';
+
+export interface MemoryEntry {
+  id: string;
+  key: string;
+  from: string;
+  to: string;
+  // The variant of `to` the translation was written for, e.g. zh-TW; absent for the default variant
+  toLocale?: string;
+  source: string;
+  target: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Memory matches ignore case and trailing punctuation, so "How can I help you?" matches "how can I help you"
+export const matchText = (text: string) => normalizeText(text).toLocaleLowerCase().replace(/[\s.!?。！？]+$/u, '');
+
+// Variants other than the language's default are remembered apart, since zh-TW and zh-CN or pt-PT
+// and pt-BR are written differently. The default keeps the bare code, so entries saved before
+// variants were tracked still count as the default one.
+const memoryTarget = (to: string, toLocale?: string) => {
+  const locale = toLocale ? speechLocale(toLocale) : undefined;
+  return locale && locale !== speechLocale(to) ? locale : undefined;
+};
+
+const memoryKey = (from: string, to: string, source: string, toLocale?: string) =>
+  `${from}|${memoryTarget(to, toLocale) ?? to}|${matchText(source)}`;
+
+export const findMemoryEntry = (from: string, to: string, source: string, toLocale?: string) =>
+  getRecordByIndex<MemoryEntry>('translationMemory', 'key', memoryKey(from, to, source, toLocale));
+
+// An entry saved for the opposite direction, whose translation is the text being looked up
+export const findReverseMemoryEntry = async (from: string, to: string, text: string) => {
+  const key = matchText(text);
+  const entries = await getAllRecords<MemoryEntry>('translationMemory');
+  return entries.find((e) => e.from === to && e.to === from && matchText(e.target) === key);
+};
+
+export const listMemoryEntries = async () => {
+  const entries = await getAllRecords<MemoryEntry>('translationMemory');
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Saves a translation, replacing any existing entry for the same source text and target variant
+export const saveMemoryEntry = async (from: string, to: string, source: string, target: string, toLocale?: string) => {
+  const now = Date.now();
+  const key = memoryKey(from, to, source, toLocale);
+  const existing = await getRecordByIndex<MemoryEntry>('translationMemory', 'key', key);
+  const entry: MemoryEntry = {
+    id: existing?.id ?? crypto.randomUUID(),
+    key,
+    from,
+    to,
+    toLocale: memoryTarget(to, toLocale),
+    source: normalizeText(source),
+    target: target.trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putRecord('translationMemory', entry);
+  return entry;
+};
+
+export const deleteMemoryEntry = (id: string) => deleteRecord('translationMemory', id);
@@ -0,0 +1,72 @@
+import { findPhrasebookTranslation } from '../quickReplies/store';
+import { getCachedTranslation, putCachedTranslation } from './cache';
+import { findMemoryEntry, findReverseMemoryEntry } from './memory';
+import { Translator } from './translator';
+import { isAbortError, isProviderSource } from './types';
+
+const quietly = <T>(promise: Promise<T>) =>
+  promise.catch((err) => {
+    console.error('Translation storage error:', err);
+    return undefined;
+  });
+
+// Answers from the user's translation memory before anything else runs
+export const withTranslationMemory = (translator: Translator): Translator => ({
+  providers: translator.providers,
+  detect: translator.detect,
+  async translate(request) {
+    const { text, from, to, toLocale } = request;
+    if (from === to || !text.trim()) return translator.translate(request);
+
+    const remembered = await quietly(findMemoryEntry(from, to, text, toLocale));
+    if (remembered) {
+      return { text: remembered.target, provider: 'memory' };
+    }
+    return translator.translate(request);
+  },
+});
+
+// When no provider answers, for example while offline, looks for the text in the phrasebook and
+// in memory entries saved the other way round before giving up
+export const withOfflineFallback = (translator: Translator): Translator => ({
+  providers: translator.providers,
+  detect: translator.detect,
+  async translate(request) {
+    try {
+      return await translator.translate(request);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const { text, from, to } = request;
+      const phrase = await quietly(findPhrasebookTranslation(from, to, text));
+      if (phrase) return { text: phrase, provider: 'phrasebook' };
+      const reverse = await quietly(findReverseMemoryEntry(from, to, text));
+      if (reverse) return { text: reverse.source, provider: 'memory' };
+      throw err;
+    }
+  },
+});
+
+// Reuses earlier provider responses, and records new ones. Variants of a language are cached
+// apart, since providers write zh-TW and zh-CN in different scripts.
+export const withTranslationCache = (translator: Translator): Translator => ({
+  providers: translator.providers,
+  detect: translator.detect,
+  async translate(request) {
+    const { text, from } = request;
+    const to = request.toLocale ?? request.to;
+    if (from === request.to || !text.trim()) return translator.translate(request);
+
+    for (const provider of translator.providers) {
+      const cached = await quietly(getCachedTranslation(provider.id, from, to, text));
+      if (cached !== undefined) {
+        return { text: cached, provider: provider.id, cached: true };
+      }
+    }
+
+    const result = await translator.translate(request);
+    if (isProviderSource(result.provider)) {
+      quietly(putCachedTranslation(result.provider, from, to, text, result.text));
+    }
+    return result;
+  },
+});
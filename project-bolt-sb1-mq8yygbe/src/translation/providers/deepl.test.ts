@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDeepLProvider } from './deepl';
+
+const deepl = createDeepLProvider({ url: 'https://deepl.example.com', apiKey: 'key' });
+
+// The target_lang DeepL was asked for
+const targetFor = async (to: string, toLocale?: string) => {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response(JSON.stringify({ translations: [{ text: 'ok' }] })));
+  vi.stubGlobal('fetch', fetch);
+  await deepl.translate({ text: 'hello', from: 'de', to, toLocale });
+  const [, init] = fetch.mock.calls[0];
+  return JSON.parse(String(init?.body)).target_lang;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('DeepL targets', () => {
+  it('writes Chinese in the script of the chosen variant', async () => {
+    expect(await targetFor('zh', 'zh-CN')).toBe('ZH-HANS');
+    expect(await targetFor('zh', 'zh-TW')).toBe('ZH-HANT');
+    expect(await targetFor('zh', 'zh-HK')).toBe('ZH-HANT');
+  });
+
+  it('tells the regional English and Portuguese targets apart', async () => {
+    expect(await targetFor('en', 'en-GB')).toBe('EN-GB');
+    expect(await targetFor('en', 'en-US')).toBe('EN-US');
+    expect(await targetFor('pt', 'pt-BR')).toBe('PT-BR');
+    expect(await targetFor('pt', 'pt-PT')).toBe('PT-PT');
+  });
+
+  it('falls back to the language when no variant is given', async () => {
+    expect(await targetFor('zh')).toBe('ZH-HANS');
+    expect(await targetFor('no')).toBe('NB');
+    expect(await targetFor('ja', 'ja-JP')).toBe('JA');
+  });
+});
+
+describe('DeepL requests', () => {
+  it('are not sent without a proxy, since DeepL does not answer browsers', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>();
+    vi.stubGlobal('fetch', fetch);
+    for (const url of ['', 'https://api-free.deepl.com', 'https://api.deepl.com/']) {
+      await expect(
+        createDeepLProvider({ url, apiKey: 'key' }).translate({ text: 'hallo', from: 'de', to: 'en' })
+      ).rejects.toMatchObject({ kind: 'unavailable', message: expect.stringContaining('proxy') });
+    }
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('fail as network errors when the server cannot be reached', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      })
+    );
+    await expect(deepl.translate({ text: 'hallo', from: 'de', to: 'en' })).rejects.toMatchObject({
+      provider: 'deepl',
+      kind: 'network',
+    });
+  });
+});
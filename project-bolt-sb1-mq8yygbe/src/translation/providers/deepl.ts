@@ -0,0 +1,76 @@
+import { scriptOf } from '../../languages';
+import { errorFromResponse, fetchFrom, TranslationError, TranslationProvider } from '../types';
+
+export interface DeepLConfig {
+  url: string;
+  apiKey: string;
+}
+
+// DeepL rejects the bare EN/PT codes as targets, and writes Chinese in the script it is asked for
+const deeplTarget = (to: string, locale = to) => {
+  switch (to) {
+    case 'en':
+      return locale.toLowerCase() === 'en-gb' ? 'EN-GB' : 'EN-US';
+    case 'pt':
+      return locale.toLowerCase() === 'pt-br' ? 'PT-BR' : 'PT-PT';
+    case 'zh':
+      return scriptOf(locale) === 'Hant' ? 'ZH-HANT' : 'ZH-HANS';
+    case 'no':
+      return 'NB';
+    default:
+      return to.toUpperCase();
+  }
+};
+
+// DeepL's own API sends no CORS headers, so browsers can only reach it through a proxy
+const isDeepLApi = (url: string) => {
+  try {
+    return /(^|\.)deepl\.com$/.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const deeplSupported = new Set([
+  'ar', 'da', 'de', 'en', 'es', 'fi', 'fr', 'it', 'ja', 'ko', 'nl', 'no', 'pl', 'pt', 'ru', 'sv', 'tr', 'zh',
+]);
+
+export const createDeepLProvider = (config: DeepLConfig): TranslationProvider => ({
+  id: 'deepl',
+  name: 'DeepL',
+  async translate({ text, from, to, toLocale, signal }) {
+    if (!config.apiKey) {
+      throw new TranslationError('deepl', 'unavailable', 'No API key configured');
+    }
+    if (!config.url || isDeepLApi(config.url)) {
+      throw new TranslationError('deepl', 'unavailable', 'No proxy URL configured; DeepL does not accept requests from browsers');
+    }
+    if (!deeplSupported.has(from) || !deeplSupported.has(to)) {
+      throw new TranslationError('deepl', 'unsupported', `Language pair ${from}|${to} is not supported`);
+    }
+
+    const response = await fetchFrom('deepl', `${config.url.replace(/\/$/, '')}/v2/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `DeepL-Auth-Key ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        text: [text],
+        source_lang: (from === 'no' ? 'nb' : from).toUpperCase(),
+        target_lang: deeplTarget(to, toLocale),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse('deepl', response);
+    }
+
+    const data = await response.json();
+    const translation = data.translations?.[0]?.text;
+    if (typeof translation !== 'string') {
+      throw new TranslationError('deepl', 'failed', 'Translation failed');
+    }
+    return translation;
+  },
+});
@@ -0,0 +1,59 @@
+import { scriptOf } from '../../languages';
+import { errorFromResponse, fetchFrom, TranslationError, TranslationProvider } from '../types';
+
+export interface LibreTranslateConfig {
+  url: string;
+  apiKey: string;
+}
+
+// LibreTranslate names Traditional Chinese zt; its zh is Simplified
+const libreTarget = (to: string, locale = to) => (to === 'zh' && scriptOf(locale) === 'Hant' ? 'zt' : to);
+
+export const createLibreTranslateProvider = (config: LibreTranslateConfig): TranslationProvider => ({
+  id: 'libretranslate',
+  name: 'LibreTranslate',
+  async translate({ text, from, to, toLocale, signal }) {
+    if (!config.url) {
+      throw new TranslationError('libretranslate', 'unavailable', 'No server URL configured');
+    }
+
+    const response = await fetchFrom('libretranslate', `${config.url.replace(/\/$/, '')}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: text,
+        source: from,
+        target: libreTarget(to, toLocale),
+        format: 'text',
+        ...(config.apiKey ? { api_key: config.apiKey } : {}),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse('libretranslate', response);
+    }
+
+    const data = await response.json();
+    if (typeof data.translatedText !== 'string') {
+      throw new TranslationError('libretranslate', 'failed', data.error || 'Translation failed');
+    }
+    return data.translatedText;
+  },
+  async detect(text, signal) {
+    if (!config.url) return null;
+
+    const response = await fetchFrom('libretranslate', `${config.url.replace(/\/$/, '')}/detect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: text, ...(config.apiKey ? { api_key: config.apiKey } : {}) }),
+      signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse('libretranslate', response);
+    }
+
+    // Candidates come back best first, with confidence as a percentage
+    const [best] = await response.json();
+    return best ? { language: best.language, confidence: best.confidence / 100, source: 'libretranslate' } : null;
+  },
+});
@@ -0,0 +1,34 @@
+import { errorFromResponse, fetchFrom, TranslationError, TranslationProvider } from '../types';
+
+export interface MyMemoryConfig {
+  url: string;
+  email: string;
+}
+
+export const createMyMemoryProvider = (config: MyMemoryConfig): TranslationProvider => ({
+  id: 'mymemory',
+  name: 'MyMemory',
+  // Takes region tags such as zh-TW and pt-BR as the target
+  async translate({ text, from, to, toLocale, signal }) {
+    const params = new URLSearchParams({ q: text, langpair: `${from}|${toLocale ?? to}` });
+    if (config.email) {
+      // A contact email raises the free daily quota
+      params.set('de', config.email);
+    }
+
+    const response = await fetchFrom('mymemory', `${config.url.replace(/\/$/, '')}/get?${params}`, { signal });
+    if (!response.ok) {
+      throw errorFromResponse('mymemory', response);
+    }
+
+    const data = await response.json();
+    if (data.responseStatus === 200) {
+      return data.responseData.translatedText;
+    }
+    // MyMemory reports quota exhaustion in the body with a 200 HTTP status
+    if (data.responseStatus === 429 || data.quotaFinished) {
+      throw new TranslationError('mymemory', 'rate-limit', 'Daily quota exhausted');
+    }
+    throw new TranslationError('mymemory', 'failed', data.responseDetails || 'Translation failed');
+  },
+});
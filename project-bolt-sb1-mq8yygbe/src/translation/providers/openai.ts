@@ -0,0 +1,80 @@
+import { errorFromResponse, fetchFrom, TranslationError, TranslationProvider } from '../types';
+
+export interface OpenAIConfig {
+  url: string;
+  apiKey: string;
+  model: string;
+}
+
+// Works with any server exposing an OpenAI-style /chat/completions endpoint
+export const createOpenAIProvider = (config: OpenAIConfig): TranslationProvider => ({
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  async translate({ text, from, to, toLocale, signal }) {
+    if (!config.url || !config.model) {
+      throw new TranslationError('openai', 'unavailable', 'No endpoint or model configured');
+    }
+
+    const response = await fetchFrom('openai', `${config.url.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's message from language code "${from}" to language code "${toLocale ?? to}". Reply with the translation only.`,
+          },
+          { role: 'user', content: text },
+        ],
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse('openai', response);
+    }
+
+    const data = await response.json();
+    const translation = data.choices?.[0]?.message?.content;
+    if (typeof translation !== 'string') {
+      throw new TranslationError('openai', 'failed', 'Translation failed');
+    }
+    return translation.trim();
+  },
+  async detect(text, signal) {
+    if (!config.url || !config.model) return null;
+
+    const response = await fetchFrom('openai', `${config.url.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content:
+              'Identify the language of the user\'s message. Reply with JSON only: {"language": "<ISO 639-1 code>", "confidence": <0 to 1>}.',
+          },
+          { role: 'user', content: text },
+        ],
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse('openai', response);
+    }
+
+    const data = await response.json();
+    const answer = JSON.parse(data.choices?.[0]?.message?.content ?? 'null');
+    if (typeof answer?.language !== 'string') return null;
+    return { language: answer.language.toLowerCase(), confidence: Number(answer.confidence) || 0.5, source: 'openai' };
+  },
+});
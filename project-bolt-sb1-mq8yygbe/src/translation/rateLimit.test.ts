@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, withRateLimit } from './rateLimit';
+import { createFallbackTranslator } from './translator';
+import { ProviderId, TranslationError, TranslationProvider } from './types';
+
+// Attempts would otherwise be written to IndexedDB
+vi.mock('../analytics/store', () => ({ recordMetric: vi.fn() }));
+
+// A task the test finishes by hand, recording when it started
+const deferredTask = (log: string[], name: string) => {
+  let finish = () => {};
+  const task = () =>
+    new Promise<string>((resolve) => {
+      log.push(name);
+      finish = () => resolve(name);
+    });
+  return { task, finish: () => finish() };
+};
+
+const provider = (id: ProviderId, translate: TranslationProvider['translate']): TranslationProvider => ({
+  id,
+  name: id,
+  translate: vi.fn(translate),
+});
+
+const request = { text: 'hello', from: 'en', to: 'th' };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', globalThis);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+  it('runs no more than maxConcurrent tasks at once', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, maxConcurrent: 2 });
+    const started: string[] = [];
+    const [a, b, c] = ['a', 'b', 'c'].map((name) => deferredTask(started, name));
+
+    const results = [limiter.run(a.task), limiter.run(b.task), limiter.run(c.task)];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a', 'b']);
+
+    a.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    b.finish();
+    c.finish();
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('holds tasks over requestsPerMinute until the oldest start leaves the minute', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 2, maxConcurrent: 0 });
+    const started: string[] = [];
+    const run = (name: string) => limiter.run(async () => started.push(name));
+
+    run('a');
+    await vi.advanceTimersByTimeAsync(10_000);
+    run('b');
+    run('c');
+    run('d');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a', 'b']);
+
+    // a started at 0 and b at 10s, so c may start at 60s and d at 70s
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(started).toEqual(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a', 'b', 'c']);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('treats 0 as no limit', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, maxConcurrent: 0 });
+    const started: string[] = [];
+    const tasks = Array.from({ length: 50 }, (_, i) => deferredTask(started, String(i)));
+
+    tasks.forEach(({ task }) => limiter.run(task));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(50);
+  });
+
+  it('drops a waiting task when its signal aborts and frees its place', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, maxConcurrent: 1 });
+    const started: string[] = [];
+    const [a, b, c] = ['a', 'b', 'c'].map((name) => deferredTask(started, name));
+    const controller = new AbortController();
+
+    limiter.run(a.task);
+    const aborted = limiter.run(b.task, controller.signal);
+    const last = limiter.run(c.task);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+    a.finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a', 'c']);
+    c.finish();
+    await expect(last).resolves.toBe('c');
+  });
+
+  it('rejects at once when the signal has already aborted', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1, maxConcurrent: 1 });
+    const task = vi.fn(async () => 'done');
+
+    await expect(limiter.run(task, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('frees the place of a task that fails', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 0, maxConcurrent: 1 });
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('withRateLimit', () => {
+  it('shares one limit between translation and detection', async () => {
+    const started: string[] = [];
+    const translation = deferredTask(started, 'translate');
+    const limited = withRateLimit(
+      {
+        id: 'mymemory',
+        name: 'MyMemory',
+        translate: () => translation.task(),
+        detect: async () => {
+          started.push('detect');
+          return null;
+        },
+      },
+      { requestsPerMinute: 0, maxConcurrent: 1 }
+    );
+
+    const translated = limited.translate(request);
+    const detected = limited.detect!('hello');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['translate']);
+
+    translation.finish();
+    await expect(translated).resolves.toBe('translate');
+    await expect(detected).resolves.toBeNull();
+    expect(started).toEqual(['translate', 'detect']);
+  });
+});
+
+describe('provider cooldown', () => {
+  const rateLimited = () =>
+    provider('deepl', async () => {
+      throw new TranslationError('deepl', 'rate-limit', 'Rate limited (HTTP 429)');
+    });
+
+  it('skips a rate-limited provider for a minute, then tries it again', async () => {
+    const deepl = rateLimited();
+    const mymemory = provider('mymemory', async () => 'สวัสดี');
+    const translator = createFallbackTranslator([deepl, mymemory]);
+
+    await expect(translator.translate(request)).resolves.toEqual({ text: 'สวัสดี', provider: 'mymemory' });
+    expect(deepl.translate).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    await translator.translate(request);
+    expect(deepl.translate).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await translator.translate(request);
+    expect(deepl.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cool down providers that fail for other reasons', async () => {
+    const deepl = provider('deepl', async () => {
+      throw new TranslationError('deepl', 'unavailable', 'HTTP 503');
+    });
+    const translator = createFallbackTranslator([deepl, provider('mymemory', async () => 'สวัสดี')]);
+
+    await translator.translate(request);
+    await translator.translate(request);
+    expect(deepl.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('tries every provider when all of them are cooling down', async () => {
+    const deepl = rateLimited();
+    const translator = createFallbackTranslator([deepl]);
+
+    await expect(translator.translate(request)).rejects.toThrow('Rate limited');
+    await expect(translator.translate(request)).rejects.toThrow('Rate limited');
+    expect(deepl.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a provider it could not reach over one that is not set up', async () => {
+    const translator = createFallbackTranslator([
+      provider('mymemory', async () => {
+        throw new TranslationError('mymemory', 'network', 'Failed to fetch');
+      }),
+      provider('deepl', async () => {
+        throw new TranslationError('deepl', 'unavailable', 'No API key configured');
+      }),
+    ]);
+
+    await expect(translator.translate(request)).rejects.toMatchObject({ kind: 'network' });
+  });
+});
@@ -0,0 +1,84 @@
+import { TranslationProvider } from './types';
+
+// 0 means no limit
+export interface RateLimit {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+}
+
+const WINDOW_MS = 60_000;
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+// Queues tasks so no more than the limit run at once or start within any one minute
+export const createRateLimiter = ({ requestsPerMinute, maxConcurrent }: RateLimit) => {
+  // Start times within the last minute, oldest first
+  const started: number[] = [];
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let timer = 0;
+
+  const pump = () => {
+    window.clearTimeout(timer);
+    const now = Date.now();
+    while (started.length > 0 && started[0] <= now - WINDOW_MS) started.shift();
+
+    while (
+      waiting.length > 0 &&
+      (maxConcurrent <= 0 || active < maxConcurrent) &&
+      (requestsPerMinute <= 0 || started.length < requestsPerMinute)
+    ) {
+      started.push(now);
+      active++;
+      waiting.shift()!();
+    }
+
+    // Wake up when the oldest request leaves the window; finishing tasks call pump themselves
+    if (waiting.length > 0 && requestsPerMinute > 0 && started.length >= requestsPerMinute) {
+      timer = window.setTimeout(pump, started[0] + WINDOW_MS - now);
+    }
+  };
+
+  const acquire = (signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const onAbort = () => {
+        const index = waiting.indexOf(grant);
+        if (index >= 0) waiting.splice(index, 1);
+        reject(abortError());
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiting.push(grant);
+      pump();
+    });
+
+  return {
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      await acquire(signal);
+      try {
+        return await task();
+      } finally {
+        active--;
+        pump();
+      }
+    },
+  };
+};
+
+// Requests beyond the provider's limit wait their turn instead of being sent and rejected
+export const withRateLimit = (provider: TranslationProvider, limit: RateLimit): TranslationProvider => {
+  const limiter = createRateLimiter(limit);
+  const { detect } = provider;
+  return {
+    ...provider,
+    translate: (request) => limiter.run(() => provider.translate(request), request.signal),
+    detect: detect && ((text, signal) => limiter.run(() => detect(text, signal), signal)),
+  };
+};
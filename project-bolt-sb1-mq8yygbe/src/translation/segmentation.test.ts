@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { joinSegments, MAX_SEGMENT_LENGTH, splitSentences } from './segmentation';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('splitSentences', () => {
+  it('splits at sentence boundaries and keeps the whitespace after each one', () => {
+    expect(splitSentences('Hello there. How are you? Fine!', 'en')).toEqual(['Hello there. ', 'How are you? ', 'Fine!']);
+    expect(splitSentences('今日は晴れです。明日は雨ですか？', 'ja')).toEqual(['今日は晴れです。', '明日は雨ですか？']);
+  });
+
+  it('falls back to punctuation where Intl.Segmenter is missing', () => {
+    vi.stubGlobal('Intl', {});
+
+    expect(splitSentences('Hello there. How are you? Fine', 'en')).toEqual(['Hello there. ', 'How are you? ', 'Fine']);
+    expect(splitSentences('今日は晴れです。明日は雨ですか？', 'ja')).toEqual(['今日は晴れです。', '明日は雨ですか？']);
+  });
+
+  it('drops pieces that are only whitespace', () => {
+    expect(splitSentences('   ', 'en')).toEqual([]);
+  });
+
+  it('cuts sentences longer than the provider limit at a space', () => {
+    const words = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+
+    const pieces = splitSentences(words, 'en');
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.every((p) => p.length <= MAX_SEGMENT_LENGTH)).toBe(true);
+    expect(pieces.slice(0, -1).every((p) => p.endsWith(' '))).toBe(true);
+    expect(pieces.join('')).toBe(words);
+  });
+
+  it('cuts text without spaces at the limit itself', () => {
+    const text = 'ก'.repeat(MAX_SEGMENT_LENGTH * 2 + 10);
+
+    expect(splitSentences(text, 'th').map((p) => p.length)).toEqual([MAX_SEGMENT_LENGTH, MAX_SEGMENT_LENGTH, 10]);
+  });
+});
+
+describe('joinSegments', () => {
+  it('joins what splitSentences split back into the original text', () => {
+    const text = 'Hello there. How are you? Fine!';
+
+    expect(joinSegments(splitSentences(text, 'en'), 'en')).toBe(text);
+  });
+
+  it('joins without spaces for languages written without them', () => {
+    expect(joinSegments(['今日は晴れです。 ', ' 明日は雨ですか？'], 'ja')).toBe('今日は晴れです。明日は雨ですか？');
+  });
+
+  it('skips empty translations', () => {
+    expect(joinSegments(['Hello.', '', '  ', 'Bye.'], 'en')).toBe('Hello. Bye.');
+  });
+});
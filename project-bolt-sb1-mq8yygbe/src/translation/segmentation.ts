@@ -0,0 +1,29 @@
+import { usesWordSpacing } from '../languages';
+
+// Stays under MyMemory's 500 character limit with room to spare
+export const MAX_SEGMENT_LENGTH = 450;
+
+const splitLong = (sentence: string): string[] => {
+  if (sentence.length <= MAX_SEGMENT_LENGTH) return [sentence];
+  const cut = sentence.lastIndexOf(' ', MAX_SEGMENT_LENGTH);
+  const at = cut > 0 ? cut + 1 : MAX_SEGMENT_LENGTH;
+  return [sentence.slice(0, at), ...splitLong(sentence.slice(at))];
+};
+
+// Splits text into sentences, keeping surrounding whitespace so the pieces join back losslessly
+export const splitSentences = (text: string, language: string): string[] => {
+  let sentences: string[];
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+    sentences = Array.from(segmenter.segment(text), (s) => s.segment);
+  } else {
+    sentences = text.match(/[^.!?。！？]+(?:[.!?。！？]+\s*|$)/g) ?? [text];
+  }
+  return sentences.flatMap(splitLong).filter((s) => s.trim());
+};
+
+export const joinSegments = (texts: string[], language: string) =>
+  texts
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .join(usesWordSpacing(language) ? ' ' : '');
@@ -0,0 +1,79 @@
+import { DeepLConfig } from './providers/deepl';
+import { LibreTranslateConfig } from './providers/libreTranslate';
+import { MyMemoryConfig } from './providers/myMemory';
+import { OpenAIConfig } from './providers/openai';
+import { RateLimit } from './rateLimit';
+import { ProviderId } from './types';
+
+export interface ProviderSettings {
+  order: ProviderId[];
+  enabled: Record<ProviderId, boolean>;
+  mymemory: MyMemoryConfig;
+  libretranslate: LibreTranslateConfig;
+  deepl: DeepLConfig;
+  openai: OpenAIConfig;
+  rateLimits: Record<ProviderId, RateLimit>;
+}
+
+const STORAGE_KEY = 'voice-translation:providers';
+
+const env = import.meta.env;
+
+export const defaultProviderSettings: ProviderSettings = {
+  order: ['libretranslate', 'deepl', 'openai', 'mymemory'],
+  enabled: {
+    mymemory: true,
+    libretranslate: Boolean(env.VITE_LIBRETRANSLATE_URL),
+    deepl: Boolean(env.VITE_DEEPL_URL && env.VITE_DEEPL_API_KEY),
+    openai: Boolean(env.VITE_OPENAI_URL),
+  },
+  mymemory: {
+    url: env.VITE_MYMEMORY_URL || 'https://api.mymemory.translated.net',
+    email: '',
+  },
+  libretranslate: {
+    url: env.VITE_LIBRETRANSLATE_URL || '',
+    apiKey: env.VITE_LIBRETRANSLATE_API_KEY || '',
+  },
+  deepl: {
+    url: env.VITE_DEEPL_URL || '',
+    apiKey: env.VITE_DEEPL_API_KEY || '',
+  },
+  openai: {
+    url: env.VITE_OPENAI_URL || '',
+    apiKey: env.VITE_OPENAI_API_KEY || '',
+    model: env.VITE_OPENAI_MODEL || '',
+  },
+  // Conservative defaults for the public services; self-hosted servers can be opened up
+  rateLimits: {
+    mymemory: { requestsPerMinute: 30, maxConcurrent: 2 },
+    libretranslate: { requestsPerMinute: 60, maxConcurrent: 4 },
+    deepl: { requestsPerMinute: 60, maxConcurrent: 4 },
+    openai: { requestsPerMinute: 30, maxConcurrent: 2 },
+  },
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultProviderSettings;
+    const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+    return {
+      ...defaultProviderSettings,
+      ...parsed,
+      enabled: { ...defaultProviderSettings.enabled, ...parsed.enabled },
+      mymemory: { ...defaultProviderSettings.mymemory, ...parsed.mymemory },
+      libretranslate: { ...defaultProviderSettings.libretranslate, ...parsed.libretranslate },
+      deepl: { ...defaultProviderSettings.deepl, ...parsed.deepl },
+      openai: { ...defaultProviderSettings.openai, ...parsed.openai },
+      rateLimits: { ...defaultProviderSettings.rateLimits, ...parsed.rateLimits },
+    };
+  } catch (err) {
+    console.error('Failed to load provider settings:', err);
+    return defaultProviderSettings;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
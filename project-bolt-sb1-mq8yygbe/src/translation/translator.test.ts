@@ -0,0 +1,38 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { defaultRedactionSettings } from '../privacy/settings';
+import { getAllRecords } from '../storage/db';
+import { countCachedTranslations } from './cache';
+import { createTranslator } from './translator';
+import { TranslationProvider } from './types';
+
+// Attempts would otherwise be written to the analytics store
+vi.mock('../analytics/store', () => ({ recordMetric: vi.fn() }));
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createTranslator', () => {
+  it('caches translations of text with personal data only in its masked form', async () => {
+    const provider: TranslationProvider = {
+      id: 'mymemory',
+      name: 'MyMemory',
+      translate: vi.fn(async ({ text }) => `[th] ${text}`),
+    };
+    const translator = createTranslator([provider], { ...defaultRedactionSettings, enabled: true }, {});
+
+    const result = await translator.translate({ text: 'Mail me at somchai@example.com', from: 'en', to: 'th' });
+
+    expect(result.text).toBe('[th] Mail me at somchai@example.com');
+    await vi.waitFor(async () => expect(await countCachedTranslations()).toBe(1));
+    const stored = JSON.stringify(await getAllRecords('translationCache'));
+    expect(stored).not.toContain('somchai');
+    expect(stored).toContain('__PII0__');
+  });
+});
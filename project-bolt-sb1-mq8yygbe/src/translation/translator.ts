@@ -0,0 +1,148 @@
+import { recordMetric } from '../analytics/store';
+import { LocalePreferences, preferredLocale } from '../languages';
+import { withRedaction } from '../privacy/redaction';
+import { RedactionSettings } from '../privacy/settings';
+import { withGlossary } from './glossary';
+import { withOfflineFallback, withTranslationCache, withTranslationMemory } from './memoryTranslator';
+import { createDeepLProvider } from './providers/deepl';
+import { createLibreTranslateProvider } from './providers/libreTranslate';
+import { createMyMemoryProvider } from './providers/myMemory';
+import { createOpenAIProvider } from './providers/openai';
+import { withRateLimit } from './rateLimit';
+import { ProviderSettings } from './settings';
+import {
+  isAbortError,
+  ProviderId,
+  TranslationError,
+  DetectedLanguage,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResult,
+} from './types';
+
+export interface Translator {
+  providers: TranslationProvider[];
+  translate(request: TranslationRequest): Promise<TranslationResult>;
+  detect(text: string, signal?: AbortSignal): Promise<DetectedLanguage | null>;
+}
+
+// How long a rate-limited provider is skipped before it is tried again
+const RATE_LIMIT_COOLDOWN_MS = 60_000;
+
+export const createProvider = (id: ProviderId, settings: ProviderSettings): TranslationProvider => {
+  switch (id) {
+    case 'mymemory':
+      return createMyMemoryProvider(settings.mymemory);
+    case 'libretranslate':
+      return createLibreTranslateProvider(settings.libretranslate);
+    case 'deepl':
+      return createDeepLProvider(settings.deepl);
+    case 'openai':
+      return createOpenAIProvider(settings.openai);
+  }
+};
+
+// The enabled providers in the user's order, each behind its rate limit. Translators that share
+// these also share their limits.
+export const createProviders = (settings: ProviderSettings): TranslationProvider[] =>
+  settings.order
+    .filter((id) => settings.enabled[id])
+    .map((id) => withRateLimit(createProvider(id, settings), settings.rateLimits[id]));
+
+// Tries each provider in order, moving on to the next one when a provider errors or rate-limits
+export const createFallbackTranslator = (providers: TranslationProvider[]): Translator => {
+  const cooldownUntil = new Map<ProviderId, number>();
+
+  return {
+    providers,
+    async translate(request) {
+      if (request.from === request.to) {
+        return { text: request.text, provider: providers[0]?.id ?? 'mymemory' };
+      }
+
+      const now = Date.now();
+      const available = providers.filter((p) => (cooldownUntil.get(p.id) ?? 0) <= now);
+      // If every provider is cooling down, try them all anyway rather than failing outright
+      const candidates = available.length > 0 ? available : providers;
+      const errors: unknown[] = [];
+      // Every attempt is recorded for the analytics dashboard, grouped by request
+      const requestId = crypto.randomUUID();
+      const recordAttempt = (provider: ProviderId, startedAt: number, error?: unknown) =>
+        recordMetric({
+          kind: 'translation',
+          requestId,
+          attempt: errors.length,
+          provider,
+          from: request.from,
+          to: request.to,
+          chars: request.text.length,
+          latencyMs: Date.now() - startedAt,
+          ok: error === undefined,
+          error: error === undefined ? undefined : error instanceof TranslationError ? error.kind : 'failed',
+        });
+
+      for (const provider of candidates) {
+        const startedAt = Date.now();
+        try {
+          const text = await provider.translate(request);
+          cooldownUntil.delete(provider.id);
+          recordAttempt(provider.id, startedAt);
+          return { text, provider: provider.id };
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          recordAttempt(provider.id, startedAt, err);
+          if (err instanceof TranslationError && err.kind === 'rate-limit') {
+            cooldownUntil.set(provider.id, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+          }
+          console.warn(`Translation provider ${provider.name} failed:`, err);
+          errors.push(err);
+        }
+      }
+
+      // A provider that could not be reached may answer later, even if the ones after it are not set up
+      const networkError = errors.find((err) => err instanceof TranslationError && err.kind === 'network');
+      const last = networkError ?? errors[errors.length - 1];
+      throw last instanceof Error ? last : new Error('No translation provider available');
+    },
+    async detect(text, signal) {
+      for (const provider of providers) {
+        if (!provider.detect) continue;
+        try {
+          const detected = await provider.detect(text, signal);
+          if (detected) return detected;
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          console.warn(`Language detection with ${provider.name} failed:`, err);
+        }
+      }
+      return null;
+    },
+  };
+};
+
+// Requests name the target language; the variant the agent picked for it is added here
+export const withTargetLocales = (translator: Translator, locales: LocalePreferences): Translator => ({
+  providers: translator.providers,
+  detect: translator.detect,
+  translate: (request) =>
+    translator.translate({ ...request, toLocale: request.toLocale ?? preferredLocale(request.to, locales) }),
+});
+
+// Memory answers first, and the phrasebook when every provider fails; glossary terms are protected
+// before the cache and providers see the text, and personal data is masked before both, so the
+// cache stored in this browser only ever holds placeholders for it
+export const createTranslator = (
+  providers: TranslationProvider[],
+  redaction: RedactionSettings,
+  locales: LocalePreferences
+): Translator =>
+  withTargetLocales(
+    withTranslationMemory(
+      withOfflineFallback(
+        withGlossary(
+          withRedaction(withTranslationCache(createFallbackTranslator(providers)), redaction)
+        )
+      )
+    ),
+    locales
+  );
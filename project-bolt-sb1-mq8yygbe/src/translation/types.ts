@@ -0,0 +1,91 @@
+export type ProviderId = 'mymemory' | 'libretranslate' | 'deepl' | 'openai';
+
+// Where a translation came from: a provider, the user's translation memory, the glossary alone,
+// or a pre-approved quick reply used while no provider could be reached
+export type TranslationSource = ProviderId | 'memory' | 'glossary' | 'phrasebook';
+
+export const translationSourceNames: Record<TranslationSource, string> = {
+  mymemory: 'MyMemory',
+  libretranslate: 'LibreTranslate',
+  deepl: 'DeepL',
+  openai: 'OpenAI-compatible',
+  memory: 'Translation memory',
+  glossary: 'Glossary',
+  phrasebook: 'Phrasebook',
+};
+
+export const isProviderSource = (source: TranslationSource): source is ProviderId =>
+  source !== 'memory' && source !== 'glossary' && source !== 'phrasebook';
+
+// network: the request never got an answer, e.g. on a flaky connection the browser still calls online
+export type TranslationErrorKind = 'rate-limit' | 'unavailable' | 'unsupported' | 'network' | 'failed';
+
+export interface TranslationRequest {
+  text: string;
+  from: string;
+  to: string;
+  // The variant of `to` the translation is for, e.g. zh-TW or pt-BR; providers that tell them apart use it
+  toLocale?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranslationResult {
+  text: string;
+  provider: TranslationSource;
+  cached?: boolean;
+}
+
+export interface DetectedLanguage {
+  language: string;
+  // 0 to 1
+  confidence: number;
+  source: ProviderId | 'local';
+}
+
+export interface TranslationProvider {
+  id: ProviderId;
+  name: string;
+  translate(request: TranslationRequest): Promise<string>;
+  // Only some services offer language detection
+  detect?(text: string, signal?: AbortSignal): Promise<DetectedLanguage | null>;
+}
+
+export class TranslationError extends Error {
+  readonly provider: ProviderId;
+  readonly kind: TranslationErrorKind;
+
+  constructor(provider: ProviderId, kind: TranslationErrorKind, message: string) {
+    super(message);
+    this.name = 'TranslationError';
+    this.provider = provider;
+    this.kind = kind;
+  }
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// fetch for providers: a request that gets no response at all fails as a network error
+export const fetchFrom = async (provider: ProviderId, input: string, init?: RequestInit) => {
+  try {
+    return await fetch(input, init);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new TranslationError(provider, 'network', err instanceof Error ? err.message : 'Network request failed');
+  }
+};
+
+// Whether a failed translation is worth queueing and trying again later, rather than failing
+export const isConnectionError = (err: unknown) =>
+  !navigator.onLine || (err instanceof TranslationError && err.kind === 'network');
+
+// Maps an HTTP failure onto the error kinds the fallback chain understands
+export const errorFromResponse = (provider: ProviderId, response: Response) => {
+  if (response.status === 429 || response.status === 456) {
+    return new TranslationError(provider, 'rate-limit', `Rate limited (HTTP ${response.status})`);
+  }
+  if (response.status >= 500) {
+    return new TranslationError(provider, 'unavailable', `Service unavailable (HTTP ${response.status})`);
+  }
+  return new TranslationError(provider, 'failed', `Request failed (HTTP ${response.status})`);
+};
@@ -0,0 +1,59 @@
+import { useEffect, useMemo, useState } from 'react';
+import { compareRoundTrip } from './backTranslation';
+import { Translator } from './translator';
+import { isAbortError } from './types';
+
+export type BackTranslationStatus = 'idle' | 'checking' | 'checked' | 'failed';
+
+interface UseBackTranslationOptions {
+  translator: Translator;
+  // The agent's reply, in the language it was written in
+  original: string;
+  // Its translation, or '' while there is none to check
+  translation: string;
+  // The language of the translation; it is translated back into originalLanguage
+  language: string;
+  originalLanguage: string;
+}
+
+// Translates a reply's translation back into the reply's language and scores how much survived
+export function useBackTranslation({
+  translator,
+  original,
+  translation,
+  language,
+  originalLanguage,
+}: UseBackTranslationOptions) {
+  const [roundTrip, setRoundTrip] = useState('');
+  const [status, setStatus] = useState<BackTranslationStatus>('idle');
+
+  useEffect(() => {
+    setRoundTrip('');
+    if (!translation.trim() || language === originalLanguage) {
+      setStatus('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus('checking');
+    translator
+      .translate({ text: translation, from: language, to: originalLanguage, signal: controller.signal })
+      .then((back) => {
+        setRoundTrip(back.text);
+        setStatus('checked');
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('Back-translation error:', err);
+        setStatus('failed');
+      });
+    return () => controller.abort();
+  }, [translator, translation, language, originalLanguage]);
+
+  const comparison = useMemo(
+    () => (status === 'checked' ? compareRoundTrip(original, roundTrip, originalLanguage) : null),
+    [status, original, roundTrip, originalLanguage]
+  );
+
+  return { status, roundTrip, comparison };
+}
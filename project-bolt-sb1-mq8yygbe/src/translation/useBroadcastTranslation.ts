@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueuedRetry } from '../offline/useQueuedRetry';
+import { splitSentences } from './segmentation';
+import { Translator } from './translator';
+import { isAbortError, isConnectionError, TranslationSource } from './types';
+import { SegmentStatus } from './useIncrementalTranslation';
+
+export interface BroadcastTranslation {
+  text: string;
+  status: SegmentStatus;
+  provider?: TranslationSource;
+}
+
+export interface BroadcastSegment {
+  id: string;
+  text: string;
+  // Keyed by target language code
+  translations: Record<string, BroadcastTranslation>;
+}
+
+interface UseBroadcastTranslationOptions {
+  translator: Translator;
+  from: string;
+  targets: string[];
+  onError?: (err: unknown) => void;
+}
+
+const requestKey = (id: string, language: string) => `${id}:${language}`;
+
+// Translates each finalized segment into every target language at once. The translator's
+// per-provider rate limits decide how many of those requests are actually in flight.
+export function useBroadcastTranslation({ translator, from, targets, onError }: UseBroadcastTranslationOptions) {
+  const [segments, setSegments] = useState<BroadcastSegment[]>([]);
+
+  const segmentsRef = useRef<BroadcastSegment[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const configRef = useRef({ translator, from, targets, onError });
+  configRef.current = { translator, from, targets, onError };
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  const patchTranslation = (id: string, language: string, patch: Partial<BroadcastTranslation>) => {
+    setSegments((prev) =>
+      prev.map((s) => {
+        if (s.id !== id) return s;
+        const current = s.translations[language] ?? { text: '', status: 'pending' };
+        return { ...s, translations: { ...s.translations, [language]: { ...current, ...patch } } };
+      })
+    );
+  };
+
+  const cancel = useCallback((key: string) => {
+    controllersRef.current.get(key)?.abort();
+    controllersRef.current.delete(key);
+  }, []);
+
+  const translateInto = useCallback(
+    async (id: string, text: string, language: string) => {
+      const key = requestKey(id, language);
+      cancel(key);
+      const { translator, from } = configRef.current;
+      const controller = new AbortController();
+      controllersRef.current.set(key, controller);
+      patchTranslation(id, language, { status: 'translating' });
+
+      try {
+        const result = await translator.translate({ text, from, to: language, signal: controller.signal });
+        if (controller.signal.aborted) return;
+        patchTranslation(id, language, { text: result.text, provider: result.provider, status: 'translated' });
+      } catch (err) {
+        if (isAbortError(err) || controller.signal.aborted) return;
+        if (isConnectionError(err)) {
+          patchTranslation(id, language, { status: 'queued' });
+          return;
+        }
+        patchTranslation(id, language, { status: 'failed' });
+        configRef.current.onError?.(err);
+      } finally {
+        if (controllersRef.current.get(key) === controller) {
+          controllersRef.current.delete(key);
+        }
+      }
+    },
+    [cancel]
+  );
+
+  const appendText = useCallback(
+    (text: string) => {
+      const { from, targets } = configRef.current;
+      const added: BroadcastSegment[] = splitSentences(text, from).map((sentence) => ({
+        id: crypto.randomUUID(),
+        text: sentence,
+        translations: {},
+      }));
+      if (added.length === 0) return;
+      setSegments((prev) => [...prev, ...added]);
+      for (const segment of added) {
+        targets.forEach((language) => translateInto(segment.id, segment.text, language));
+      }
+    },
+    [translateInto]
+  );
+
+  const reset = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+    setSegments([]);
+  }, []);
+
+  // A newly added target catches up on what was already said; a removed one stops translating
+  const targetsKey = targets.join(',');
+  useEffect(() => {
+    const active = new Set(targetsKey.split(',').filter(Boolean));
+    for (const key of [...controllersRef.current.keys()]) {
+      if (!active.has(key.slice(key.lastIndexOf(':') + 1))) cancel(key);
+    }
+    for (const segment of segmentsRef.current) {
+      for (const language of active) {
+        const done = segment.translations[language]?.status === 'translated';
+        if (!done && !controllersRef.current.has(requestKey(segment.id, language))) {
+          translateInto(segment.id, segment.text, language);
+        }
+      }
+    }
+  }, [targetsKey, translateInto, cancel]);
+
+  // A different source language or provider setup invalidates every translation
+  useEffect(() => {
+    for (const segment of segmentsRef.current) {
+      configRef.current.targets.forEach((language) => translateInto(segment.id, segment.text, language));
+    }
+  }, [translator, from, translateInto]);
+
+  const statuses = segments.flatMap((s) => targets.map((language) => s.translations[language]?.status));
+  useQueuedRetry({
+    queued: statuses.filter((status) => status === 'queued').length,
+    translated: statuses.filter((status) => status === 'translated').length,
+    retry: () => {
+      for (const segment of segmentsRef.current) {
+        for (const language of configRef.current.targets) {
+          if (segment.translations[language]?.status === 'queued') translateInto(segment.id, segment.text, language);
+        }
+      }
+    },
+  });
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  return { segments, appendText, reset };
+}
@@ -0,0 +1,189 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Translator } from './translator';
+import { TranslationError, TranslationRequest, TranslationResult } from './types';
+import { TakenSegment, useIncrementalTranslation } from './useIncrementalTranslation';
+
+// A translation the test answers by hand. Like a provider that has already sent its response,
+// it does not reject when aborted.
+interface PendingTranslation {
+  request: TranslationRequest;
+  resolve: (text: string) => void;
+  reject: (err: unknown) => void;
+}
+
+const createManualTranslator = () => {
+  const pending: PendingTranslation[] = [];
+  const translator: Translator = {
+    providers: [],
+    translate: (request) =>
+      new Promise<TranslationResult>((resolve, reject) => {
+        pending.push({ request, resolve: (text) => resolve({ text, provider: 'mymemory' }), reject });
+      }),
+    detect: async () => null,
+  };
+  return { translator, pending };
+};
+
+type Hook = ReturnType<typeof useIncrementalTranslation>;
+
+let root: Root;
+let container: HTMLElement;
+
+// The hook's latest return value, read through current like a ref
+const renderHook = (translator: Translator, onError?: (err: unknown) => void) => {
+  let latest: Hook | null = null;
+  function Probe() {
+    latest = useIncrementalTranslation({ translator, from: 'en', to: 'th', onError });
+    return null;
+  }
+  act(() => root.render(<Probe />));
+  return {
+    get current(): Hook {
+      if (!latest) throw new Error('The hook has not rendered');
+      return latest;
+    },
+  };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true);
+  container = document.createElement('div');
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('useIncrementalTranslation', () => {
+  it('waits for the debounce before translating each sentence on its own', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+
+    act(() => hook.current.appendText('Hello there. How are you?'));
+    await act(() => vi.advanceTimersByTimeAsync(399));
+    expect(pending).toHaveLength(0);
+
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(pending.map((p) => p.request.text)).toEqual(['Hello there. ', 'How are you?']);
+
+    await act(async () => {
+      pending[0].resolve('สวัสดี');
+      pending[1].resolve('สบายดีไหม');
+    });
+    expect(hook.current.segments.map((s) => [s.translation, s.status])).toEqual([
+      ['สวัสดี', 'translated'],
+      ['สบายดีไหม', 'translated'],
+    ]);
+  });
+
+  it('aborts the request still in flight when the segment is edited', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+    act(() => hook.current.appendText('Helo'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    const id = hook.current.segments[0].id;
+
+    act(() => hook.current.updateSegment(id, 'Hello'));
+
+    expect(pending[0].request.signal?.aborted).toBe(true);
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    expect(pending.map((p) => p.request.text)).toEqual(['Helo', 'Hello']);
+    expect(pending[1].request.signal?.aborted).toBe(false);
+  });
+
+  it('drops a response for text that has since been edited', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+    act(() => hook.current.appendText('Helo'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    const id = hook.current.segments[0].id;
+    act(() => hook.current.updateSegment(id, 'Hello'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+
+    await act(async () => pending[0].resolve('stale'));
+    expect(hook.current.segments[0]).toMatchObject({ text: 'Hello', translation: '', status: 'translating' });
+
+    await act(async () => pending[1].resolve('สวัสดี'));
+    expect(hook.current.segments[0]).toMatchObject({ translation: 'สวัสดี', status: 'translated' });
+  });
+
+  it('queues a segment that failed for lack of a connection and retries it once back online', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+    act(() => hook.current.appendText('Hello'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+
+    await act(async () => pending[0].reject(new TranslationError('mymemory', 'network', 'Failed to fetch')));
+    expect(hook.current.segments[0].status).toBe('queued');
+
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    expect(pending).toHaveLength(2);
+
+    await act(async () => pending[1].resolve('สวัสดี'));
+    expect(hook.current.segments[0]).toMatchObject({ translation: 'สวัสดี', status: 'translated' });
+  });
+
+  it('fails a segment the provider refused and reports the error', async () => {
+    const { translator, pending } = createManualTranslator();
+    const onError = vi.fn();
+    const hook = renderHook(translator, onError);
+    act(() => hook.current.appendText('Hello'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+
+    const error = new TranslationError('mymemory', 'failed', 'Request failed (HTTP 400)');
+    await act(async () => pending[0].reject(error));
+
+    expect(hook.current.segments[0].status).toBe('failed');
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('hands over requests in flight and starts debounced ones when the segments are taken', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+    act(() => hook.current.appendText('Hello.'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    act(() => hook.current.appendText('Bye.'));
+
+    let taken: TakenSegment[] = [];
+    act(() => {
+      taken = hook.current.takeSegments();
+    });
+
+    expect(hook.current.segments).toEqual([]);
+    expect(pending.map((p) => p.request.text)).toEqual(['Hello.', 'Bye.']);
+    expect(pending[0].request.signal?.aborted).toBe(false);
+    pending[0].resolve('สวัสดี');
+    pending[1].resolve('ลาก่อน');
+    expect(await Promise.all(taken.map((t) => t.pending))).toEqual([
+      { text: 'สวัสดี', provider: 'mymemory' },
+      { text: 'ลาก่อน', provider: 'mymemory' },
+    ]);
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    expect(pending).toHaveLength(2);
+  });
+
+  it('hands over finished translations as they are', async () => {
+    const { translator, pending } = createManualTranslator();
+    const hook = renderHook(translator);
+    act(() => hook.current.appendText('Hello.'));
+    await act(() => vi.advanceTimersByTimeAsync(400));
+    await act(async () => pending[0].resolve('สวัสดี'));
+
+    let taken: TakenSegment[] = [];
+    act(() => {
+      taken = hook.current.takeSegments();
+    });
+
+    expect(taken).toEqual([{ text: 'Hello.', translation: 'สวัสดี', provider: 'mymemory' }]);
+  });
+});
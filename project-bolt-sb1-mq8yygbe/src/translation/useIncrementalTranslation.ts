@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueuedRetry } from '../offline/useQueuedRetry';
+import { RecognitionAlternative } from '../speech/types';
+import { splitSentences } from './segmentation';
+import { Translator } from './translator';
+import { isAbortError, isConnectionError, TranslationResult, TranslationSource } from './types';
+
+// Queued segments failed while offline and are translated again once the connection is back
+export type SegmentStatus = 'pending' | 'translating' | 'translated' | 'queued' | 'failed';
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  translation: string;
+  status: SegmentStatus;
+  provider?: TranslationSource;
+  // Recognition confidence and the engine's other candidates, when the text came from speech
+  confidence?: number;
+  alternatives?: RecognitionAlternative[];
+}
+
+// A segment handed over by takeSegments: its translation, or the request that will bring it
+export interface TakenSegment {
+  text: string;
+  translation?: string;
+  provider?: TranslationSource;
+  pending?: Promise<TranslationResult>;
+}
+
+interface UseIncrementalTranslationOptions {
+  translator: Translator;
+  from: string;
+  to: string;
+  debounceMs?: number;
+  onError?: (err: unknown) => void;
+}
+
+let nextRevision = 0;
+
+// Keeps a transcript as separately translated segments, so only new or edited text is sent to the provider
+export function useIncrementalTranslation({
+  translator,
+  from,
+  to,
+  debounceMs = 400,
+  onError,
+}: UseIncrementalTranslationOptions) {
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
+  const timersRef = useRef(new Map<string, number>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const requestsRef = useRef(new Map<string, Promise<TranslationResult>>());
+  // The latest revision of each segment; responses for older revisions are dropped
+  const revisionsRef = useRef(new Map<string, number>());
+  const configRef = useRef({ translator, from, to, debounceMs, onError });
+  configRef.current = { translator, from, to, debounceMs, onError };
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+  }, [segments]);
+
+  const patchSegment = (id: string, patch: Partial<TranscriptSegment>) => {
+    setSegments((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const cancel = useCallback((id: string) => {
+    window.clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+  }, []);
+
+  const schedule = useCallback(
+    (id: string, text: string) => {
+      cancel(id);
+      const revision = ++nextRevision;
+      revisionsRef.current.set(id, revision);
+      const isCurrent = () => revisionsRef.current.get(id) === revision;
+
+      const timer = window.setTimeout(async () => {
+        timersRef.current.delete(id);
+        const { translator, from, to } = configRef.current;
+        const controller = new AbortController();
+        controllersRef.current.set(id, controller);
+        patchSegment(id, { status: 'translating' });
+
+        const request = translator.translate({ text, from, to, signal: controller.signal });
+        requestsRef.current.set(id, request);
+        try {
+          const result = await request;
+          if (!isCurrent()) return;
+          patchSegment(id, { translation: result.text, provider: result.provider, status: 'translated' });
+        } catch (err) {
+          if (isAbortError(err) || !isCurrent()) return;
+          if (isConnectionError(err)) {
+            patchSegment(id, { status: 'queued' });
+            return;
+          }
+          patchSegment(id, { status: 'failed' });
+          configRef.current.onError?.(err);
+        } finally {
+          if (controllersRef.current.get(id) === controller) {
+            controllersRef.current.delete(id);
+          }
+          if (requestsRef.current.get(id) === request) {
+            requestsRef.current.delete(id);
+          }
+        }
+      }, configRef.current.debounceMs);
+      timersRef.current.set(id, timer);
+    },
+    [cancel]
+  );
+
+  // Adds a final recognition result, split at sentence boundaries
+  const appendText = useCallback(
+    (text: string, recognition: { confidence?: number; alternatives?: RecognitionAlternative[] } = {}) => {
+      const sentences = splitSentences(text, configRef.current.from);
+      const added: TranscriptSegment[] = sentences.map((sentence) => ({
+        id: crypto.randomUUID(),
+        text: sentence,
+        translation: '',
+        status: 'pending',
+        confidence: recognition.confidence,
+        // Alternatives cover the whole result, so they only fit when it stayed in one piece
+        alternatives: sentences.length === 1 ? recognition.alternatives : undefined,
+      }));
+      if (added.length === 0) return;
+      setSegments((prev) => [...prev, ...added]);
+      added.forEach((s) => schedule(s.id, s.text));
+    },
+    [schedule]
+  );
+
+  // Replaces one segment's text and translates only that segment again. The replaced text
+  // stays available as an alternative, so picking an alternative can be undone the same way.
+  const updateSegment = useCallback(
+    (id: string, text: string) => {
+      setSegments((prev) =>
+        prev.map((s) => {
+          if (s.id !== id) return s;
+          const candidates = [{ transcript: s.text, confidence: s.confidence }, ...(s.alternatives ?? [])];
+          const chosen = candidates.find((a) => a.transcript.trim() === text.trim());
+          return {
+            ...s,
+            text,
+            status: 'pending',
+            // Text typed by the agent counts as confirmed
+            confidence: chosen?.confidence,
+            alternatives: candidates.filter((a) => a !== chosen && a.transcript.trim() !== text.trim()),
+          };
+        })
+      );
+      schedule(id, text);
+    },
+    [schedule]
+  );
+
+  const removeSegment = useCallback(
+    (id: string) => {
+      cancel(id);
+      revisionsRef.current.delete(id);
+      setSegments((prev) => prev.filter((s) => s.id !== id));
+    },
+    [cancel]
+  );
+
+  const reset = useCallback(() => {
+    for (const id of revisionsRef.current.keys()) {
+      cancel(id);
+    }
+    revisionsRef.current.clear();
+    setSegments([]);
+  }, [cancel]);
+
+  // Empties the transcript like reset, but hands over the requests still running instead of
+  // aborting them, and starts the ones waiting out the debounce, so the caller need not send
+  // any segment again
+  const takeSegments = useCallback((): TakenSegment[] => {
+    const { translator, from, to } = configRef.current;
+    const taken = segmentsRef.current
+      .filter((s) => s.text.trim())
+      .map((s): TakenSegment => {
+        if (s.status === 'translated') return { text: s.text, translation: s.translation, provider: s.provider };
+        const waiting = timersRef.current.has(s.id) ? translator.translate({ text: s.text, from, to }) : undefined;
+        return { text: s.text, pending: requestsRef.current.get(s.id) ?? waiting };
+      });
+    timersRef.current.forEach((timer) => window.clearTimeout(timer));
+    timersRef.current.clear();
+    controllersRef.current.clear();
+    requestsRef.current.clear();
+    revisionsRef.current.clear();
+    setSegments([]);
+    return taken;
+  }, []);
+
+  // A different language pair or provider setup invalidates every translation
+  useEffect(() => {
+    for (const segment of segmentsRef.current) {
+      patchSegment(segment.id, { status: 'pending' });
+      schedule(segment.id, segment.text);
+    }
+  }, [translator, from, to, schedule]);
+
+  useQueuedRetry({
+    queued: segments.filter((s) => s.status === 'queued').length,
+    translated: segments.filter((s) => s.status === 'translated').length,
+    retry: () => {
+      for (const segment of segmentsRef.current) {
+        if (segment.status === 'queued') schedule(segment.id, segment.text);
+      }
+    },
+  });
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    const controllers = controllersRef.current;
+    return () => {
+      timers.forEach((timer) => window.clearTimeout(timer));
+      controllers.forEach((controller) => controller.abort());
+    };
+  }, []);
+
+  return { segments, appendText, updateSegment, removeSegment, reset, takeSegments };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines']])).toBe('\uFEFF"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('puts a quote mark in front of cells a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=1+1', '+66 81 234 5678', '-5', '@SUM(A1)', '\tx', 'a=b']])).toBe(
+      "\uFEFF'=1+1,'+66 81 234 5678,'-5,'@SUM(A1),'\tx,a=b\r\n"
+    );
+    expect(toCsv([['\rx']])).toBe("\uFEFF\"'\rx\"\r\n");
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads back what toCsv wrote', () => {
+    const rows = [
+      ['term', 'translation'],
+      ['=HYPERLINK("http://example.com")', '+1 555 0100'],
+      ["'=already quoted", "'plain"],
+      ['a,b', 'two\r\nlines'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('keeps quote marks that do not guard a formula', () => {
+    expect(parseCsv("'hello,it's\r\n")).toEqual([["'hello", "it's"]]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n,\r\nc,d')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+// Spreadsheet apps run cells starting with these as formulas, so they go out with a ' in front.
+// Cells that already start with quote marks before one get another, so reading them back is exact.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+const csvCell = (value: string) => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Drops the ' that csvCell put in front of a formula-like cell
+const csvValue = (cell: string) => (/^'+[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+
+// The BOM makes spreadsheet apps read non-Latin scripts as UTF-8
+export const toCsv = (rows: string[][]) => '\uFEFF' + rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(csvValue(cell));
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(csvValue(cell));
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(csvValue(cell));
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+};
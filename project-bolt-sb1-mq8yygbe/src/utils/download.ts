@@ -0,0 +1,12 @@
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const safeFilename = (name: string, fallback: string) =>
+  name.replace(/[^\p{L}\p{N}_-]+/gu, '_') || fallback;
@@ -1 +1,25 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MYMEMORY_URL?: string;
+  readonly VITE_LIBRETRANSLATE_URL?: string;
+  readonly VITE_LIBRETRANSLATE_API_KEY?: string;
+  readonly VITE_DEEPL_URL?: string;
+  readonly VITE_DEEPL_API_KEY?: string;
+  readonly VITE_OPENAI_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_STT_WEBSOCKET_URL?: string;
+  readonly VITE_STT_API_KEY?: string;
+  readonly VITE_TRANSCRIPTION_URL?: string;
+  readonly VITE_TRANSCRIPTION_API_KEY?: string;
+  readonly VITE_TRANSCRIPTION_MODEL?: string;
+  readonly VITE_ROOM_RELAY_URL?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,100 @@
+/*
+  # Agent sessions, turns and glossaries
+
+  Each row belongs to the agent who created it. Row-level security limits every agent to their
+  own rows, and agent_id defaults to the signed-in user so clients never have to trust themselves.
+
+  1. Tables
+    - sessions: one conversation, with the language pair it was recorded in
+    - turns: the turns of a session, ordered by position, tagged with the push that last wrote them
+    - glossary_entries: forced translations and do-not-translate terms
+  2. Security
+    - RLS on every table; agents can read and write only rows where agent_id = auth.uid()
+*/
+
+create table if not exists sessions (
+  id uuid primary key,
+  agent_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null default '',
+  input_language text not null,
+  output_language text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists sessions_agent_updated_idx on sessions (agent_id, updated_at desc);
+
+create table if not exists turns (
+  id uuid primary key,
+  session_id uuid not null references sessions (id) on delete cascade,
+  agent_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  position integer not null,
+  speaker text not null check (speaker in ('customer', 'agent')),
+  author text,
+  source_text text not null,
+  translated_text text not null default '',
+  status text not null,
+  source_language text not null,
+  target_language text not null,
+  provider text,
+  spoken_at jsonb,
+  detected_language jsonb,
+  -- A push tags every turn it writes with one id, then deletes the session's turns with any other id
+  sync_id uuid not null default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists turns_session_position_idx on turns (session_id, position);
+create index if not exists turns_agent_idx on turns (agent_id);
+
+create table if not exists glossary_entries (
+  id uuid primary key,
+  agent_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  from_language text not null,
+  to_language text not null,
+  term text not null,
+  translation text not null default '',
+  do_not_translate boolean not null default false,
+  created_at timestamptz not null default now(),
+  -- Decides which copy of an entry is newer; created_at stays as first saved
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists glossary_entries_agent_idx on glossary_entries (agent_id);
+
+alter table sessions enable row level security;
+alter table turns enable row level security;
+alter table glossary_entries enable row level security;
+
+create policy "Agents read their own sessions" on sessions
+  for select to authenticated using (agent_id = auth.uid());
+create policy "Agents create their own sessions" on sessions
+  for insert to authenticated with check (agent_id = auth.uid());
+create policy "Agents update their own sessions" on sessions
+  for update to authenticated using (agent_id = auth.uid()) with check (agent_id = auth.uid());
+create policy "Agents delete their own sessions" on sessions
+  for delete to authenticated using (agent_id = auth.uid());
+
+-- A turn can only be attached to a session the same agent owns
+create policy "Agents read their own turns" on turns
+  for select to authenticated using (agent_id = auth.uid());
+create policy "Agents create turns in their own sessions" on turns
+  for insert to authenticated with check (
+    agent_id = auth.uid() and exists (select 1 from sessions s where s.id = session_id and s.agent_id = auth.uid())
+  );
+create policy "Agents update their own turns" on turns
+  for update to authenticated using (agent_id = auth.uid()) with check (
+    agent_id = auth.uid() and exists (select 1 from sessions s where s.id = session_id and s.agent_id = auth.uid())
+  );
+create policy "Agents delete their own turns" on turns
+  for delete to authenticated using (agent_id = auth.uid());
+
+create policy "Agents read their own glossary" on glossary_entries
+  for select to authenticated using (agent_id = auth.uid());
+create policy "Agents create their own glossary entries" on glossary_entries
+  for insert to authenticated with check (agent_id = auth.uid());
+create policy "Agents update their own glossary entries" on glossary_entries
+  for update to authenticated using (agent_id = auth.uid()) with check (agent_id = auth.uid());
+create policy "Agents delete their own glossary entries" on glossary_entries
+  for delete to authenticated using (agent_id = auth.uid());
@@ -2,7 +2,27 @@
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      // System fonts that cover each script, used through scriptFontClass in src/languages.ts
+      fontFamily: {
+        thai: ['"Noto Sans Thai"', '"Leelawadee UI"', 'Thonburi', 'Tahoma', 'sans-serif'],
+        cjk: [
+          '"Noto Sans CJK SC"',
+          '"PingFang SC"',
+          '"Hiragino Sans"',
+          '"Microsoft YaHei"',
+          '"Yu Gothic"',
+          '"Apple SD Gothic Neo"',
+          '"Malgun Gothic"',
+          'sans-serif',
+        ],
+        // Traditional Chinese glyph forms for Taiwan and Hong Kong
+        'cjk-tc': ['"Noto Sans CJK TC"', '"PingFang TC"', '"Microsoft JhengHei"', 'sans-serif'],
+        devanagari: ['"Noto Sans Devanagari"', '"Nirmala UI"', '"Kohinoor Devanagari"', 'Mangal', 'sans-serif'],
+        arabic: ['"Noto Naskh Arabic"', '"Noto Sans Arabic"', '"Geeza Pro"', '"Segoe UI"', 'Tahoma', 'sans-serif'],
+        hebrew: ['"Noto Sans Hebrew"', '"Arial Hebrew"', '"Segoe UI"', 'Arial', 'sans-serif'],
+      },
+    },
   },
   plugins: [],
 };
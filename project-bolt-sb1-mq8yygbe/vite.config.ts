@@ -1,10 +1,74 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Connect, defineConfig, loadEnv, Plugin, ResolvedConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes dist/sw.js from src/offline/sw.js with the files to precache: everything this build
+// emits plus the public folder, relative to the base URL the worker is registered under. The
+// build id changes with them, so each deploy installs a new worker and drops the old cache.
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After index.html has been added to the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = config.publicDir
+        ? readdirSync(config.publicDir, { withFileTypes: true })
+            .filter((entry) => entry.isFile())
+            .map((entry) => entry.name)
+        : [];
+      const built = Object.keys(bundle).filter((file) => !file.endsWith('.map'));
+      const files = [...new Set(['./', 'index.html', ...publicFiles, ...built])].sort();
+
+      const hash = createHash('sha256').update(files.join('\n'));
+      publicFiles.forEach((file) => hash.update(readFileSync(resolve(config.publicDir, file))));
+
+      const source = readFileSync(resolve(config.root, 'src/offline/sw.js'), 'utf8')
+        .replace('self.__BUILD_ID__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('self.__APP_SHELL__', JSON.stringify(files));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+};
+
+// Lets only the pages in VITE_EMBED_ALLOWED_ORIGINS frame the app, and only as an embed
+// (?embed=1). Static hosting has to send the same header for production builds.
+const frameAncestors = (allowedOrigins: string): Plugin => {
+  const origins = allowedOrigins
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const setHeader: Connect.NextHandleFunction = (req, res, next) => {
+    const isEmbed = new URL(req.url ?? '/', 'http://localhost').searchParams.get('embed') === '1';
+    const sources = isEmbed && origins.length > 0 ? origins.join(' ') : "'none'";
+    res.setHeader('Content-Security-Policy', `frame-ancestors ${sources}`);
+    next();
+  };
+  return {
+    name: 'frame-ancestors',
+    configureServer(server) {
+      server.middlewares.use(setHeader);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(setHeader);
+    },
+  };
+};
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [
+    react(),
+    serviceWorker(),
+    frameAncestors(loadEnv(mode, process.cwd(), 'VITE_').VITE_EMBED_ALLOWED_ORIGINS ?? ''),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+}));
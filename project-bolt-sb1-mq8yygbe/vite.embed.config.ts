@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite';
+
+// The host-page loader (embed.js), built after the app into the same dist folder
+export default defineConfig({
+  build: {
+    emptyOutDir: false,
+    lib: {
+      entry: 'src/embed/loader.ts',
+      name: 'VoiceTranslation',
+      formats: ['iife'],
+      fileName: () => 'embed.js',
+    },
+  },
+});